@@ -1,9 +1,32 @@
 // @ts-check
 import { defineConfig } from 'astro/config';
 import vercel from '@astrojs/vercel';
+import { dictionaryCheck } from './src/lib/i18n/build-check';
+import { DEFAULT_LOCALE, LOCALES } from './src/lib/i18n/locales';
 
 // https://astro.build/config
 export default defineConfig({
+  // Canonical URLs, share images and the sitemap point here
+  site: 'https://thetechbros.io',
   output: 'server',
   adapter: vercel(),
+  integrations: [dictionaryCheck()],
+  i18n: {
+    locales: [...LOCALES],
+    defaultLocale: DEFAULT_LOCALE,
+    // English stays unprefixed. /nb/apply/join-community renders
+    // src/pages/apply/join-community.astro with Astro.currentLocale set to 'nb',
+    // so each page exists once. Untranslated pages redirect to English
+    // (src/middleware.ts).
+    routing: { prefixDefaultLocale: false, fallbackType: 'rewrite' },
+    fallback: Object.fromEntries(
+      LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).map((locale) => [locale, DEFAULT_LOCALE])
+    ),
+  },
+  vite: {
+    server: {
+      // Written by the local integration stand-ins; don't reload on every submission
+      watch: { ignored: ['**/.data/**'] },
+    },
+  },
 });
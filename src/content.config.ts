@@ -0,0 +1,149 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { defineCollection, z } from 'astro:content';
+import { glob } from 'astro/loaders';
+import { EVENT_TYPES, MERCH_SIZES, PRESS_KINDS, TEAM_GROUPS } from './lib/content/constants';
+import { isTimeZone } from './lib/content/dates';
+
+// Calendar dates are written as YYYY-MM-DD. Anything else, or a day that doesn't
+// exist (2025-02-30), fails the build instead of rendering "Invalid Date".
+const calendarDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be written as YYYY-MM-DD')
+  .refine(
+    (value) => {
+      const date = new Date(`${value}T00:00:00Z`);
+      return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+    },
+    { message: 'Not a real calendar date' },
+  )
+  .transform((value) => new Date(`${value}T00:00:00Z`));
+
+// 24-hour wall-clock time in the event's time zone
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be written as HH:MM (24-hour)');
+
+// Site-relative path to a file in public/, checked at build time so a typo
+// doesn't ship as a broken image
+const publicFile = z
+  .string()
+  .startsWith('/', 'Paths must start with / (relative to public/)')
+  .refine((path) => existsSync(join(process.cwd(), 'public', path)), (path) => ({
+    message: `public${path} does not exist`,
+  }));
+
+const events = defineCollection({
+  loader: glob({ pattern: '**/*.json', base: './src/content/events' }),
+  schema: z
+    .object({
+      title: z.string().min(1),
+      type: z.enum(EVENT_TYPES),
+      date: calendarDate,
+      endDate: calendarDate.optional(),
+      // Without a start time the event is listed (and exported) as all-day
+      startTime: clockTime.optional(),
+      endTime: clockTime.optional(),
+      timezone: z.string().refine(isTimeZone, 'Unknown IANA time zone').optional(),
+      venue: z.string().min(1).optional(),
+      city: z.string().min(1),
+      country: z.string().min(1),
+      // Top level of the location filter: a country, or a wider grouping like "Europe"
+      region: z.string().min(1),
+      image: publicFile.optional(),
+      content: z.array(z.string().min(1)),
+      rating: z.number().min(0).max(5).optional(),
+      linkedin: z.string().url().optional(),
+      // Where to sign up (usually the Luma page) while the event is upcoming
+      registrationUrl: z.string().url().optional(),
+    })
+    .refine((event) => !event.endDate || event.endDate >= event.date, {
+      message: 'endDate must not be before date',
+      path: ['endDate'],
+    })
+    .refine((event) => !event.startTime || event.timezone, {
+      message: 'timezone is required when startTime is set',
+      path: ['timezone'],
+    })
+    .refine((event) => !event.endTime || event.startTime, {
+      message: 'endTime needs a startTime',
+      path: ['endTime'],
+    })
+    .refine((event) => event.endDate || !event.endTime || !event.startTime || event.endTime > event.startTime, {
+      message: 'endTime must be after startTime',
+      path: ['endTime'],
+    }),
+});
+
+const press = defineCollection({
+  loader: glob({ pattern: '**/*.json', base: './src/content/press' }),
+  schema: z.object({
+    title: z.string().min(1),
+    kind: z.enum(PRESS_KINDS),
+    outlet: z.string().min(1),
+    date: calendarDate,
+    url: z.string().url(),
+    image: publicFile,
+    imageAlt: z.string().min(1),
+    excerpt: z.string().min(1),
+  }),
+});
+
+const team = defineCollection({
+  loader: glob({ pattern: '**/*.json', base: './src/content/team' }),
+  schema: z.object({
+    name: z.string().min(1),
+    role: z.string().min(1),
+    group: z.enum(TEAM_GROUPS),
+    order: z.number().int(),
+    photo: publicFile,
+    bio: z.array(z.string().min(1)),
+    linkedin: z.string().url(),
+    // Unpublished members stay in the data but aren't shown on the site
+    published: z.boolean().default(true),
+  }),
+});
+
+const partners = defineCollection({
+  loader: glob({ pattern: '**/*.json', base: './src/content/partners' }),
+  schema: z.object({
+    name: z.string().min(1),
+    logo: publicFile,
+    order: z.number().int(),
+  }),
+});
+
+// Merch. Stock is the total ever available per variant; what's been sold or is
+// held in an open checkout is tracked by the inventory store (src/lib/inventory).
+const products = defineCollection({
+  loader: glob({ pattern: '**/*.json', base: './src/content/products' }),
+  schema: z
+    .object({
+      name: z.string().min(1),
+      description: z.string().min(1),
+      // Minor units (pence), so totals never hit floating-point rounding
+      price: z.number().int().positive(),
+      currency: z.string().regex(/^[A-Z]{3}$/, 'Currencies are ISO 4217 codes, e.g. GBP'),
+      image: publicFile,
+      imageAlt: z.string().min(1),
+      order: z.number().int(),
+      // Until this date only waitlist members with an early-access code can buy
+      releaseDate: calendarDate.optional(),
+      // Words that, found in a waitlist member's "Interested In" answer, make
+      // the product relevant to them for launch emails (e.g. "hoodie")
+      keywords: z.array(z.string().min(1)).default([]),
+      variants: z
+        .array(
+          z.object({
+            size: z.enum(MERCH_SIZES),
+            sku: z.string().regex(/^[A-Z0-9-]+$/, 'SKUs are upper-case letters, digits and dashes'),
+            stock: z.number().int().min(0),
+          }),
+        )
+        .min(1),
+    })
+    .refine((product) => new Set(product.variants.map((variant) => variant.size)).size === product.variants.length, {
+      message: 'Each size can only be listed once',
+      path: ['variants'],
+    }),
+});
+
+export const collections = { events, press, team, partners, products };
@@ -0,0 +1,37 @@
+import { getDraftStore, DRAFT_TTL_MS, type Draft } from './drafts';
+import { acceleratorDraftSaved, renderEmail } from './emails';
+import type { EmailSender } from './integrations';
+import { createSignedToken, verifySignedToken } from './signed-links';
+
+// Save-and-resume for the accelerator application. Drafts are stored
+// server-side; the applicant gets a signed magic link that reopens theirs.
+
+export const ACCELERATOR_FORM = 'accelerator-apply';
+const DRAFT_PURPOSE = 'accelerator-draft';
+
+export function draftResumeUrl(origin: string, draftId: string): string {
+  const token = createSignedToken(DRAFT_PURPOSE, { draftId }, DRAFT_TTL_MS);
+  return `${origin}/apply/accelerator/application?draft=${encodeURIComponent(token)}`;
+}
+
+export function readDraftToken(token: string | null | undefined): string | undefined {
+  return verifySignedToken<{ draftId: string }>(DRAFT_PURPOSE, token)?.draftId;
+}
+
+// The draft a magic link points to, if the link is genuine and the draft hasn't expired
+export async function loadDraft(token: string | null | undefined): Promise<Draft | undefined> {
+  const draftId = readDraftToken(token);
+  if (!draftId) return undefined;
+  const draft = await getDraftStore().get(draftId);
+  return draft?.form === ACCELERATOR_FORM ? draft : undefined;
+}
+
+export async function sendDraftLink(sender: EmailSender, origin: string, draft: Draft): Promise<void> {
+  await sender.send({
+    to: draft.email,
+    ...renderEmail(acceleratorDraftSaved, {
+      resumeUrl: draftResumeUrl(origin, draft.id),
+      expires: new Date(draft.expiresAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
+    }),
+  });
+}
@@ -0,0 +1,88 @@
+import type { AstroCookies } from 'astro';
+import { adminSignIn, renderEmail } from '../emails';
+import { ConfigurationError } from '../errors';
+import { readEnv } from '../env';
+import type { EmailSender } from '../integrations';
+import { getRateLimitStore } from '../rate-limit';
+import { createSignedToken, verifySignedToken } from '../signed-links';
+
+// Passwordless sign-in for the team dashboard (/admin), the same way the
+// applicant portal works: a single-use magic link starts a session held in a
+// signed cookie. Only addresses in ADMIN_EMAILS can sign in.
+
+const LOGIN_PURPOSE = 'admin-login';
+const SESSION_PURPOSE = 'admin-session';
+const LOGIN_TTL_MS = 15 * 60 * 1000;
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+
+interface LoginToken {
+  email: string;
+  nonce: string;
+}
+
+// ADMIN_EMAILS is a comma-separated list of addresses
+function adminEmails(): Set<string> {
+  const list = readEnv('ADMIN_EMAILS');
+  if (!list) {
+    throw new ConfigurationError(['ADMIN_EMAILS']);
+  }
+  return new Set(
+    list
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+export function isAdminEmail(email: string): boolean {
+  return adminEmails().has(email.trim().toLowerCase());
+}
+
+export function adminLoginUrl(origin: string, email: string): string {
+  const token = createSignedToken<LoginToken>(LOGIN_PURPOSE, { email, nonce: crypto.randomUUID() }, LOGIN_TTL_MS);
+  return `${origin}/admin/login?token=${encodeURIComponent(token)}`;
+}
+
+// Returns the email a login link was sent to. Each link works once, and only
+// while the address is still on the allow-list.
+export async function consumeAdminLoginToken(token: string | null | undefined): Promise<string | undefined> {
+  const login = verifySignedToken<LoginToken>(LOGIN_PURPOSE, token);
+  if (!login || !isAdminEmail(login.email)) return undefined;
+
+  const store = getRateLimitStore();
+  try {
+    const uses = await store.increment(`admin-login:${login.nonce}`, LOGIN_TTL_MS);
+    return uses === 1 ? login.email : undefined;
+  } catch (error) {
+    // Fail open, as the applicant portal does: the link has already proved the address
+    console.error('Login token store error:', error);
+    return login.email;
+  }
+}
+
+export async function sendAdminLoginLink(sender: EmailSender, origin: string, email: string): Promise<void> {
+  await sender.send({ to: email, ...renderEmail(adminSignIn, { signInUrl: adminLoginUrl(origin, email) }) });
+}
+
+export function startAdminSession(cookies: AstroCookies, url: URL, email: string): void {
+  cookies.set(ADMIN_SESSION_COOKIE, createSignedToken(SESSION_PURPOSE, { email }, SESSION_TTL_MS), {
+    httpOnly: true,
+    secure: url.protocol === 'https:',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+// The signed-in team member's email. Removing someone from ADMIN_EMAILS ends
+// their session straight away.
+export function readAdminSession(cookies: AstroCookies): string | undefined {
+  const email = verifySignedToken<{ email: string }>(SESSION_PURPOSE, cookies.get(ADMIN_SESSION_COOKIE)?.value)?.email;
+  return email && isAdminEmail(email) ? email : undefined;
+}
+
+export function endAdminSession(cookies: AstroCookies): void {
+  cookies.delete(ADMIN_SESSION_COOKIE, { path: '/' });
+}
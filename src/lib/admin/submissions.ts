@@ -0,0 +1,407 @@
+import { APPLICATION_STATUSES, STATUS_LABELS, notifyStatusChange, parseStatus, type ApplicationStatus } from '../applications';
+import { logError } from '../http';
+import type { Integrations, MailingListEntry, RecordTable, StoredRecord } from '../integrations';
+import { AUDIENCE_LABELS } from '../partners';
+
+// Submissions as the team dashboard (/admin) sees them: community applications,
+// merch waitlist entries and partner inquiries from the record store, and
+// newsletter signups from the mailing list. Field names are the ones the form
+// definitions write.
+
+export const PAGE_SIZE = 50;
+
+const MAX_NOTES_LENGTH = 5000;
+
+export interface SubmissionFilter {
+  // Query parameter, e.g. ?degree=PhD
+  param: string;
+  field: string;
+  label: string;
+  // Fixed choices; otherwise the menu lists every value in the data
+  options?: readonly string[];
+}
+
+export interface SubmissionView {
+  label: string;
+  source: RecordTable | 'mailing-list';
+  // Every field, in the order shown in the details and the CSV export
+  columns: string[];
+  // The fields shown in the table itself
+  summary: string[];
+  filters: SubmissionFilter[];
+  // Applications have a Status the team moves along; the applicant is emailed
+  hasStatus: boolean;
+  // Whether the team can keep notes on the record
+  hasNotes: boolean;
+}
+
+// Written by the forms from what the visitor arrived with (see src/lib/attribution.ts)
+const ATTRIBUTION_COLUMNS = [
+  'UTM Source',
+  'UTM Medium',
+  'UTM Campaign',
+  'UTM Term',
+  'UTM Content',
+  'Referrer',
+  'Referral Code',
+  'Landing Page',
+];
+
+// Not utm_* or ref: every page reads those as the visitor's attribution
+const ATTRIBUTION_FILTERS: SubmissionFilter[] = [
+  { param: 'utm-source', field: 'UTM Source', label: 'UTM source' },
+  { param: 'campaign', field: 'UTM Campaign', label: 'Campaign' },
+  { param: 'referral', field: 'Referral Code', label: 'Referral code' },
+];
+
+export const SUBMISSION_VIEWS = {
+  community: {
+    label: 'Community applications',
+    source: 'community',
+    columns: [
+      'Full Name',
+      'Email',
+      'Location',
+      'Field(s)',
+      'Most Advanced Degree',
+      'LinkedIn URL',
+      'Personal Website',
+      'Phone Number',
+      'Why TTB',
+      'Add to Mailing List',
+      ...ATTRIBUTION_COLUMNS,
+      'Submission Count',
+      'Last Submitted At',
+      'Status',
+      'Notes',
+      'Reviewed By',
+    ],
+    summary: ['Full Name', 'Email', 'Location', 'Field(s)', 'Most Advanced Degree', 'Status'],
+    filters: [
+      { param: 'field', field: 'Field(s)', label: 'Field' },
+      { param: 'degree', field: 'Most Advanced Degree', label: 'Degree' },
+      { param: 'location', field: 'Location', label: 'Location' },
+      { param: 'status', field: 'Status', label: 'Status', options: APPLICATION_STATUSES.map((key) => STATUS_LABELS[key]) },
+      ...ATTRIBUTION_FILTERS,
+    ],
+    hasStatus: true,
+    hasNotes: true,
+  },
+  merch: {
+    label: 'Merch waitlist',
+    source: 'merch',
+    columns: [
+      'Name',
+      'Email',
+      'Size Preference',
+      'Interested In',
+      'Source',
+      'Opted Out',
+      ...ATTRIBUTION_COLUMNS,
+      'Submission Count',
+      'Last Submitted At',
+      'Notes',
+      'Reviewed By',
+    ],
+    summary: ['Name', 'Email', 'Size Preference', 'Interested In'],
+    filters: [{ param: 'size', field: 'Size Preference', label: 'Size' }, ...ATTRIBUTION_FILTERS],
+    hasStatus: false,
+    hasNotes: true,
+  },
+  partners: {
+    label: 'Partner inquiries',
+    source: 'partners',
+    columns: [
+      'Audience',
+      'Name',
+      'Email',
+      'Organisation',
+      'Role',
+      'Website',
+      'Sponsorship Tier',
+      'Event Format',
+      'Timeline',
+      'Cheque Size',
+      'Investment Stage',
+      'Focus Areas',
+      'Department',
+      'Partnership Type',
+      'Message',
+      'Notes',
+      'Reviewed By',
+    ],
+    summary: ['Audience', 'Name', 'Email', 'Organisation'],
+    filters: [
+      { param: 'audience', field: 'Audience', label: 'Audience', options: Object.values(AUDIENCE_LABELS) },
+      { param: 'tier', field: 'Sponsorship Tier', label: 'Sponsorship tier' },
+      { param: 'cheque', field: 'Cheque Size', label: 'Cheque size' },
+    ],
+    hasStatus: false,
+    hasNotes: true,
+  },
+  newsletter: {
+    label: 'Newsletter signups',
+    source: 'mailing-list',
+    columns: [
+      'Email',
+      'First Name',
+      'Last Name',
+      'Signup Source',
+      'UTM Source',
+      'UTM Medium',
+      'UTM Campaign',
+      'Referrer',
+      'Referral Code',
+      'Subscription',
+    ],
+    summary: ['Email', 'First Name', 'Last Name', 'Signup Source', 'Subscription'],
+    filters: [
+      { param: 'source', field: 'Signup Source', label: 'Source' },
+      { param: 'subscription', field: 'Subscription', label: 'Subscription' },
+      ...ATTRIBUTION_FILTERS,
+    ],
+    hasStatus: false,
+    hasNotes: false,
+  },
+} satisfies Record<string, SubmissionView>;
+
+export type SubmissionViewName = keyof typeof SUBMISSION_VIEWS;
+
+export function isSubmissionView(value: unknown): value is SubmissionViewName {
+  return typeof value === 'string' && value in SUBMISSION_VIEWS;
+}
+
+export interface Submission {
+  // Record ID, or the email address for newsletter signups
+  id: string;
+  submittedAt?: string;
+  fields: Record<string, unknown>;
+}
+
+export interface SubmissionQuery {
+  view: SubmissionViewName;
+  q?: string;
+  // Filter param -> value
+  filters: Record<string, string>;
+  page: number;
+}
+
+// Arrays (Field(s)) are joined and flags read Yes/No, in the table and the CSV alike
+export function displayValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(String).join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+// Unknown views fall back to community applications, and a bad page number to
+// the first page: this is an internal screen, not an API
+export function parseSubmissionQuery(params: URLSearchParams): SubmissionQuery {
+  const param = (name: string) => params.get(name)?.trim() || undefined;
+  const viewParam = param('view');
+  const view = isSubmissionView(viewParam) ? viewParam : 'community';
+
+  const filters: Record<string, string> = {};
+  for (const filter of SUBMISSION_VIEWS[view].filters) {
+    const value = param(filter.param);
+    if (value) filters[filter.param] = value;
+  }
+
+  const page = Number(param('page'));
+  return {
+    view,
+    q: param('q')?.slice(0, 100),
+    filters,
+    page: Number.isInteger(page) && page >= 1 ? page : 1,
+  };
+}
+
+// The query string for a query, e.g. to link to another page of the same results
+export function submissionQueryString(query: SubmissionQuery, changes: { page?: number } = {}): string {
+  const params = new URLSearchParams({ view: query.view });
+  if (query.q) params.set('q', query.q);
+  for (const [name, value] of Object.entries(query.filters)) {
+    params.set(name, value);
+  }
+  const page = changes.page ?? query.page;
+  if (page > 1) params.set('page', String(page));
+  return params.toString();
+}
+
+const SUBSCRIPTION_LABELS: Record<MailingListEntry['status'], string> = {
+  pending: 'Pending',
+  subscribed: 'Subscribed',
+  unsubscribed: 'Unsubscribed',
+};
+
+function fromRecord(view: SubmissionViewName, record: StoredRecord): Submission {
+  const fields = { ...record.fields };
+  // A blank Status counts as Received, as it does in the applicant portal
+  if (SUBMISSION_VIEWS[view].hasStatus) {
+    fields['Status'] = STATUS_LABELS[parseStatus(fields['Status'])];
+  }
+  return { id: record.id, submittedAt: record.createdAt, fields };
+}
+
+function fromContact(contact: MailingListEntry): Submission {
+  return {
+    id: contact.email,
+    submittedAt: contact.createdAt,
+    fields: {
+      'Email': contact.email,
+      'First Name': contact.fields.FirstName,
+      'Last Name': contact.fields.LastName,
+      'Signup Source': contact.fields.SignupSource,
+      'UTM Source': contact.fields.UtmSource,
+      'UTM Medium': contact.fields.UtmMedium,
+      'UTM Campaign': contact.fields.UtmCampaign,
+      'Referrer': contact.fields.Referrer,
+      'Referral Code': contact.fields.ReferralCode,
+      'Subscription': SUBSCRIPTION_LABELS[contact.status],
+    },
+  };
+}
+
+// Every submission in a view, newest first
+export async function loadSubmissions(integrations: Integrations, view: SubmissionViewName): Promise<Submission[]> {
+  const source = SUBMISSION_VIEWS[view].source;
+  const submissions =
+    source === 'mailing-list'
+      ? (await integrations.mailingList.list()).map(fromContact)
+      : (await integrations.records.list(source)).map((record) => fromRecord(view, record));
+  return submissions.reverse();
+}
+
+const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function fieldValues(value: unknown): string[] {
+  const values = Array.isArray(value) ? value.map(String) : [displayValue(value)];
+  return values.filter((item) => item.trim());
+}
+
+export function filterSubmissions(submissions: Submission[], query: SubmissionQuery): Submission[] {
+  const view: SubmissionView = SUBMISSION_VIEWS[query.view];
+  const active = view.filters.filter((filter) => query.filters[filter.param]);
+  // Every word has to appear somewhere in the submission
+  const words = query.q?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+
+  return submissions.filter((submission) => {
+    for (const filter of active) {
+      // A list field matches if any of its values does
+      if (!fieldValues(submission.fields[filter.field]).some((value) => same(value, query.filters[filter.param]))) {
+        return false;
+      }
+    }
+    if (words.length > 0) {
+      const text = view.columns
+        .map((column) => displayValue(submission.fields[column]))
+        .join('\n')
+        .toLowerCase();
+      if (!words.every((word) => text.includes(word))) return false;
+    }
+    return true;
+  });
+}
+
+// Menu choices for a filter, ignoring differences in case
+export function filterOptions(submissions: Submission[], filter: SubmissionFilter): string[] {
+  if (filter.options) return [...filter.options];
+
+  const options = new Map<string, string>();
+  for (const submission of submissions) {
+    for (const value of fieldValues(submission.fields[filter.field])) {
+      const key = value.trim().toLowerCase();
+      if (!options.has(key)) options.set(key, value.trim());
+    }
+  }
+  return [...options.values()].sort((a, b) => a.localeCompare(b));
+}
+
+export interface SubmissionPage {
+  submissions: Submission[];
+  page: number;
+  total: number;
+  totalPages: number;
+}
+
+export function paginateSubmissions(submissions: Submission[], page: number): SubmissionPage {
+  const totalPages = Math.max(1, Math.ceil(submissions.length / PAGE_SIZE));
+  const current = Math.min(page, totalPages);
+  return {
+    submissions: submissions.slice((current - 1) * PAGE_SIZE, current * PAGE_SIZE),
+    page: current,
+    total: submissions.length,
+    totalPages,
+  };
+}
+
+// Spreadsheet apps run cells starting with these as formulas, and the values
+// come straight from public forms
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function submissionsCsv(view: SubmissionViewName, submissions: Submission[]): string {
+  const columns = SUBMISSION_VIEWS[view].columns;
+  const rows = [
+    ['Submitted', ...columns],
+    ...submissions.map((submission) => [
+      submission.submittedAt ?? '',
+      ...columns.map((column) => displayValue(submission.fields[column])),
+    ]),
+  ];
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export interface SubmissionUpdate {
+  status?: ApplicationStatus;
+  notes?: string;
+}
+
+export type SubmissionUpdateResult = 'updated' | 'not-found';
+
+// Saves the team's status and notes on a record. A status change emails the
+// applicant through the same path as an Airtable edit; `Status Notified` stops
+// the Airtable automation from sending it a second time.
+export async function updateSubmission(
+  integrations: Integrations,
+  origin: string,
+  view: SubmissionViewName,
+  recordId: string,
+  update: SubmissionUpdate,
+  reviewer: string
+): Promise<SubmissionUpdateResult> {
+  const config: SubmissionView = SUBMISSION_VIEWS[view];
+  if (config.source === 'mailing-list') {
+    return 'not-found';
+  }
+
+  const record = await integrations.records.get(config.source, recordId);
+  if (!record) {
+    return 'not-found';
+  }
+
+  const fields: Record<string, unknown> = { 'Reviewed By': reviewer };
+  if (config.hasNotes && update.notes !== undefined) {
+    fields['Notes'] = update.notes.trim().slice(0, MAX_NOTES_LENGTH);
+  }
+  const status = config.hasStatus ? update.status : undefined;
+  const statusChanged = status !== undefined && status !== parseStatus(record.fields['Status']);
+  if (statusChanged) {
+    fields['Status'] = STATUS_LABELS[status];
+  }
+  await integrations.records.update(config.source, recordId, fields);
+
+  if (statusChanged && config.source === 'community') {
+    // Best-effort: the status is saved even if the email can't be sent
+    try {
+      await notifyStatusChange(integrations, origin, config.source, recordId);
+    } catch (error) {
+      logError('admin', 'Could not email the applicant about their status', error);
+    }
+  }
+  return 'updated';
+}
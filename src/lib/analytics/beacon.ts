@@ -0,0 +1,68 @@
+// Browser side of /api/collect. No cookies and no identifiers: each event
+// carries the page path, the visit's source and, for forms, the form's name.
+// The source comes from the attribution the tab keeps (../forms/client), so a
+// form filled in three pages later is still credited to the newsletter or
+// search engine that sent the visitor.
+import { DIRECT_SOURCE, normaliseSource, type AnalyticsEvent, type AnalyticsEventName } from './events';
+import { readAttribution } from '../forms/client';
+import type { FieldError } from '../forms/schema';
+
+const ENDPOINT = '/api/collect';
+
+// Automated browsers (Playwright, Selenium) set navigator.webdriver
+const enabled = typeof navigator !== 'undefined' && !navigator.webdriver;
+
+// utm_source from the landing page, else the referring site (see captureAttribution)
+function visitSource(): string {
+  const { utmSource, referrer } = readAttribution();
+  return normaliseSource(utmSource || referrer || DIRECT_SOURCE);
+}
+
+function send(name: AnalyticsEventName, details: Pick<AnalyticsEvent, 'form' | 'field'> = {}): void {
+  if (!enabled) return;
+  const event: AnalyticsEvent = { name, path: location.pathname, source: visitSource(), ...details };
+  const body = JSON.stringify(event);
+  // sendBeacon survives the page unloading; fetch is the fallback where it's missing or refuses
+  if (navigator.sendBeacon?.(ENDPOINT, body)) return;
+  fetch(ENDPOINT, { method: 'POST', body, keepalive: true }).catch(() => {});
+}
+
+export function trackPageView(): void {
+  send('pageview');
+}
+
+export interface FormTracker {
+  // Reports the endpoint's answer: submitted, rejected fields, or an upstream failure (5xx)
+  result(response: Response, data: { success?: boolean; fieldErrors?: FieldError[] }): void;
+}
+
+// Counts the form as opened once it's on screen (or its modal is shown) and as
+// started on the first input
+export function trackForm(form: HTMLFormElement, name: string): FormTracker {
+  if ('IntersectionObserver' in window) {
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        observer.disconnect();
+        send('form_opened', { form: name });
+      }
+    });
+    observer.observe(form);
+  } else {
+    send('form_opened', { form: name });
+  }
+  form.addEventListener('input', () => send('form_started', { form: name }), { once: true });
+
+  return {
+    result(response, data) {
+      if (response.ok && data.success) {
+        send('form_submitted', { form: name });
+      } else if (response.status >= 500) {
+        send('form_failed', { form: name });
+      } else {
+        for (const field of new Set((data.fieldErrors ?? []).map((error) => error.field))) {
+          send('form_field_error', { form: name, field });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,14 @@
+// Crawlers, link previewers, uptime checks and scripted clients that announce themselves
+const AUTOMATED_USER_AGENT =
+  /bot|crawl|spider|slurp|externalhit|preview|headless|lighthouse|pagespeed|pingdom|uptime|monitor|curl|wget|python|java\/|go-http|okhttp|node-fetch|undici|axios|phantom|selenium|puppeteer|playwright/i;
+
+// Beacons come from the site's own pages in a real browser, which always sends
+// a user agent and, for same-site requests, Sec-Fetch-Site: same-origin.
+// Anything else isn't counted.
+export function isBotRequest(request: Request): boolean {
+  const userAgent = request.headers.get('User-Agent') ?? '';
+  if (!userAgent || AUTOMATED_USER_AGENT.test(userAgent)) return true;
+
+  const fetchSite = request.headers.get('Sec-Fetch-Site');
+  return fetchSite !== null && fetchSite !== 'same-origin';
+}
@@ -0,0 +1,76 @@
+// What the beacon (./beacon) sends to /api/collect and how each event is
+// counted. Shared by the browser and the server, so it has no imports.
+
+export const ANALYTICS_EVENTS = [
+  'pageview',
+  // The form was on screen (for ApplyModal: the modal was opened)
+  'form_opened',
+  // First keystroke or choice in the form
+  'form_started',
+  // The endpoint rejected a field; sent once per field
+  'form_field_error',
+  'form_submitted',
+  // The endpoint answered 5xx, e.g. Airtable or Resend was down
+  'form_failed',
+] as const;
+export type AnalyticsEventName = (typeof ANALYTICS_EVENTS)[number];
+
+export interface AnalyticsEvent {
+  name: AnalyticsEventName;
+  // Page path, without the query string
+  path: string;
+  // utm_source from the landing page, else the referring site's host, else "direct"
+  source: string;
+  // Form events: the form's name, as given to FormProtection
+  form?: string;
+  // form_field_error: the field's name in the form schema
+  field?: string;
+}
+
+export const DIRECT_SOURCE = 'direct';
+
+const PATH_PATTERN = /^\/[^\s?#]{0,200}$/;
+const SOURCE_PATTERN = /^[a-z0-9][a-z0-9._-]{0,99}$/;
+const FORM_PATTERN = /^[a-z0-9-]{1,60}$/;
+const FIELD_PATTERN = /^[A-Za-z0-9_]{1,60}$/;
+
+// Lower-cased, with anything unusual replaced, so one source isn't split across spellings
+export function normaliseSource(source: string): string {
+  const cleaned = source.trim().toLowerCase().replace(/^www\./, '').replace(/[^a-z0-9._-]+/g, '-').slice(0, 100);
+  return SOURCE_PATTERN.test(cleaned) ? cleaned : DIRECT_SOURCE;
+}
+
+// Checks a beacon body. Anything malformed is dropped rather than half-counted.
+export function parseAnalyticsEvent(value: unknown): AnalyticsEvent | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { name, path, source, form, field } = value as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !(ANALYTICS_EVENTS as readonly string[]).includes(name)) return undefined;
+  if (typeof path !== 'string' || !PATH_PATTERN.test(path)) return undefined;
+  if (typeof source !== 'string') return undefined;
+
+  const event: AnalyticsEvent = { name: name as AnalyticsEventName, path, source: normaliseSource(source) };
+  if (name !== 'pageview') {
+    if (typeof form !== 'string' || !FORM_PATTERN.test(form)) return undefined;
+    event.form = form;
+  }
+  if (name === 'form_field_error') {
+    if (typeof field !== 'string' || !FIELD_PATTERN.test(field)) return undefined;
+    event.field = field;
+  }
+  return event;
+}
+
+// Each distinct event is one counter per day, named by its properties
+export function counterName(event: AnalyticsEvent): string {
+  return JSON.stringify([event.name, event.path, event.source, event.form ?? '', event.field ?? '']);
+}
+
+export function readCounterName(counter: string): AnalyticsEvent | undefined {
+  try {
+    const [name, path, source, form, field] = JSON.parse(counter) as string[];
+    return parseAnalyticsEvent({ name, path, source, form: form || undefined, field: field || undefined });
+  } catch {
+    return undefined;
+  }
+}
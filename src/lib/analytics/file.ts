@@ -0,0 +1,35 @@
+import { join } from 'node:path';
+import { readJsonLines, writeJsonLines } from '../json-files';
+import type { AnalyticsStore } from './types';
+
+interface CounterLine {
+  day: string;
+  counter: string;
+  count: number;
+}
+
+// analytics.jsonl, one line per day and counter
+export function createFileAnalyticsStore(dataDir: string): AnalyticsStore {
+  const path = join(dataDir, 'analytics.jsonl');
+
+  return {
+    async increment(day, counter) {
+      const lines = await readJsonLines<CounterLine>(path);
+      const line = lines.find((candidate) => candidate.day === day && candidate.counter === counter);
+      if (line) {
+        line.count++;
+      } else {
+        lines.push({ day, counter, count: 1 });
+      }
+      await writeJsonLines(path, lines);
+    },
+    async read(days) {
+      const result: Record<string, Record<string, number>> = {};
+      for (const line of await readJsonLines<CounterLine>(path)) {
+        if (!days.includes(line.day)) continue;
+        result[line.day] = { ...result[line.day], [line.counter]: line.count };
+      }
+      return result;
+    },
+  };
+}
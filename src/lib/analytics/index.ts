@@ -0,0 +1,25 @@
+import { selectStore } from '../stores';
+import { createFileAnalyticsStore } from './file';
+import { createMemoryAnalyticsStore } from './memory';
+import { createRedisAnalyticsStore } from './redis';
+import type { AnalyticsStore } from './types';
+
+export type * from './types';
+export * from './bots';
+export * from './events';
+export * from './pages';
+export * from './report';
+
+// Page view and form funnel counts from /api/collect.
+//   ANALYTICS_STORE   memory | file | redis (default: redis with KV_REST_API_URL,
+//                     file with INTEGRATIONS=local; see ../stores)
+
+const memoryStore = createMemoryAnalyticsStore();
+
+export function getAnalyticsStore(): AnalyticsStore {
+  return selectStore('ANALYTICS_STORE', {
+    redis: createRedisAnalyticsStore,
+    file: createFileAnalyticsStore,
+    memory: memoryStore,
+  });
+}
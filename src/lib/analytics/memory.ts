@@ -0,0 +1,19 @@
+import type { AnalyticsStore } from './types';
+
+// Not durable: counts are lost on restart. Only for tests and single-process dev.
+export function createMemoryAnalyticsStore(): AnalyticsStore {
+  const days = new Map<string, Map<string, number>>();
+
+  return {
+    async increment(day, counter) {
+      const counters = days.get(day) ?? new Map<string, number>();
+      counters.set(counter, (counters.get(counter) ?? 0) + 1);
+      days.set(day, counters);
+    },
+    async read(wanted) {
+      return Object.fromEntries(
+        wanted.filter((day) => days.has(day)).map((day) => [day, Object.fromEntries(days.get(day) ?? [])])
+      );
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { getEvents } from '../content';
+import { DEFAULT_LOCALE, LOCALES, localePath, TRANSLATED_PAGES } from '../i18n';
+
+// The pages /api/collect counts events for. Each path is a set of counters
+// per day, so a path nobody linked to (a typo, a 404, a script making them
+// up) is dropped rather than given counters of its own.
+
+// Every .astro page except the dynamic ones ([slug]), e.g. /src/pages/apply/status.astro
+const PAGE_FILES = Object.keys(import.meta.glob('/src/pages/**/*.astro'));
+
+function pageRoute(file: string): string {
+  return file.replace(/^\/src\/pages/, '').replace(/(\/index)?\.astro$/, '') || '/';
+}
+
+let knownPaths: Promise<Set<string>> | undefined;
+
+async function collectKnownPaths(): Promise<Set<string>> {
+  const pages = PAGE_FILES.filter((file) => !file.includes('[')).map(pageRoute);
+  const translations = TRANSLATED_PAGES.flatMap((path) =>
+    LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).map((locale) => localePath(path, locale))
+  );
+  const events = (await getEvents()).map((entry) => `/events/${entry.id}`);
+  return new Set([...pages, ...translations, ...events]);
+}
+
+// Built once per instance, since events only change with a deploy; tried
+// again on the next event if loading them failed
+function loadKnownPaths(): Promise<Set<string>> {
+  knownPaths ??= collectKnownPaths().catch((error) => {
+    knownPaths = undefined;
+    throw error;
+  });
+  return knownPaths;
+}
+
+// The page's path as counted ("/about/" is "/about"), or undefined if the
+// site has no such page
+export async function knownPagePath(path: string): Promise<string | undefined> {
+  const page = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  return (await loadKnownPaths()).has(page) ? page : undefined;
+}
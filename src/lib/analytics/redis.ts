@@ -0,0 +1,32 @@
+import type { RedisClient } from '../redis';
+import type { AnalyticsStore } from './types';
+
+// One hash per day of counter -> count, kept for a little over a year
+const key = (day: string) => `analytics:${day}`;
+const TTL_MS = 400 * 24 * 60 * 60 * 1000;
+
+export function createRedisAnalyticsStore(redis: RedisClient): AnalyticsStore {
+  return {
+    async increment(day, counter) {
+      await redis.pipeline([
+        ['HINCRBY', key(day), counter, 1],
+        ['PEXPIRE', key(day), TTL_MS, 'NX'],
+      ]);
+    },
+    async read(days) {
+      if (days.length === 0) return {};
+      const results = await redis.pipeline(days.map((day) => ['HGETALL', key(day)]));
+      const result: Record<string, Record<string, number>> = {};
+      days.forEach((day, index) => {
+        // Upstash returns a hash as a flat [field, value, field, value, ...] list
+        const values = Array.isArray(results[index]) ? (results[index] as string[]) : [];
+        if (values.length === 0) return;
+        result[day] = {};
+        for (let i = 0; i < values.length; i += 2) {
+          result[day][values[i]] = Number(values[i + 1]);
+        }
+      });
+      return result;
+    },
+  };
+}
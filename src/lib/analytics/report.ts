@@ -0,0 +1,140 @@
+import { readCounterName, type AnalyticsEventName } from './events';
+import type { AnalyticsStore } from './types';
+
+// Totals for /admin/analytics, added up from the daily counters
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Choices offered by the report page, in days
+export const REPORT_PERIODS = [7, 30, 90] as const;
+export type ReportPeriod = (typeof REPORT_PERIODS)[number];
+
+export interface FunnelCounts {
+  opened: number;
+  started: number;
+  fieldErrors: number;
+  submitted: number;
+  failed: number;
+}
+
+export interface FormFunnel extends FunnelCounts {
+  form: string;
+  // Set on the per-source breakdown
+  source?: string;
+}
+
+export interface Ranked {
+  name: string;
+  count: number;
+}
+
+export interface AnalyticsReport {
+  // First and last day covered, YYYY-MM-DD
+  from: string;
+  to: string;
+  pageviews: number;
+  // Most viewed first
+  pages: Ranked[];
+  sources: Ranked[];
+  // Most opened first
+  forms: FormFunnel[];
+  formsBySource: FormFunnel[];
+  // Per form, most frequent first
+  fieldErrors: Record<string, Ranked[]>;
+}
+
+const FUNNEL_STEPS: Record<Exclude<AnalyticsEventName, 'pageview'>, keyof FunnelCounts> = {
+  form_opened: 'opened',
+  form_started: 'started',
+  form_field_error: 'fieldErrors',
+  form_submitted: 'submitted',
+  form_failed: 'failed',
+};
+
+export function parsePeriod(value: string | null): ReportPeriod {
+  const days = Number(value);
+  return (REPORT_PERIODS as readonly number[]).includes(days) ? (days as ReportPeriod) : 30;
+}
+
+// The last `days` days including today (UTC), oldest first
+export function reportDays(days: number, now = new Date()): string[] {
+  return Array.from({ length: days }, (_, index) =>
+    new Date(now.getTime() - (days - 1 - index) * DAY_MS).toISOString().slice(0, 10)
+  );
+}
+
+// Share of forms seen that were submitted; undefined when none were seen
+export function conversionRate(funnel: FunnelCounts): number | undefined {
+  return funnel.opened > 0 ? funnel.submitted / funnel.opened : undefined;
+}
+
+function add(totals: Map<string, number>, name: string, count: number): void {
+  totals.set(name, (totals.get(name) ?? 0) + count);
+}
+
+function ranked(totals: Map<string, number>): Ranked[] {
+  return Array.from(totals, ([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count);
+}
+
+function funnel(funnels: Map<string, FormFunnel>, key: string, form: string, source?: string): FormFunnel {
+  let entry = funnels.get(key);
+  if (!entry) {
+    entry = { form, ...(source && { source }), opened: 0, started: 0, fieldErrors: 0, submitted: 0, failed: 0 };
+    funnels.set(key, entry);
+  }
+  return entry;
+}
+
+export async function buildAnalyticsReport(
+  store: AnalyticsStore,
+  days: number,
+  now = new Date()
+): Promise<AnalyticsReport> {
+  const range = reportDays(days, now);
+  const counters = await store.read(range);
+
+  let pageviews = 0;
+  const pages = new Map<string, number>();
+  const sources = new Map<string, number>();
+  const forms = new Map<string, FormFunnel>();
+  const formsBySource = new Map<string, FormFunnel>();
+  const fieldErrors = new Map<string, Map<string, number>>();
+
+  for (const day of Object.values(counters)) {
+    for (const [counter, count] of Object.entries(day)) {
+      const event = readCounterName(counter);
+      if (!event) continue;
+
+      if (event.name === 'pageview') {
+        pageviews += count;
+        add(pages, event.path, count);
+        add(sources, event.source, count);
+        continue;
+      }
+
+      const form = event.form ?? '';
+      const step = FUNNEL_STEPS[event.name];
+      funnel(forms, form, form)[step] += count;
+      funnel(formsBySource, `${form} ${event.source}`, form, event.source)[step] += count;
+      if (event.field) {
+        const fields = fieldErrors.get(form) ?? new Map<string, number>();
+        add(fields, event.field, count);
+        fieldErrors.set(form, fields);
+      }
+    }
+  }
+
+  const byOpened = (a: FormFunnel, b: FormFunnel) => b.opened - a.opened || a.form.localeCompare(b.form);
+  return {
+    from: range[0],
+    to: range[range.length - 1],
+    pageviews,
+    pages: ranked(pages),
+    sources: ranked(sources),
+    forms: Array.from(forms.values()).sort(byOpened),
+    formsBySource: Array.from(formsBySource.values()).sort(
+      (a, b) => a.form.localeCompare(b.form) || b.opened - a.opened
+    ),
+    fieldErrors: Object.fromEntries(Array.from(fieldErrors, ([form, fields]) => [form, ranked(fields)])),
+  };
+}
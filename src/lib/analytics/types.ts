@@ -0,0 +1,8 @@
+// Daily counters behind /admin/analytics. Counter names are opaque to the
+// store; ./events decides what goes in them. Nothing about the visitor is kept.
+export interface AnalyticsStore {
+  // Adds one to the counter for the day (YYYY-MM-DD, UTC)
+  increment(day: string, counter: string): Promise<void>;
+  // Counters for the given days, by day then counter; days without any are left out
+  read(days: string[]): Promise<Record<string, Record<string, number>>>;
+}
@@ -0,0 +1,64 @@
+import type { AstroCookies } from 'astro';
+import { applicantSignIn, renderEmail } from './emails';
+import type { EmailSender } from './integrations';
+import { getRateLimitStore } from './rate-limit';
+import { createSignedToken, verifySignedToken } from './signed-links';
+
+// Passwordless sign-in for the applicant portal. Applicants request a magic
+// link by email; following it starts a session held in a signed cookie.
+
+const LOGIN_PURPOSE = 'applicant-login';
+const SESSION_PURPOSE = 'applicant-session';
+const LOGIN_TTL_MS = 30 * 60 * 1000;
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const SESSION_COOKIE = 'applicant_session';
+
+interface LoginToken {
+  email: string;
+  nonce: string;
+}
+
+export function loginUrl(origin: string, email: string): string {
+  const token = createSignedToken<LoginToken>(LOGIN_PURPOSE, { email, nonce: crypto.randomUUID() }, LOGIN_TTL_MS);
+  return `${origin}/apply/login?token=${encodeURIComponent(token)}`;
+}
+
+// Returns the email a login link was sent to. Each link works once.
+export async function consumeLoginToken(token: string | null | undefined): Promise<string | undefined> {
+  const login = verifySignedToken<LoginToken>(LOGIN_PURPOSE, token);
+  if (!login) return undefined;
+
+  const store = getRateLimitStore();
+  try {
+    const uses = await store.increment(`applicant-login:${login.nonce}`, LOGIN_TTL_MS);
+    return uses === 1 ? login.email : undefined;
+  } catch (error) {
+    // Fail open, like form tokens: the link has already proved the email address
+    console.error('Login token store error:', error);
+    return login.email;
+  }
+}
+
+export async function sendLoginLink(sender: EmailSender, origin: string, email: string): Promise<void> {
+  await sender.send({ to: email, ...renderEmail(applicantSignIn, { signInUrl: loginUrl(origin, email) }) });
+}
+
+export function startSession(cookies: AstroCookies, url: URL, email: string): void {
+  cookies.set(SESSION_COOKIE, createSignedToken(SESSION_PURPOSE, { email }, SESSION_TTL_MS), {
+    httpOnly: true,
+    secure: url.protocol === 'https:',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+// The signed-in applicant's email, if any
+export function readSession(cookies: AstroCookies): string | undefined {
+  return verifySignedToken<{ email: string }>(SESSION_PURPOSE, cookies.get(SESSION_COOKIE)?.value)?.email;
+}
+
+export function endSession(cookies: AstroCookies): void {
+  cookies.delete(SESSION_COOKIE, { path: '/' });
+}
@@ -0,0 +1,119 @@
+import { applicationStatusChanged, renderEmail } from './emails';
+import { ConfigurationError } from './errors';
+import type { Integrations, RecordStore, RecordTable, StoredRecord } from './integrations';
+
+// Application statuses, read back from the record store for the applicant
+// portal (/apply/status). The team sets `Status` in Airtable; `Status Notified`
+// records the last status the applicant was emailed about.
+
+export const APPLICATION_STATUSES = ['received', 'under_review', 'interview', 'accepted', 'declined'] as const;
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+export const STATUS_LABELS: Record<ApplicationStatus, string> = {
+  received: 'Received',
+  under_review: 'Under review',
+  interview: 'Interview',
+  accepted: 'Accepted',
+  declined: 'Declined',
+};
+
+// Tables applicants can sign in to see, with how each application is described
+export const APPLICATION_TABLES = {
+  community: 'community application',
+  accelerator: 'accelerator application',
+} as const satisfies Partial<Record<RecordTable, string>>;
+
+export type ApplicationTable = keyof typeof APPLICATION_TABLES;
+
+export function isApplicationTable(value: unknown): value is ApplicationTable {
+  return typeof value === 'string' && value in APPLICATION_TABLES;
+}
+
+export interface Application {
+  table: ApplicationTable;
+  id: string;
+  name: string;
+  // Company name for accelerator applications
+  company?: string;
+  submittedAt: string;
+  status: ApplicationStatus;
+}
+
+// 'Under Review' -> 'under_review'; a blank or unknown Status counts as received
+export function parseStatus(value: unknown): ApplicationStatus {
+  const key = String(value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return (APPLICATION_STATUSES as readonly string[]).includes(key) ? (key as ApplicationStatus) : 'received';
+}
+
+function toApplication(table: ApplicationTable, record: StoredRecord): Application {
+  const company = record.fields['Company Name'];
+  return {
+    table,
+    id: record.id,
+    name: String(record.fields['Full Name'] ?? ''),
+    company: typeof company === 'string' ? company : undefined,
+    submittedAt: record.createdAt,
+    status: parseStatus(record.fields['Status']),
+  };
+}
+
+// Every application submitted with this email, newest first
+export async function findApplications(records: RecordStore, email: string): Promise<Application[]> {
+  const tables = Object.keys(APPLICATION_TABLES) as ApplicationTable[];
+  const results = await Promise.all(
+    tables.map(async (table) => (await records.findByEmail(table, email)).map((record) => toApplication(table, record)))
+  );
+  return results.flat().sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+}
+
+// e.g. "your accelerator application for Acme"
+const describe = (application: Application) =>
+  application.company
+    ? `your ${APPLICATION_TABLES[application.table]} for ${application.company}`
+    : `your ${APPLICATION_TABLES[application.table]}`;
+
+export type StatusNotification = 'sent' | 'unchanged' | 'no-email' | 'not-found';
+
+// Emails the applicant if the record's Status has changed since they were last
+// told, then records the status as notified. Called when the team changes a
+// status (see /api/internal/application-status).
+export async function notifyStatusChange(
+  integrations: Integrations,
+  origin: string,
+  table: ApplicationTable,
+  recordId: string
+): Promise<StatusNotification> {
+  const record = await integrations.records.get(table, recordId);
+  if (!record) {
+    return 'not-found';
+  }
+
+  const application = toApplication(table, record);
+  const notified = record.fields['Status Notified'];
+  if (notified && parseStatus(notified) === application.status) {
+    return 'unchanged';
+  }
+
+  const to = String(record.fields['Email'] ?? '');
+  // Received needs no email: the confirmation sent on submission covers it
+  const status = application.status;
+  const shouldEmail = status !== 'received' && to.length > 0;
+  if (shouldEmail) {
+    if (!integrations.email) {
+      throw new ConfigurationError(['RESEND_API_KEY', 'FROM_EMAIL']);
+    }
+
+    await integrations.email.send({
+      to,
+      ...renderEmail(applicationStatusChanged, {
+        name: application.name,
+        status,
+        application: describe(application),
+        statusUrl: `${origin}/apply/status`,
+      }),
+    });
+  }
+
+  await integrations.records.update(table, recordId, { 'Status Notified': STATUS_LABELS[application.status] });
+  return shouldEmail ? 'sent' : 'no-email';
+}
@@ -0,0 +1,94 @@
+// Where a signup came from: the UTM parameters and ?ref= code on the page the
+// visitor landed on, and the site that linked to it. Captured in the browser
+// (see captureAttribution in ./forms/client) and sent with each form as
+// `attribution`. Shared by the browser and the server, so it has no imports.
+
+export interface Attribution {
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  utmTerm?: string;
+  utmContent?: string;
+  // Host of the linking site, e.g. "sifted.eu"; never the full URL
+  referrer?: string;
+  // Ambassador referral code, upper-cased (see src/lib/referrals)
+  ref?: string;
+  // Path of the first page of the visit, without the query string
+  landingPage?: string;
+}
+
+// Query parameter on the landing page -> attribution property
+export const ATTRIBUTION_PARAMS = {
+  utm_source: 'utmSource',
+  utm_medium: 'utmMedium',
+  utm_campaign: 'utmCampaign',
+  utm_term: 'utmTerm',
+  utm_content: 'utmContent',
+  ref: 'ref',
+} as const satisfies Record<string, keyof Attribution>;
+
+const TEXT_MAX_LENGTH = 100;
+const REFERRAL_CODE_PATTERN = /^[A-Z0-9_-]{2,32}$/;
+const HOST_PATTERN = /^[a-z0-9.-]{1,253}$/;
+const PATH_PATTERN = /^\/[^\s?#]{0,200}$/;
+
+// Upper-cased, so "sam-ttb" and "SAM-TTB" are one code; undefined if it isn't a valid code
+export function normaliseReferralCode(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const code = value.trim().toUpperCase();
+  return REFERRAL_CODE_PATTERN.test(code) ? code : undefined;
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  // Control characters and markup have no business in a campaign name
+  const cleaned = value.replace(/[\u0000-\u001f\u007f<>]/g, '').trim().slice(0, TEXT_MAX_LENGTH);
+  return cleaned || undefined;
+}
+
+// Checks what a form sent. Anything malformed is left out rather than failing
+// the submission: attribution is nice to have, the signup is what matters.
+export function parseAttribution(value: unknown): Attribution {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const input = value as Record<string, unknown>;
+  const attribution: Attribution = {};
+
+  for (const key of ['utmSource', 'utmMedium', 'utmCampaign', 'utmTerm', 'utmContent'] as const) {
+    const cleaned = text(input[key]);
+    if (cleaned) attribution[key] = cleaned;
+  }
+  const referrer = typeof input.referrer === 'string' ? input.referrer.trim().toLowerCase() : '';
+  if (HOST_PATTERN.test(referrer)) attribution.referrer = referrer;
+  const ref = normaliseReferralCode(input.ref);
+  if (ref) attribution.ref = ref;
+  if (typeof input.landingPage === 'string' && PATH_PATTERN.test(input.landingPage)) {
+    attribution.landingPage = input.landingPage;
+  }
+  return attribution;
+}
+
+// Record store columns (Airtable field names); only the ones that are known,
+// so a later direct visit doesn't blank out the campaign that brought someone in
+export function attributionFields(attribution: Attribution): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (attribution.utmSource) fields['UTM Source'] = attribution.utmSource;
+  if (attribution.utmMedium) fields['UTM Medium'] = attribution.utmMedium;
+  if (attribution.utmCampaign) fields['UTM Campaign'] = attribution.utmCampaign;
+  if (attribution.utmTerm) fields['UTM Term'] = attribution.utmTerm;
+  if (attribution.utmContent) fields['UTM Content'] = attribution.utmContent;
+  if (attribution.referrer) fields['Referrer'] = attribution.referrer;
+  if (attribution.ref) fields['Referral Code'] = attribution.ref;
+  if (attribution.landingPage) fields['Landing Page'] = attribution.landingPage;
+  return fields;
+}
+
+// Mailing list custom fields (EmailOctopus field tags), named like SignupSource
+export function mailingListAttributionFields(attribution: Attribution): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (attribution.utmSource) fields.UtmSource = attribution.utmSource;
+  if (attribution.utmMedium) fields.UtmMedium = attribution.utmMedium;
+  if (attribution.utmCampaign) fields.UtmCampaign = attribution.utmCampaign;
+  if (attribution.referrer) fields.Referrer = attribution.referrer;
+  if (attribution.ref) fields.ReferralCode = attribution.ref;
+  return fields;
+}
@@ -0,0 +1,18 @@
+import { join } from 'node:path';
+import { appendJsonLine, readJsonLines } from '../json-files';
+import type { AuditEntry, AuditLog } from './types';
+
+// audit-log.jsonl, one line per entry
+export function createFileAuditLog(dataDir: string): AuditLog {
+  const path = join(dataDir, 'audit-log.jsonl');
+
+  return {
+    async append(entry) {
+      await appendJsonLine(path, entry);
+    },
+    async recent(limit) {
+      const entries = await readJsonLines<AuditEntry>(path);
+      return entries.slice(-limit);
+    },
+  };
+}
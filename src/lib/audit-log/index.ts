@@ -0,0 +1,26 @@
+import { createHash } from 'node:crypto';
+import { selectStore } from '../stores';
+import { createFileAuditLog } from './file';
+import { createMemoryAuditLog } from './memory';
+import { createRedisAuditLog } from './redis';
+import type { AuditLog } from './types';
+
+export type * from './types';
+
+// Record of data-subject requests and retention purges.
+//   AUDIT_LOG_STORE   memory | file | redis (default: redis with KV_REST_API_URL,
+//                     file with INTEGRATIONS=local; see ../stores)
+
+const memoryLog = createMemoryAuditLog();
+
+export function getAuditLog(): AuditLog {
+  return selectStore('AUDIT_LOG_STORE', {
+    redis: createRedisAuditLog,
+    file: createFileAuditLog,
+    memory: memoryLog,
+  });
+}
+
+export function auditSubject(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
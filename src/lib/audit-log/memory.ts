@@ -0,0 +1,15 @@
+import type { AuditEntry, AuditLog } from './types';
+
+// Not durable: the log is lost on restart. Only for tests and single-process dev.
+export function createMemoryAuditLog(): AuditLog {
+  const entries: AuditEntry[] = [];
+
+  return {
+    async append(entry) {
+      entries.push(entry);
+    },
+    async recent(limit) {
+      return entries.slice(-limit);
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import type { RedisClient } from '../redis';
+import type { AuditEntry, AuditLog } from './types';
+
+// A single list, appended to and never trimmed
+const KEY = 'audit-log';
+
+export function createRedisAuditLog(redis: RedisClient): AuditLog {
+  return {
+    async append(entry) {
+      await redis.pipeline([['RPUSH', KEY, JSON.stringify(entry)]]);
+    },
+    async recent(limit) {
+      const [values] = await redis.pipeline([['LRANGE', KEY, -limit, -1]]);
+      return (values as string[]).map((value) => JSON.parse(value) as AuditEntry);
+    },
+  };
+}
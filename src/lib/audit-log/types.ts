@@ -0,0 +1,19 @@
+// What was done with personal data and when: data-subject requests and
+// retention purges. Entries identify people by a hash of their address, so the
+// log itself doesn't keep the data it records deleting.
+export type AuditAction = 'requested' | 'exported' | 'erased' | 'purged';
+
+export interface AuditEntry {
+  at: string;
+  action: AuditAction;
+  // sha256 of the lower-cased email address, or "retention" for purges
+  subject: string;
+  // What was found, sent or deleted, e.g. { community: 1, mailingList: 1 }
+  details: Record<string, string | number>;
+}
+
+export interface AuditLog {
+  append(entry: AuditEntry): Promise<void>;
+  // The most recent entries, oldest first
+  recent(limit: number): Promise<AuditEntry[]>;
+}
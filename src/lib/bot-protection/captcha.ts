@@ -0,0 +1,75 @@
+import { ConfigurationError } from '../errors';
+import { readEnv } from '../env';
+
+// Optional CAPTCHA verification.
+//   CAPTCHA_PROVIDER   none (default) | turnstile | hcaptcha | stub
+//   TURNSTILE_SITE_KEY / TURNSTILE_SECRET_KEY
+//   HCAPTCHA_SITE_KEY / HCAPTCHA_SECRET_KEY
+// The stub accepts every token except "fail", for offline development.
+
+export type CaptchaProvider = 'turnstile' | 'hcaptcha' | 'stub';
+
+export interface CaptchaVerifier {
+  provider: CaptchaProvider;
+  // Public key rendered into the widget
+  siteKey: string;
+  verify(token: string | undefined, remoteIp: string): Promise<boolean>;
+}
+
+const VERIFY_URLS: Record<'turnstile' | 'hcaptcha', string> = {
+  turnstile: 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+  hcaptcha: 'https://api.hcaptcha.com/siteverify',
+};
+
+function createSiteVerifyCaptcha(provider: 'turnstile' | 'hcaptcha', siteKey: string, secret: string): CaptchaVerifier {
+  return {
+    provider,
+    siteKey,
+    async verify(token, remoteIp) {
+      if (!token) return false;
+
+      const body = new URLSearchParams({ secret, response: token });
+      if (remoteIp !== 'unknown') {
+        body.set('remoteip', remoteIp);
+      }
+
+      try {
+        const response = await fetch(VERIFY_URLS[provider], { method: 'POST', body });
+        const data = (await response.json()) as { success?: boolean };
+        return data.success === true;
+      } catch (error) {
+        console.error(`${provider} verification error:`, error);
+        return false;
+      }
+    },
+  };
+}
+
+export function getCaptchaVerifier(): CaptchaVerifier | undefined {
+  const provider = readEnv('CAPTCHA_PROVIDER') ?? 'none';
+
+  switch (provider) {
+    case 'none':
+      return undefined;
+    case 'stub':
+      return {
+        provider: 'stub',
+        siteKey: 'stub',
+        async verify(token) {
+          return token !== undefined && token !== 'fail';
+        },
+      };
+    case 'turnstile':
+    case 'hcaptcha': {
+      const prefix = provider.toUpperCase();
+      const siteKey = readEnv(`${prefix}_SITE_KEY`);
+      const secret = readEnv(`${prefix}_SECRET_KEY`);
+      if (!siteKey || !secret) {
+        throw new ConfigurationError([`${prefix}_SITE_KEY`, `${prefix}_SECRET_KEY`]);
+      }
+      return createSiteVerifyCaptcha(provider, siteKey, secret);
+    }
+    default:
+      throw new ConfigurationError([`CAPTCHA_PROVIDER (unknown provider "${provider}")`]);
+  }
+}
@@ -0,0 +1,94 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { readEnv } from '../env';
+import { getRateLimitStore } from '../rate-limit';
+
+// Signed, time-stamped form tokens: `<form>.<issuedAt>.<nonce>.<hmac>`.
+// Rendered into each form server-side and checked by the submission pipeline,
+// so a submission must come from a page we served, not too quickly after it
+// loaded, not too long ago, and only once.
+//
+// FORM_TOKEN_SECRET signs the tokens; without it tokens are not issued or checked.
+
+// Humans don't fill in a form in under two seconds
+const MIN_FILL_MS = 2 * 1000;
+const MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+export type FormTokenCheck = 'valid' | 'missing' | 'invalid' | 'expired' | 'too-fast' | 'replayed';
+
+let warnedMissingSecret = false;
+
+function getSecret(): string | undefined {
+  const secret = readEnv('FORM_TOKEN_SECRET');
+  if (!secret && !warnedMissingSecret) {
+    warnedMissingSecret = true;
+    console.warn('FORM_TOKEN_SECRET is not set; form tokens are disabled');
+  }
+  return secret;
+}
+
+export function formTokensEnabled(): boolean {
+  return getSecret() !== undefined;
+}
+
+function sign(secret: string, payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+export function issueFormToken(form: string): string {
+  const secret = getSecret();
+  if (!secret) {
+    return '';
+  }
+  const payload = `${form}.${Date.now()}.${randomUUID()}`;
+  return `${payload}.${sign(secret, payload)}`;
+}
+
+interface ParsedToken {
+  nonce: string;
+  issuedAt: number;
+}
+
+// Checks signature, form and age without consuming the token
+export function inspectFormToken(form: string, token: unknown, now = Date.now()): FormTokenCheck | ParsedToken {
+  const secret = getSecret();
+  if (!secret) {
+    return 'valid';
+  }
+  if (typeof token !== 'string' || token.length === 0) {
+    return 'missing';
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 4) {
+    return 'invalid';
+  }
+  const [tokenForm, issuedAtRaw, nonce, signature] = parts;
+  const expected = Buffer.from(sign(secret, `${tokenForm}.${issuedAtRaw}.${nonce}`));
+  const provided = Buffer.from(signature);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected) || tokenForm !== form) {
+    return 'invalid';
+  }
+
+  const issuedAt = Number(issuedAtRaw);
+  if (!Number.isFinite(issuedAt) || now - issuedAt > MAX_AGE_MS) {
+    return 'expired';
+  }
+  if (now - issuedAt < MIN_FILL_MS) {
+    return 'too-fast';
+  }
+  return { nonce, issuedAt };
+}
+
+// Marks the token's nonce as used. Returns false if it had been used before.
+// Throws a ConfigurationError when there's no shared store to record it in.
+export async function consumeFormToken(form: string, token: ParsedToken): Promise<boolean> {
+  const store = getRateLimitStore();
+  try {
+    const uses = await store.increment(`formtoken:${form}:${token.nonce}`, MAX_AGE_MS);
+    return uses === 1;
+  } catch (error) {
+    // Fail open, like the rate limiter: a store outage shouldn't block real people
+    console.error('Form token store error:', error);
+    return true;
+  }
+}
@@ -0,0 +1,107 @@
+import { eventTiming, formatLocation, type EventEntry } from './content';
+
+// iCalendar (RFC 5545) export for events: the subscribable /events.ics feed and
+// the per-event "add to calendar" download. Times are written in UTC so the
+// files don't need VTIMEZONE blocks; all-day events use plain dates.
+
+// UIDs must stay the same across deploys and preview URLs so calendar apps
+// update an event instead of duplicating it
+const UID_DOMAIN = 'thetechbros.io';
+
+export interface CalendarOptions {
+  // Site origin, for links back to each event page
+  origin: string;
+  name?: string;
+  now?: Date;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with
+// a space, without splitting a multi-byte character
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (size + bytes > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      size = 0;
+    }
+    chunk += char;
+    size += bytes;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+// 20251117T180000Z
+function formatInstant(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// 20251117
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+export function eventUrl(origin: string, slug: string): string {
+  return `${origin}/events/${slug}`;
+}
+
+function eventLines(entry: EventEntry, origin: string, now: Date): string[] {
+  const event = entry.data;
+  const { start, end, allDay } = eventTiming(event);
+  const url = eventUrl(origin, entry.id);
+  const location = event.venue ? `${event.venue}, ${formatLocation(event)}` : formatLocation(event);
+  const description = [...event.content, event.registrationUrl ? `Register: ${event.registrationUrl}` : url].join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${entry.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatInstant(now)}`,
+    allDay ? `DTSTART;VALUE=DATE:${formatDay(start)}` : `DTSTART:${formatInstant(start)}`,
+    allDay ? `DTEND;VALUE=DATE:${formatDay(end)}` : `DTEND:${formatInstant(end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(location)}`,
+    `CATEGORIES:${escapeText(event.type)}`,
+    `URL:${url}`,
+    'END:VEVENT',
+  ];
+}
+
+export function buildCalendar(events: EventEntry[], options: CalendarOptions): string {
+  const { origin, name = 'The Tech Bros events', now = new Date() } = options;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//The Tech Bros//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // How often subscribed calendars should check for changes
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+    ...events.flatMap((entry) => eventLines(entry, origin, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+export function calendarResponse(body: string, filename?: string): Response {
+  const headers: Record<string, string> = {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Cache-Control': 'public, max-age=3600',
+  };
+  if (filename) {
+    headers['Content-Disposition'] = `attachment; filename="${filename}"`;
+  }
+  return new Response(body, { headers });
+}
@@ -0,0 +1,150 @@
+import { emailKey } from './dedupe';
+import { ConfigurationError, UpstreamError } from './errors';
+import type { Integrations, MailingListContact, MailingListEntry, StoredRecord } from './integrations';
+import { requestSubscription } from './newsletter';
+
+// Community applicants who tick "Add to Mailing List" go through the
+// newsletter's double opt-in, tagged with SignupSource `community_apply`.
+// The reconciliation run (/api/internal/newsletter-reconcile) backfills
+// applicants who never made it onto the list and reports the rest that disagree.
+
+export const COMMUNITY_SIGNUP_SOURCE = 'community_apply';
+
+// Confirmation emails are sent one at a time with a pause, to stay under the
+// email provider's rate limit (Resend allows 2 requests a second by default)
+const BACKFILL_PAUSE_MS = 500;
+
+// No new backfill is started after this long, so a run fits in a serverless
+// function's time limit. Whoever is left is picked up by the next run.
+const RUN_BUDGET_MS = 45 * 1000;
+
+export function communityContact(fullName: string, email: string): MailingListContact {
+  const [firstName, ...rest] = fullName.trim().split(/\s+/);
+  return {
+    email: email.trim(),
+    fields: {
+      FirstName: firstName ?? '',
+      LastName: rest.join(' '),
+      SignupSource: COMMUNITY_SIGNUP_SOURCE,
+    },
+  };
+}
+
+export type MismatchReason =
+  // Ticked the box but has since unsubscribed; left alone
+  | 'unsubscribed'
+  // On the list from a community application, but no application has the box ticked
+  | 'not_opted_in';
+
+export interface Mismatch {
+  email: string;
+  reason: MismatchReason;
+}
+
+export interface ReconcileSummary {
+  optedIn: number;
+  subscribed: number;
+  // Sent a confirmation email that hasn't been clicked yet
+  pending: number;
+  // Added to the list as pending by this run
+  backfilled: number;
+  failed: number;
+  // Opted-in applicants still missing from the list
+  remaining: number;
+  mismatches: Mismatch[];
+}
+
+// One entry per person, going by their most recent application
+function optedInApplicants(records: StoredRecord[]): Map<string, StoredRecord> {
+  const latest = new Map<string, StoredRecord>();
+  for (const record of records) {
+    const key = emailKey(String(record.fields['Email'] ?? ''));
+    const previous = latest.get(key);
+    if (key && (!previous || record.createdAt >= previous.createdAt)) {
+      latest.set(key, record);
+    }
+  }
+  for (const [key, record] of latest) {
+    if (record.fields['Add to Mailing List'] !== true) latest.delete(key);
+  }
+  return latest;
+}
+
+const pause = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function reconcileCommunitySubscriptions(
+  integrations: Integrations,
+  origin: string,
+  options: { dryRun?: boolean } = {}
+): Promise<ReconcileSummary> {
+  const [records, entries] = await Promise.all([
+    integrations.records.list('community'),
+    integrations.mailingList.list(),
+  ]);
+  const applicants = optedInApplicants(records);
+  const listed = new Map<string, MailingListEntry>(entries.map((entry) => [emailKey(entry.email), entry]));
+
+  const summary: ReconcileSummary = {
+    optedIn: applicants.size,
+    subscribed: 0,
+    pending: 0,
+    backfilled: 0,
+    failed: 0,
+    remaining: 0,
+    mismatches: [],
+  };
+
+  const missing: StoredRecord[] = [];
+  for (const [key, record] of applicants) {
+    const entry = listed.get(key);
+    if (!entry) {
+      missing.push(record);
+    } else if (entry.status === 'unsubscribed') {
+      summary.mismatches.push({ email: entry.email, reason: 'unsubscribed' });
+    } else {
+      summary[entry.status]++;
+    }
+  }
+  for (const [key, entry] of listed) {
+    if (entry.fields.SignupSource === COMMUNITY_SIGNUP_SOURCE && !applicants.has(key)) {
+      summary.mismatches.push({ email: entry.email, reason: 'not_opted_in' });
+    }
+  }
+
+  summary.remaining = missing.length;
+  if (options.dryRun || missing.length === 0) {
+    return summary;
+  }
+  if (!integrations.email) {
+    throw new ConfigurationError(['RESEND_API_KEY', 'FROM_EMAIL']);
+  }
+
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  for (const [index, record] of missing.entries()) {
+    if (index > 0) {
+      if (Date.now() + BACKFILL_PAUSE_MS > deadline) break;
+      await pause(BACKFILL_PAUSE_MS);
+    }
+
+    const contact = communityContact(String(record.fields['Full Name'] ?? ''), String(record.fields['Email']));
+    try {
+      await requestSubscription(integrations, origin, contact);
+      summary.backfilled++;
+      summary.pending++;
+      summary.remaining--;
+    } catch (error) {
+      // Still missing from the list, so the next run tries them again
+      summary.failed++;
+      if (error instanceof UpstreamError) {
+        console.error(`[newsletter-reconcile] ${error.service} API error for ${contact.email}:`, {
+          status: error.status,
+          body: error.body,
+        });
+      } else {
+        console.error(`[newsletter-reconcile] Could not subscribe ${contact.email}:`, error);
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,226 @@
+import { readEnv } from './env';
+import { selectedAdapter, type AdapterSetting } from './integrations';
+import { WEBHOOK_ENV } from './integrations/slack';
+import { storeBackend } from './stores';
+
+// Every environment variable the site reads, checked in one place. Modules
+// still read their own variables when they need them (see ./env); this is the
+// typed overview that's logged when the server starts (src/middleware.ts) and
+// served by /api/health. Messages name variables but never include secrets.
+
+export type IntegrationName = 'records' | 'mailingList' | 'email' | 'chat' | 'kv' | 'payments' | 'captcha';
+
+export interface IntegrationConfig {
+  // The adapter in use, e.g. "airtable" or "file"; "none" when switched off
+  adapter: string;
+  // Whether it will work as configured
+  enabled: boolean;
+  // Required variables that aren't set ("A or B" when either will do)
+  missing: string[];
+  // Unset variables that switch off part of it, e.g. one Airtable table
+  missingOptional: string[];
+}
+
+// Features switched on by setting a secret or list
+export type FeatureName = 'signedLinks' | 'formTokens' | 'cron' | 'admin' | 'alerts';
+
+export interface SiteConfig {
+  local: boolean;
+  integrations: Record<IntegrationName, IntegrationConfig>;
+  features: Record<FeatureName, boolean>;
+  // The backend each store uses (see ./stores); "none" when a live deployment
+  // without KV leaves it nothing durable, so it refuses to work
+  stores: Record<string, string>;
+  // Variables that are set but can't be used, e.g. "OUTBOX_STORE (unknown store "s3")"
+  invalid: string[];
+}
+
+const ADAPTERS: Record<AdapterSetting, string[]> = {
+  RECORD_STORE: ['airtable', 'file', 'memory'],
+  MAILING_LIST: ['emailoctopus', 'file', 'memory'],
+  EMAIL_SENDER: ['resend', 'mailbox', 'console', 'memory'],
+  CHAT_NOTIFIER: ['slack', 'console', 'memory'],
+};
+
+// Variables each live adapter needs; an inner list means any one of them will do
+const REQUIREMENTS: Record<string, string[][]> = {
+  airtable: [['AIRTABLE_PAT'], ['AIRTABLE_BASE_ID'], ['AIRTABLE_TABLE_ID', 'AIRTABLE_TABLE_NAME']],
+  emailoctopus: [['EMAILOCTOPUS_API_KEY'], ['EMAILOCTOPUS_LIST_ID']],
+  resend: [['RESEND_API_KEY'], ['FROM_EMAIL']],
+  slack: [['SLACK_WEBHOOK_URL']],
+  redis: [['KV_REST_API_URL'], ['KV_REST_API_TOKEN']],
+  stripe: [['STRIPE_SECRET_KEY'], ['STRIPE_WEBHOOK_SECRET']],
+  turnstile: [['TURNSTILE_SITE_KEY'], ['TURNSTILE_SECRET_KEY']],
+  hcaptcha: [['HCAPTCHA_SITE_KEY'], ['HCAPTCHA_SECRET_KEY']],
+};
+
+// Each table other than community backs its own feature
+const OPTIONAL: Record<string, string[]> = {
+  airtable: ['AIRTABLE_MERCH_TABLE_ID', 'AIRTABLE_ACCELERATOR_TABLE_ID', 'AIRTABLE_ORDERS_TABLE_ID', 'AIRTABLE_PARTNERS_TABLE_ID'],
+};
+
+// Stores that pick redis, file or memory on their own, and what each accepts
+const STORES: Record<string, string[]> = {
+  OUTBOX_STORE: ['redis', 'file', 'memory'],
+  DRAFT_STORE: ['redis', 'file', 'memory'],
+  SENT_LOG_STORE: ['redis', 'file', 'memory'],
+  INVENTORY_STORE: ['redis', 'file', 'memory'],
+  AUDIT_LOG_STORE: ['redis', 'file', 'memory'],
+  ANALYTICS_STORE: ['redis', 'file', 'memory'],
+  REFERRAL_STORE: ['redis', 'file', 'memory'],
+  RATE_LIMIT_STORE: ['redis', 'memory'],
+};
+
+const INTEGER_VARS = [
+  'OUTBOX_MAX_ATTEMPTS',
+  'MERCH_LAUNCH_BATCH_SIZE',
+  'MERCH_LAUNCH_BATCH_PAUSE_MS',
+  'WAITLIST_RETENTION_DAYS',
+];
+const BOOLEAN_VARS = ['DEDUPE_IGNORE_PLUS_ADDRESSING'];
+const URL_VARS = [
+  'AIRTABLE_API_URL',
+  'AIRTABLE_CONTENT_API_URL',
+  'EMAILOCTOPUS_API_URL',
+  'RESEND_API_URL',
+  'STRIPE_API_URL',
+  'KV_REST_API_URL',
+  ...new Set(Object.values(WEBHOOK_ENV).flat()),
+];
+
+// Rate-limit counters stay in memory where the other stores use files (see ../rate-limit)
+function backendOf(store: string): string {
+  const backend = storeBackend(store) ?? 'none';
+  return store === 'RATE_LIMIT_STORE' && backend === 'file' ? 'memory' : backend;
+}
+
+function withRequirements(adapter: string): IntegrationConfig {
+  const missing = (REQUIREMENTS[adapter] ?? [])
+    .filter((names) => names.every((name) => readEnv(name) === undefined))
+    .map((names) => names.join(' or '));
+  const missingOptional = (OPTIONAL[adapter] ?? []).filter((name) => readEnv(name) === undefined);
+  return { adapter, enabled: missing.length === 0, missing, missingOptional };
+}
+
+const OFF: IntegrationConfig = { adapter: 'none', enabled: false, missing: [], missingOptional: [] };
+
+function choose(setting: string, adapter: string, known: string[], invalid: string[]): IntegrationConfig {
+  if (!known.includes(adapter)) {
+    invalid.push(`${setting} (unknown adapter "${adapter}")`);
+    return { ...OFF, adapter };
+  }
+  return withRequirements(adapter);
+}
+
+function checkValues(local: boolean, invalid: string[]): void {
+  const integrations = readEnv('INTEGRATIONS');
+  if (integrations !== undefined && !local) {
+    invalid.push('INTEGRATIONS (only "local" is recognised)');
+  }
+
+  for (const [name, known] of Object.entries(STORES)) {
+    const value = readEnv(name);
+    if (value !== undefined && !known.includes(value)) {
+      invalid.push(`${name} (unknown store "${value}")`);
+    }
+  }
+  for (const name of INTEGER_VARS) {
+    const value = readEnv(name);
+    if (value !== undefined && !/^\d+$/.test(value.trim())) {
+      invalid.push(`${name} (not a whole number)`);
+    }
+  }
+  for (const name of BOOLEAN_VARS) {
+    const value = readEnv(name);
+    if (value !== undefined && value !== 'true' && value !== 'false') {
+      invalid.push(`${name} (must be "true" or "false")`);
+    }
+  }
+  for (const name of URL_VARS) {
+    const value = readEnv(name);
+    if (value !== undefined && !URL.canParse(value)) {
+      invalid.push(`${name} (not a URL)`);
+    }
+  }
+
+  const fromEmail = readEnv('FROM_EMAIL');
+  if (fromEmail !== undefined && !fromEmail.includes('@')) {
+    invalid.push('FROM_EMAIL (not an email address)');
+  }
+  const adminEmails = readEnv('ADMIN_EMAILS');
+  if (adminEmails !== undefined && adminEmails.split(',').some((email) => email.trim() && !email.includes('@'))) {
+    invalid.push('ADMIN_EMAILS (not a comma-separated list of email addresses)');
+  }
+}
+
+// Read fresh on every call, so `astro dev` picks up .env changes
+export function loadConfig(): SiteConfig {
+  const local = readEnv('INTEGRATIONS') === 'local';
+  const invalid: string[] = [];
+
+  const kvSet = readEnv('KV_REST_API_URL') !== undefined || readEnv('KV_REST_API_TOKEN') !== undefined;
+  const payments = readEnv('PAYMENT_PROVIDER') ?? (local ? 'fake' : 'stripe');
+  const captcha = readEnv('CAPTCHA_PROVIDER') ?? 'none';
+
+  const integrations: Record<IntegrationName, IntegrationConfig> = {
+    records: choose('RECORD_STORE', selectedAdapter('RECORD_STORE'), ADAPTERS.RECORD_STORE, invalid),
+    mailingList: choose('MAILING_LIST', selectedAdapter('MAILING_LIST'), ADAPTERS.MAILING_LIST, invalid),
+    email: choose('EMAIL_SENDER', selectedAdapter('EMAIL_SENDER'), ADAPTERS.EMAIL_SENDER, invalid),
+    chat: choose('CHAT_NOTIFIER', selectedAdapter('CHAT_NOTIFIER'), ADAPTERS.CHAT_NOTIFIER, invalid),
+    kv: kvSet ? withRequirements('redis') : OFF,
+    payments: choose('PAYMENT_PROVIDER', payments, ['stripe', 'fake'], invalid),
+    captcha:
+      captcha === 'none' ? OFF : choose('CAPTCHA_PROVIDER', captcha, ['stub', 'turnstile', 'hcaptcha'], invalid),
+  };
+
+  checkValues(local, invalid);
+
+  return {
+    local,
+    integrations,
+    stores: Object.fromEntries(Object.keys(STORES).map((name) => [name, backendOf(name)])),
+    features: {
+      signedLinks: readEnv('SIGNED_LINK_SECRET') !== undefined,
+      formTokens: readEnv('FORM_TOKEN_SECRET') !== undefined,
+      cron: readEnv('CRON_SECRET') !== undefined,
+      admin: readEnv('ADMIN_EMAILS') !== undefined,
+      alerts: readEnv('SLACK_ALERTS_WEBHOOK_URL') !== undefined,
+    },
+    invalid,
+  };
+}
+
+// One line per problem, so a misconfigured deployment shows up in the logs
+// before the first request that needs the missing piece
+export function reportConfig(config: SiteConfig = loadConfig()): void {
+  const adapters = Object.entries(config.integrations)
+    .map(([name, integration]) => `${name}=${integration.adapter}${integration.enabled ? '' : ' (off)'}`)
+    .join(', ');
+  const features = Object.entries(config.features)
+    .filter(([, enabled]) => enabled)
+    .map(([name]) => name);
+
+  console.log(`[config] ${config.local ? 'Local' : 'Live'} integrations: ${adapters}`);
+  console.log(`[config] Features enabled: ${features.join(', ') || 'none'}`);
+  for (const [name, integration] of Object.entries(config.integrations)) {
+    if (integration.missing.length > 0) {
+      console.warn(`[config] ${name} (${integration.adapter}) is missing ${integration.missing.join(', ')}`);
+    }
+    if (integration.missingOptional.length > 0) {
+      console.log(`[config] ${name} (${integration.adapter}) has no ${integration.missingOptional.join(', ')}`);
+    }
+  }
+  const storesWith = (backend: string) =>
+    Object.keys(config.stores).filter((name) => config.stores[name] === backend);
+  if (storesWith('none').length > 0) {
+    console.error(
+      `[config] No durable backend for ${storesWith('none').join(', ')}: set KV_REST_API_URL and KV_REST_API_TOKEN`
+    );
+  }
+  if (storesWith('memory').length > 0 && !config.local) {
+    console.warn(`[config] In memory, so lost on every cold start: ${storesWith('memory').join(', ')}`);
+  }
+  for (const problem of config.invalid) {
+    console.error(`[config] Invalid setting: ${problem}`);
+  }
+}
@@ -0,0 +1,25 @@
+// Enum values shared by the collection schemas (src/content.config.ts) and the
+// pages. Kept free of imports so the content config can load it at build time.
+
+export const EVENT_TYPES = ['hackathon', 'workshop', 'conference', 'co-working day', 'other'] as const;
+export type EventType = (typeof EVENT_TYPES)[number];
+
+export const PRESS_KINDS = ['article', 'podcast'] as const;
+export type PressKind = (typeof PRESS_KINDS)[number];
+
+export const TEAM_GROUPS = ['founders', 'advisors'] as const;
+export type TeamGroup = (typeof TEAM_GROUPS)[number];
+
+// Garment sizes. Product variants and the merch waitlist use the keys; the
+// labels are shown on the site and stored in Airtable.
+export const MERCH_SIZES = ['xs', 's', 'm', 'l', 'xl', 'xxl'] as const;
+export type MerchSize = (typeof MERCH_SIZES)[number];
+
+export const sizeMap: Record<MerchSize, string> = {
+  xs: 'XS',
+  s: 'S',
+  m: 'M',
+  l: 'L',
+  xl: 'XL',
+  xxl: 'XXL',
+};
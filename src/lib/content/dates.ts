@@ -0,0 +1,67 @@
+// Collection dates are calendar days stored as UTC midnight, so everything here
+// formats with the UTC getters
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+function ordinal(day: number): string {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+  return `${day}${suffix}`;
+}
+
+// "17th November, 2025"
+export function formatDate(date: Date): string {
+  return `${ordinal(date.getUTCDate())} ${MONTHS[date.getUTCMonth()]}, ${date.getUTCFullYear()}`;
+}
+
+// "24th-26th October, 2025", or "30th September - 2nd October, 2025" across months
+export function formatDateRange(start: Date, end?: Date): string {
+  if (!end || end.getTime() === start.getTime()) return formatDate(start);
+  if (start.getUTCFullYear() !== end.getUTCFullYear()) return `${formatDate(start)} - ${formatDate(end)}`;
+  if (start.getUTCMonth() !== end.getUTCMonth()) {
+    return `${ordinal(start.getUTCDate())} ${MONTHS[start.getUTCMonth()]} - ${formatDate(end)}`;
+  }
+  return `${ordinal(start.getUTCDate())}-${formatDate(end)}`;
+}
+
+// "2025-11-17"
+export function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// How far ahead of UTC the zone's wall clock is at the given instant, in ms
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant a wall-clock time ("18:30") on a calendar day happens in a time zone.
+// The offset is looked up twice so times just after a DST change land correctly.
+export function zonedTime(day: Date, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wall = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours, minutes);
+  const guess = wall - zoneOffset(wall, timeZone);
+  return new Date(wall - zoneOffset(guess, timeZone));
+}
@@ -0,0 +1,114 @@
+import { EVENT_TYPES, type EventType } from './constants';
+import type { EventEntry } from './events';
+
+// URL-addressable filtering of the past events list, shared by /about and
+// /api/events: ?type=hackathon&city=London&year=2025&q=robotics&page=2
+
+export const EVENTS_PAGE_SIZE = 12;
+
+export interface EventQuery {
+  type?: EventType;
+  city?: string;
+  year?: number;
+  q?: string;
+  page: number;
+}
+
+export interface ParsedEventQuery {
+  query: EventQuery;
+  // Parameters that were present but unusable. Pages drop them silently;
+  // the API reports them.
+  errors: string[];
+}
+
+function isEventType(value: string): value is EventType {
+  return (EVENT_TYPES as readonly string[]).includes(value);
+}
+
+export function parseEventQuery(params: URLSearchParams): ParsedEventQuery {
+  const query: EventQuery = { page: 1 };
+  const errors: string[] = [];
+  const param = (name: string) => params.get(name)?.trim() || undefined;
+
+  const type = param('type')?.toLowerCase();
+  if (type) {
+    if (isEventType(type)) query.type = type;
+    else errors.push(`type must be one of: ${EVENT_TYPES.join(', ')}`);
+  }
+
+  query.city = param('city');
+
+  const year = param('year');
+  if (year) {
+    if (/^\d{4}$/.test(year)) query.year = Number(year);
+    else errors.push('year must be a four-digit year');
+  }
+
+  query.q = param('q')?.slice(0, 100);
+
+  const page = param('page');
+  if (page) {
+    if (/^\d+$/.test(page) && Number(page) >= 1) query.page = Number(page);
+    else errors.push('page must be a positive whole number');
+  }
+
+  return { query, errors };
+}
+
+function searchableText(entry: EventEntry): string {
+  const event = entry.data;
+  return [event.title, event.type, event.city, event.country, event.venue ?? '', ...event.content]
+    .join('\n')
+    .toLowerCase();
+}
+
+export function filterEvents(events: EventEntry[], query: EventQuery): EventEntry[] {
+  const city = query.city?.toLowerCase();
+  // Every word has to appear somewhere in the event
+  const words = query.q?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+
+  return events.filter((entry) => {
+    const event = entry.data;
+    if (query.type && event.type !== query.type) return false;
+    if (city && event.city.toLowerCase() !== city) return false;
+    if (query.year && event.date.getUTCFullYear() !== query.year) return false;
+    if (words.length > 0) {
+      const text = searchableText(entry);
+      if (!words.every((word) => text.includes(word))) return false;
+    }
+    return true;
+  });
+}
+
+export interface EventPage {
+  events: EventEntry[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+// Pages past the end are clamped to the last page
+export function paginateEvents(events: EventEntry[], page: number, pageSize = EVENTS_PAGE_SIZE): EventPage {
+  const totalPages = Math.max(1, Math.ceil(events.length / pageSize));
+  const current = Math.min(page, totalPages);
+  return {
+    events: events.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    pageSize,
+    total: events.length,
+    totalPages,
+  };
+}
+
+// Query string for a filtered view, leaving out empty filters and page 1
+export function eventQueryString(query: Partial<EventQuery>): string {
+  const params = new URLSearchParams();
+  if (query.type) params.set('type', query.type);
+  if (query.city) params.set('city', query.city);
+  if (query.year) params.set('year', String(query.year));
+  if (query.q) params.set('q', query.q);
+  if (query.page && query.page > 1) params.set('page', String(query.page));
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
@@ -0,0 +1,104 @@
+import { getCollection, getEntry, type CollectionEntry } from 'astro:content';
+import { EVENT_TYPES, type EventType } from './constants';
+import { zonedTime } from './dates';
+
+export type EventEntry = CollectionEntry<'events'>;
+export type EventData = EventEntry['data'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EventTiming {
+  start: Date;
+  // Exclusive: the instant the event is over
+  end: Date;
+  // No start time, so calendars show it as a whole-day event
+  allDay: boolean;
+}
+
+export function eventTiming(event: EventData): EventTiming {
+  const lastDay = event.endDate ?? event.date;
+  if (!event.startTime || !event.timezone) {
+    return { start: event.date, end: new Date(lastDay.getTime() + DAY_MS), allDay: true };
+  }
+  const start = zonedTime(event.date, event.startTime, event.timezone);
+  const end = event.endTime
+    ? zonedTime(lastDay, event.endTime, event.timezone)
+    : new Date(zonedTime(lastDay, '00:00', event.timezone).getTime() + DAY_MS);
+  return { start, end, allDay: false };
+}
+
+// An event stays upcoming until it has finished
+export function isUpcoming(event: EventData, now = new Date()): boolean {
+  return eventTiming(event).end > now;
+}
+
+// Newest first
+export async function getEvents(): Promise<EventEntry[]> {
+  const events = await getCollection('events');
+  return events.sort((a, b) => b.data.date.getTime() - a.data.date.getTime());
+}
+
+export async function getPastEvents(now = new Date()): Promise<EventEntry[]> {
+  return (await getEvents()).filter((event) => !isUpcoming(event.data, now));
+}
+
+// Soonest first
+export async function getUpcomingEvents(now = new Date()): Promise<EventEntry[]> {
+  return (await getEvents()).filter((event) => isUpcoming(event.data, now)).reverse();
+}
+
+export async function getEvent(slug: string): Promise<EventEntry | undefined> {
+  return getEntry('events', slug);
+}
+
+export function formatLocation(event: EventData): string {
+  return `${event.city}, ${event.country}`;
+}
+
+// "18:00-21:00 (London time)"
+export function formatEventTime(event: EventData): string | undefined {
+  if (!event.startTime || !event.timezone) return undefined;
+  const place = event.timezone.split('/').pop()?.replace(/_/g, ' ');
+  const range = event.endTime ? `${event.startTime}-${event.endTime}` : event.startTime;
+  return `${range} (${place} time)`;
+}
+
+export interface LocationFilter {
+  region: string;
+  cities: string[];
+}
+
+export interface EventFilterOptions {
+  types: EventType[];
+  locations: LocationFilter[];
+  // Newest first
+  years: number[];
+}
+
+// Options for the past events filter form, built from the events themselves.
+// Types keep the schema's order; regions and cities are busiest first.
+export function eventFilters(events: EventEntry[]): EventFilterOptions {
+  const present = new Set(events.map((event) => event.data.type));
+  const types = EVENT_TYPES.filter((type) => present.has(type));
+
+  const regions = new Map<string, Map<string, number>>();
+  for (const { data } of events) {
+    const cities = regions.get(data.region) ?? new Map<string, number>();
+    regions.set(data.region, cities);
+    cities.set(data.city, (cities.get(data.city) ?? 0) + 1);
+  }
+
+  const byCount = ([a, aCount]: [string, number], [b, bCount]: [string, number]) => bCount - aCount || a.localeCompare(b);
+  const total = (cities: Map<string, number>) => [...cities.values()].reduce((sum, count) => sum + count, 0);
+  const locations = [...regions.entries()]
+    .map(([region, cities]) => [region, cities, total(cities)] as const)
+    .sort(([a, , aTotal], [b, , bTotal]) => bTotal - aTotal || a.localeCompare(b))
+    .map(([region, cities]) => ({
+      region,
+      cities: [...cities.entries()].sort(byCount).map(([city]) => city),
+    }));
+
+  const years = [...new Set(events.map((event) => event.data.date.getUTCFullYear()))].sort((a, b) => b - a);
+
+  return { types, locations, years };
+}
@@ -0,0 +1,41 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import type { PressKind, TeamGroup } from './constants';
+
+// Read helpers for the content collections in src/content/ (schemas live in
+// src/content.config.ts). Pages go through these so ordering and the
+// published flag are applied the same way everywhere.
+
+export * from './constants';
+export * from './dates';
+export * from './events';
+export * from './event-query';
+
+export type PressEntry = CollectionEntry<'press'>;
+export type TeamEntry = CollectionEntry<'team'>;
+export type PartnerEntry = CollectionEntry<'partners'>;
+export type ProductEntry = CollectionEntry<'products'>;
+
+// Oldest first, matching the order coverage appeared in
+export async function getPress(kind: PressKind): Promise<PressEntry[]> {
+  const items = await getCollection('press', (item) => item.data.kind === kind);
+  return items.sort((a, b) => a.data.date.getTime() - b.data.date.getTime());
+}
+
+export async function getTeam(group: TeamGroup): Promise<TeamEntry[]> {
+  const members = await getCollection('team', (member) => member.data.group === group && member.data.published);
+  return members.sort((a, b) => a.data.order - b.data.order);
+}
+
+export async function getPartners(): Promise<PartnerEntry[]> {
+  const partners = await getCollection('partners');
+  return partners.sort((a, b) => a.data.order - b.data.order);
+}
+
+export async function getProducts(): Promise<ProductEntry[]> {
+  const products = await getCollection('products');
+  return products.sort((a, b) => a.data.order - b.data.order);
+}
+
+export function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
@@ -0,0 +1,123 @@
+import { readEnv } from './env';
+import type { RecordStore, RecordTable, StoredRecord } from './integrations';
+import { getRateLimitStore } from './rate-limit';
+
+// Repeat submissions from the same person update their existing record instead
+// of adding a row. People are matched on a normalised email address, stored in
+// `Email Key`; every submission is kept in `Submission History`. The address
+// isn't verified, so a repeat can't change what the record already says.
+//   DEDUPE_IGNORE_PLUS_ADDRESSING   "true" treats ada+ttb@example.com as ada@example.com
+
+export const EMAIL_KEY_FIELD = 'Email Key';
+const HISTORY_FIELD = 'Submission History';
+const COUNT_FIELD = 'Submission Count';
+const LAST_SUBMITTED_FIELD = 'Last Submitted At';
+
+// Beyond this the history keeps the first submission and drops the oldest repeats
+const MAX_HISTORY = 20;
+
+export function emailKey(email: string): string {
+  const address = email.trim().toLowerCase();
+  const at = address.lastIndexOf('@');
+  if (readEnv('DEDUPE_IGNORE_PLUS_ADDRESSING') !== 'true' || at === -1) {
+    return address;
+  }
+  return address.slice(0, at).split('+')[0] + address.slice(at);
+}
+
+export interface UpsertRequest {
+  table: RecordTable;
+  // emailKey() of the submitted address
+  key: string;
+  fields: Record<string, unknown>;
+  submittedAt: string;
+}
+
+interface HistoryEntry {
+  submittedAt: string;
+  fields: Record<string, unknown>;
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+function readHistory(record: StoredRecord): HistoryEntry[] {
+  try {
+    const history = JSON.parse(String(record.fields[HISTORY_FIELD] ?? '[]'));
+    return Array.isArray(history) ? history : [];
+  } catch {
+    return [];
+  }
+}
+
+// The person's record, if they've submitted before. Records saved before
+// deduplication have no Email Key and are matched on Email instead.
+export async function findExisting(
+  records: RecordStore,
+  table: RecordTable,
+  key: string
+): Promise<StoredRecord | undefined> {
+  const [byKey, byEmail] = await Promise.all([
+    records.findByField(table, EMAIL_KEY_FIELD, key),
+    records.findByEmail(table, key),
+  ]);
+  // If someone already has several rows, later submissions go to the first
+  return [...byKey, ...byEmail].sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+}
+
+// The fields to write over an existing record. Anyone can submit a form with
+// someone else's address, so a repeat only fills in answers the record doesn't
+// have yet; what it already says (the earlier answers, an opt-out, the team's
+// Status and Notes) is left alone. The repeat itself is added to the history.
+export function mergeSubmission(existing: StoredRecord, request: UpsertRequest): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(request.fields)) {
+    if (!isBlank(value) && isBlank(existing.fields[field])) {
+      merged[field] = value;
+    }
+  }
+
+  let history = readHistory(existing);
+  // A retried write (see the outbox) must not count the same submission twice
+  const isNew = !history.some((entry) => entry.submittedAt === request.submittedAt);
+  if (isNew) {
+    history.push({ submittedAt: request.submittedAt, fields: request.fields });
+  }
+  // Repeats can't push the first submission out
+  if (history.length > MAX_HISTORY) {
+    history = [history[0], ...history.slice(-(MAX_HISTORY - 1))];
+  }
+  merged[HISTORY_FIELD] = JSON.stringify(history);
+  merged[COUNT_FIELD] = (Number(existing.fields[COUNT_FIELD]) || 1) + (isNew ? 1 : 0);
+  merged[LAST_SUBMITTED_FIELD] = request.submittedAt;
+  merged[EMAIL_KEY_FIELD] = request.key;
+  return merged;
+}
+
+export async function upsertRecord(records: RecordStore, request: UpsertRequest): Promise<StoredRecord> {
+  const existing = await findExisting(records, request.table, request.key);
+  if (existing) {
+    return records.update(request.table, existing.id, mergeSubmission(existing, request));
+  }
+
+  const history: HistoryEntry[] = [{ submittedAt: request.submittedAt, fields: request.fields }];
+  return records.create(request.table, {
+    ...request.fields,
+    [EMAIL_KEY_FIELD]: request.key,
+    [HISTORY_FIELD]: JSON.stringify(history),
+    [COUNT_FIELD]: 1,
+    [LAST_SUBMITTED_FIELD]: request.submittedAt,
+  });
+}
+
+// True if the form was already submitted for this key within windowMs of the
+// first time. Used to skip team notifications, so it fails open: a store
+// outage means an extra Slack message, never a missing one.
+export async function isRepeatSubmission(form: string, key: string, windowMs: number): Promise<boolean> {
+  try {
+    return (await getRateLimitStore().increment(`repeat:${form}:${key}`, windowMs)) > 1;
+  } catch (error) {
+    console.error('Repeat submission store error:', error);
+    return false;
+  }
+}
@@ -0,0 +1,27 @@
+import { join } from 'node:path';
+import { readJsonLines, writeJsonLines } from '../json-files';
+import type { Draft, DraftStore } from './types';
+
+// drafts.jsonl, one line per draft; expired drafts are dropped whenever the file is rewritten
+export function createFileDraftStore(dataDir: string): DraftStore {
+  const path = join(dataDir, 'drafts.jsonl');
+
+  async function live(): Promise<Draft[]> {
+    const now = Date.now();
+    return (await readJsonLines<Draft>(path)).filter((draft) => draft.expiresAt > now);
+  }
+
+  return {
+    async save(draft) {
+      const drafts = await live();
+      await writeJsonLines(path, [...drafts.filter((existing) => existing.id !== draft.id), draft]);
+    },
+    async get(id) {
+      return (await live()).find((draft) => draft.id === id);
+    },
+    async remove(id) {
+      const drafts = await live();
+      await writeJsonLines(path, drafts.filter((draft) => draft.id !== id));
+    },
+  };
+}
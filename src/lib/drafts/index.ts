@@ -0,0 +1,24 @@
+import { selectStore } from '../stores';
+import { createFileDraftStore } from './file';
+import { createMemoryDraftStore } from './memory';
+import { createRedisDraftStore } from './redis';
+import type { DraftStore } from './types';
+
+export type * from './types';
+
+// Saved application drafts.
+//   DRAFT_STORE   memory | file | redis (default: redis with KV_REST_API_URL,
+//                 file with INTEGRATIONS=local; see ../stores)
+
+// How long a draft (and the link to it) stays valid
+export const DRAFT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const memoryStore = createMemoryDraftStore();
+
+export function getDraftStore(): DraftStore {
+  return selectStore('DRAFT_STORE', {
+    redis: createRedisDraftStore,
+    file: createFileDraftStore,
+    memory: memoryStore,
+  });
+}
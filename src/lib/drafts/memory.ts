@@ -0,0 +1,23 @@
+import type { Draft, DraftStore } from './types';
+
+// Not durable: drafts are lost on restart. Only for tests and single-process dev.
+export function createMemoryDraftStore(): DraftStore {
+  const drafts = new Map<string, Draft>();
+
+  return {
+    async save(draft) {
+      drafts.set(draft.id, draft);
+    },
+    async get(id) {
+      const draft = drafts.get(id);
+      if (draft && draft.expiresAt <= Date.now()) {
+        drafts.delete(id);
+        return undefined;
+      }
+      return draft;
+    },
+    async remove(id) {
+      drafts.delete(id);
+    },
+  };
+}
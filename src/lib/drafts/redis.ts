@@ -0,0 +1,21 @@
+import type { RedisClient } from '../redis';
+import type { Draft, DraftStore } from './types';
+
+// One key per draft, expiring with the draft itself
+const key = (id: string) => `draft:${id}`;
+
+export function createRedisDraftStore(redis: RedisClient): DraftStore {
+  return {
+    async save(draft) {
+      const ttl = Math.max(draft.expiresAt - Date.now(), 1);
+      await redis.pipeline([['SET', key(draft.id), JSON.stringify(draft), 'PX', ttl]]);
+    },
+    async get(id) {
+      const [value] = await redis.pipeline([['GET', key(id)]]);
+      return typeof value === 'string' ? (JSON.parse(value) as Draft) : undefined;
+    },
+    async remove(id) {
+      await redis.pipeline([['DEL', key(id)]]);
+    },
+  };
+}
@@ -0,0 +1,21 @@
+// Partially completed applications, saved so applicants can resume from a magic link
+export interface Draft {
+  id: string;
+  // Form the draft belongs to, e.g. 'accelerator-apply'
+  form: string;
+  email: string;
+  values: Record<string, unknown>;
+  // Index of the step the applicant was on
+  step: number;
+  updatedAt: string;
+  // Epoch milliseconds after which the draft is discarded
+  expiresAt: number;
+}
+
+export interface DraftStore {
+  // Adds or replaces a draft
+  save(draft: Draft): Promise<void>;
+  // Undefined for unknown and expired drafts
+  get(id: string): Promise<Draft | undefined>;
+  remove(id: string): Promise<void>;
+}
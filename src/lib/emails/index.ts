@@ -0,0 +1,42 @@
+import type { PreviewableTemplate } from './render';
+import { acceleratorDraftSaved } from './templates/accelerator-draft-saved';
+import { adminSignIn } from './templates/admin-sign-in';
+import { applicantSignIn } from './templates/applicant-sign-in';
+import { applicationReceived } from './templates/application-received';
+import { applicationStatusChanged } from './templates/application-status-changed';
+import { merchLaunch } from './templates/merch-launch';
+import { merchOrderConfirmed } from './templates/merch-order-confirmed';
+import { merchWaitlistJoined } from './templates/merch-waitlist-joined';
+import { newsletterConfirm } from './templates/newsletter-confirm';
+import { partnerInquiryReceived } from './templates/partner-inquiry-received';
+import { privacyRequest } from './templates/privacy-request';
+
+export { renderEmail, type EmailTemplate, type RenderedEmail } from './render';
+export {
+  acceleratorDraftSaved,
+  adminSignIn,
+  applicantSignIn,
+  applicationReceived,
+  applicationStatusChanged,
+  merchLaunch,
+  merchOrderConfirmed,
+  merchWaitlistJoined,
+  newsletterConfirm,
+  partnerInquiryReceived,
+  privacyRequest,
+};
+
+// Every template, for the /dev/emails preview
+export const emailTemplates: PreviewableTemplate[] = [
+  applicationReceived,
+  applicationStatusChanged,
+  merchWaitlistJoined,
+  merchLaunch,
+  merchOrderConfirmed,
+  newsletterConfirm,
+  partnerInquiryReceived,
+  acceleratorDraftSaved,
+  applicantSignIn,
+  adminSignIn,
+  privacyRequest,
+];
@@ -0,0 +1,58 @@
+import { escapeHtml } from '../html';
+import { translate, translatedPath, type Locale } from '../i18n';
+
+// Shared branded wrapper for every transactional email. Table layout and
+// inline styles, since many email clients ignore <style> blocks.
+
+const SITE_URL = 'https://thetechbros.io';
+
+interface LayoutOptions {
+  subject: string;
+  preheader?: string;
+  // Already-rendered HTML for the message body
+  body: string;
+  unsubscribeUrl?: string;
+  locale: Locale;
+}
+
+export function renderLayout({ subject, preheader, body, unsubscribeUrl, locale }: LayoutOptions): string {
+  const unsubscribe = unsubscribeUrl
+    ? ` · <a href="${escapeHtml(unsubscribeUrl)}" style="color: rgba(255, 255, 255, 0.6);">${escapeHtml(translate(locale, 'email.unsubscribe'))}</a>`
+    : '';
+  const privacyPolicy = `<a href="${SITE_URL}${translatedPath('/privacy-policy', locale)}" style="color: rgba(255, 255, 255, 0.6);">${escapeHtml(translate(locale, 'email.privacyPolicy'))}</a>`;
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; background: #000000;">
+${preheader ? `<div style="display: none; max-height: 0; overflow: hidden;">${escapeHtml(preheader)}</div>` : ''}
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(180deg, #420021 0%, #000000 100%); background-color: #000000;">
+<tr>
+<td align="center" style="padding: 32px 16px;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; font-size: 16px; line-height: 1.6; color: #ffffff;">
+<tr>
+<td style="padding: 0 0 24px; font-family: 'Courier New', Courier, monospace; font-size: 20px; font-weight: bold;">
+<a href="${SITE_URL}" style="color: #5ce1e6; text-decoration: none;">the tech bros</a>
+</td>
+</tr>
+<tr>
+<td style="padding: 32px; background: rgba(255, 255, 255, 0.05); border: 1px solid rgba(255, 255, 255, 0.1); border-radius: 8px;">
+${body}
+</td>
+</tr>
+<tr>
+<td style="padding: 24px 0 0; font-size: 12px; color: rgba(255, 255, 255, 0.6);">
+The Tech Bros Ltd · <a href="${SITE_URL}" style="color: rgba(255, 255, 255, 0.6);">thetechbros.io</a> · ${privacyPolicy}${unsubscribe}
+</td>
+</tr>
+</table>
+</td>
+</tr>
+</table>
+</body>
+</html>`;
+}
@@ -0,0 +1,139 @@
+import { escapeHtml } from '../html';
+import { DEFAULT_LOCALE, translate, type Locale } from '../i18n';
+import { renderLayout } from './layout';
+
+// Transactional emails are written as structured content rather than HTML
+// strings: every value is escaped on the way into HTML, and the plain-text
+// part is generated from the same content so the two never drift apart.
+
+// A run of text, or a link within a paragraph
+export type Inline = string | { text: string; href: string };
+
+export type EmailBlock =
+  | { type: 'paragraph'; content: Inline[] }
+  | { type: 'button'; label: string; href: string }
+  // Small print below the sign-off, e.g. "you received this because..."
+  | { type: 'fineprint'; content: Inline[] };
+
+export interface EmailContent {
+  subject: string;
+  // Inbox preview line shown after the subject
+  preheader?: string;
+  // "Hi <name>," or just "Hi," when there's no name
+  greeting?: string;
+  blocks: EmailBlock[];
+  // Adds an unsubscribe link to the footer
+  unsubscribeUrl?: string;
+  // Language of the greeting, sign-off and footer; English if not set
+  locale?: Locale;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplate<P> {
+  // Identifies the template in previews
+  name: string;
+  description: string;
+  render(props: P): EmailContent;
+  // Props used by the /dev/emails preview
+  sample: P;
+}
+
+// What the preview page needs, independent of each template's props
+export interface PreviewableTemplate {
+  name: string;
+  description: string;
+  preview(): RenderedEmail;
+}
+
+export const paragraph = (...content: Inline[]): EmailBlock => ({ type: 'paragraph', content });
+export const button = (label: string, href: string): EmailBlock => ({ type: 'button', label, href });
+export const fineprint = (...content: Inline[]): EmailBlock => ({ type: 'fineprint', content });
+export const link = (text: string, href: string): Inline => ({ text, href });
+
+// A translated sentence with its {link} placeholder replaced by a link, since
+// where the link falls differs between languages
+export const withLink = (message: string, target: Inline): Inline[] => {
+  const [before, ...after] = message.split('{link}');
+  return after.length ? [before, target, after.join('{link}')] : [message];
+};
+
+function inlineHtml(content: Inline[]): string {
+  return content
+    .map((part) =>
+      typeof part === 'string'
+        ? escapeHtml(part)
+        : `<a href="${escapeHtml(part.href)}" style="color: #5ce1e6;">${escapeHtml(part.text)}</a>`
+    )
+    .join('');
+}
+
+// Links read as "text (url)" unless the text is the url itself
+function inlineText(content: Inline[]): string {
+  return content
+    .map((part) => (typeof part === 'string' ? part : part.text === part.href ? part.href : `${part.text} (${part.href})`))
+    .join('');
+}
+
+function blockHtml(block: EmailBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p style="margin: 0 0 16px;">${inlineHtml(block.content)}</p>`;
+    case 'button':
+      return `<p style="margin: 24px 0;"><a href="${escapeHtml(block.href)}" style="display: inline-block; padding: 12px 24px; background: #ef1f9f; color: #ffffff; text-decoration: none; border-radius: 4px; font-weight: bold;">${escapeHtml(block.label)}</a></p>`;
+    case 'fineprint':
+      return `<p style="margin: 16px 0 0; font-size: 12px; color: rgba(255, 255, 255, 0.6);">${inlineHtml(block.content)}</p>`;
+  }
+}
+
+function blockText(block: EmailBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+    case 'fineprint':
+      return inlineText(block.content);
+    case 'button':
+      return `${block.label}: ${block.href}`;
+  }
+}
+
+export function renderEmail<P>(template: EmailTemplate<P>, props: P): RenderedEmail {
+  const content = template.render(props);
+  const locale = content.locale ?? DEFAULT_LOCALE;
+  const greeting = content.greeting
+    ? translate(locale, 'email.greeting', { name: content.greeting })
+    : translate(locale, 'email.greetingNoName');
+  const signOff = translate(locale, 'email.signOff');
+  const body = content.blocks.filter((block) => block.type !== 'fineprint');
+  const small = content.blocks.filter((block) => block.type === 'fineprint');
+
+  const html = renderLayout({
+    subject: content.subject,
+    preheader: content.preheader,
+    body: [
+      `<p style="margin: 0 0 16px;">${escapeHtml(greeting)}</p>`,
+      ...body.map(blockHtml),
+      `<p style="margin: 24px 0 0;">${escapeHtml(signOff)}<br />The Tech Bros</p>`,
+      ...small.map(blockHtml),
+    ].join('\n'),
+    unsubscribeUrl: content.unsubscribeUrl,
+    locale,
+  });
+
+  const text = [
+    greeting,
+    ...body.map(blockText),
+    `${signOff}\nThe Tech Bros`,
+    ...small.map(blockText),
+    ...(content.unsubscribeUrl ? [`${translate(locale, 'email.unsubscribe')}: ${content.unsubscribeUrl}`] : []),
+  ].join('\n\n');
+
+  return { subject: content.subject, html, text };
+}
+
+export function defineEmailTemplate<P>(template: EmailTemplate<P>): EmailTemplate<P> & PreviewableTemplate {
+  return { ...template, preview: () => renderEmail(template, template.sample) };
+}
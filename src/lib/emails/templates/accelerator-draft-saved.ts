@@ -0,0 +1,23 @@
+import { button, defineEmailTemplate, paragraph } from '../render';
+
+export interface AcceleratorDraftSavedProps {
+  resumeUrl: string;
+  // Human-readable date the link stops working
+  expires: string;
+}
+
+export const acceleratorDraftSaved = defineEmailTemplate<AcceleratorDraftSavedProps>({
+  name: 'accelerator-draft-saved',
+  description: 'Magic link to resume a saved accelerator application',
+  sample: { resumeUrl: 'https://thetechbros.io/apply/accelerator/application?draft=sample', expires: '18 November 2026' },
+
+  render: ({ resumeUrl, expires }) => ({
+    subject: 'Your accelerator application draft — The Tech Bros',
+    preheader: 'Pick up where you left off.',
+    blocks: [
+      paragraph("We've saved your progress on The Tech Bros Accelerator application. Pick up where you left off here:"),
+      button('Continue my application', resumeUrl),
+      paragraph(`The link works until ${expires}. If you attached a pitch deck file, you'll need to attach it again before submitting.`),
+    ],
+  }),
+});
@@ -0,0 +1,21 @@
+import { button, defineEmailTemplate, paragraph } from '../render';
+
+export interface AdminSignInProps {
+  signInUrl: string;
+}
+
+export const adminSignIn = defineEmailTemplate<AdminSignInProps>({
+  name: 'admin-sign-in',
+  description: 'Magic link for the team dashboard',
+  sample: { signInUrl: 'https://thetechbros.io/admin/login?token=sample' },
+
+  render: ({ signInUrl }) => ({
+    subject: 'Sign in to the dashboard — The Tech Bros',
+    preheader: 'Your link to the submissions dashboard.',
+    blocks: [
+      paragraph('Use the link below to sign in to the submissions dashboard. It works once and expires in 15 minutes.'),
+      button('Sign in', signInUrl),
+      paragraph("If you didn't ask for this, someone may be trying to get in. Let the team know."),
+    ],
+  }),
+});
@@ -0,0 +1,21 @@
+import { button, defineEmailTemplate, paragraph } from '../render';
+
+export interface ApplicantSignInProps {
+  signInUrl: string;
+}
+
+export const applicantSignIn = defineEmailTemplate<ApplicantSignInProps>({
+  name: 'applicant-sign-in',
+  description: 'Magic link for the applicant status portal',
+  sample: { signInUrl: 'https://thetechbros.io/apply/login?token=sample' },
+
+  render: ({ signInUrl }) => ({
+    subject: 'Your sign-in link — The Tech Bros',
+    preheader: 'Check the status of your application.',
+    blocks: [
+      paragraph('Use the link below to check the status of your application. It works once and expires in 30 minutes.'),
+      button('Sign in', signInUrl),
+      paragraph("If you didn't ask for this, you can ignore this email."),
+    ],
+  }),
+});
@@ -0,0 +1,59 @@
+import { translatedPath, useTranslations, type Locale } from '../../i18n';
+import { button, defineEmailTemplate, link, paragraph, withLink } from '../render';
+
+export interface ApplicationReceivedProps {
+  name: string;
+  programme: 'community' | 'accelerator';
+  // Accelerator applications only
+  company?: string;
+  statusUrl: string;
+  // The language the applicant applied in
+  locale?: Locale;
+}
+
+export const applicationReceived = defineEmailTemplate<ApplicationReceivedProps>({
+  name: 'application-received',
+  description: 'Sent when a community or accelerator application is submitted',
+  sample: { name: 'Ada Lovelace', programme: 'accelerator', company: 'Analytical Engines', statusUrl: 'https://thetechbros.io/apply/status' },
+
+  render: ({ name, programme, company, statusUrl, locale = 'en' }) => {
+    const t = useTranslations(locale);
+    return programme === 'accelerator'
+      ? {
+          subject: t('email.applicationReceived.accelerator.subject'),
+          preheader: t('email.applicationReceived.accelerator.preheader'),
+          greeting: name,
+          blocks: [
+            paragraph(
+              company
+                ? t('email.applicationReceived.accelerator.thanksWithCompany', { company })
+                : t('email.applicationReceived.accelerator.thanks')
+            ),
+            paragraph(
+              ...withLink(
+                t('email.applicationReceived.accelerator.next'),
+                link(t('email.applicationReceived.accelerator.faq'), `https://thetechbros.io${translatedPath('/apply/faq', locale)}`)
+              )
+            ),
+            button(t('email.applicationReceived.statusButton'), statusUrl),
+          ],
+          locale,
+        }
+      : {
+          subject: t('email.applicationReceived.community.subject'),
+          preheader: t('email.applicationReceived.community.preheader'),
+          greeting: name,
+          blocks: [
+            paragraph(t('email.applicationReceived.community.thanks')),
+            paragraph(
+              ...withLink(
+                t('email.applicationReceived.community.next'),
+                link('thetechbros.io', `https://thetechbros.io${translatedPath('/', locale)}`)
+              )
+            ),
+            button(t('email.applicationReceived.statusButton'), statusUrl),
+          ],
+          locale,
+        };
+  },
+});
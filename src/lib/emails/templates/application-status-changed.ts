@@ -0,0 +1,59 @@
+import type { ApplicationStatus } from '../../applications';
+import { button, defineEmailTemplate, paragraph, type EmailBlock } from '../render';
+
+export interface ApplicationStatusChangedProps {
+  name: string;
+  // Received needs no email: applicationReceived covers it
+  status: Exclude<ApplicationStatus, 'received'>;
+  // e.g. "your accelerator application for Acme"
+  application: string;
+  statusUrl: string;
+}
+
+const COPY: Record<ApplicationStatusChangedProps['status'], { subject: string; blocks: (application: string) => EmailBlock[] }> = {
+  under_review: {
+    subject: 'Your application is under review — The Tech Bros',
+    blocks: (application) => [
+      paragraph(`Our team is now reviewing ${application}.`),
+      paragraph("We'll let you know as soon as there's news."),
+    ],
+  },
+  interview: {
+    subject: "We'd like to meet you — The Tech Bros",
+    blocks: (application) => [
+      paragraph(`Good news: we'd like to invite you to an interview about ${application}.`),
+      paragraph("We'll be in touch shortly to find a time that works for you."),
+    ],
+  },
+  accepted: {
+    subject: "Congratulations, you're in! — The Tech Bros",
+    blocks: (application) => [
+      paragraph(`We're delighted to let you know that ${application} has been accepted.`),
+      paragraph("Keep an eye on your inbox: we'll send you everything you need to get started."),
+    ],
+  },
+  declined: {
+    subject: 'An update on your application — The Tech Bros',
+    blocks: (application) => [
+      paragraph(`Thank you for taking the time to apply. After careful consideration, we won't be moving forward with ${application} this time.`),
+      paragraph("We get many more strong applications than we have places, and we'd love to hear from you again in the future."),
+    ],
+  },
+};
+
+export const applicationStatusChanged = defineEmailTemplate<ApplicationStatusChangedProps>({
+  name: 'application-status-changed',
+  description: "Sent when the team changes an application's status",
+  sample: {
+    name: 'Ada Lovelace',
+    status: 'interview',
+    application: 'your accelerator application for Analytical Engines',
+    statusUrl: 'https://thetechbros.io/apply/status',
+  },
+
+  render: ({ name, status, application, statusUrl }) => ({
+    subject: COPY[status].subject,
+    greeting: name,
+    blocks: [...COPY[status].blocks(application), button('View your application', statusUrl)],
+  }),
+});
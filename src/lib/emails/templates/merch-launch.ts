@@ -0,0 +1,58 @@
+import { button, defineEmailTemplate, fineprint, link, paragraph } from '../render';
+
+export interface MerchLaunchProps {
+  name: string;
+  // A first release, or a size that had sold out coming back
+  kind: 'launch' | 'restock';
+  product: string;
+  // Formatted, e.g. "£55.00"
+  price: string;
+  // The size the member asked for, e.g. "M"
+  size: string;
+  shopUrl: string;
+  // Set while the product is still early access only, with the date it opens to everyone
+  earlyAccess?: { code: string; until: string };
+  optOutUrl: string;
+}
+
+export const merchLaunch = defineEmailTemplate<MerchLaunchProps>({
+  name: 'merch-launch',
+  description: 'Sent to matching merch waitlist members when a product launches or is restocked',
+  sample: {
+    name: 'Grace Hopper',
+    kind: 'launch',
+    product: 'The Tech Bros Hoodie',
+    price: '£55.00',
+    size: 'M',
+    shopUrl: 'https://thetechbros.io/merch#shop',
+    earlyAccess: { code: 'TTB-7KQ2-M9XD', until: '1st December, 2026' },
+    optOutUrl: 'https://thetechbros.io/merch/opt-out?token=sample',
+  },
+
+  render: ({ name, kind, product, price, size, shopUrl, earlyAccess, optOutUrl }) => ({
+    subject: kind === 'launch' ? `${product} is here — The Tech Bros` : `${product} is back in ${size} — The Tech Bros`,
+    preheader: kind === 'launch' ? `You asked, we made it: ${product}, ${price}.` : 'Your size is back in stock.',
+    greeting: name,
+    blocks: [
+      paragraph(
+        kind === 'launch'
+          ? `The wait is over: ${product} is now in the store, and we have it in your size (${size}).`
+          : `Good news: ${product} is back in stock in your size (${size}).`
+      ),
+      ...(earlyAccess
+        ? [
+            paragraph(
+              `Waitlist members get first pick until ${earlyAccess.until}. Your early-access code is ${earlyAccess.code}. Enter it at checkout with this email address.`
+            ),
+          ]
+        : []),
+      button(`Shop now for ${price}`, shopUrl),
+      fineprint(
+        "You're receiving this because you joined the merch waitlist on thetechbros.io. Don't want these emails? ",
+        link('Leave the waitlist', optOutUrl),
+        '.'
+      ),
+    ],
+    unsubscribeUrl: optOutUrl,
+  }),
+});
@@ -0,0 +1,31 @@
+import { defineEmailTemplate, fineprint, paragraph } from '../render';
+
+export interface MerchOrderConfirmedProps {
+  orderId: string;
+  // e.g. "2 × The Tech Bros Hoodie (M) — £110.00"
+  items: string[];
+  // Formatted, e.g. "£110.00"
+  total: string;
+}
+
+export const merchOrderConfirmed = defineEmailTemplate<MerchOrderConfirmedProps>({
+  name: 'merch-order-confirmed',
+  description: 'Sent when a merch order has been paid for',
+  sample: {
+    orderId: 'recA1b2C3d4E5f6G7',
+    items: ['1 × The Tech Bros Hoodie (M) — £55.00', '2 × The Tech Bros T-shirt (L) — £50.00'],
+    total: '£105.00',
+  },
+
+  render: ({ orderId, items, total }) => ({
+    subject: 'Thanks for your order — The Tech Bros',
+    preheader: `Your order of ${total} is confirmed.`,
+    blocks: [
+      paragraph("Thanks for your order! Your payment went through and we're getting it ready."),
+      ...items.map((item) => paragraph(item)),
+      paragraph(`Total: ${total}`),
+      paragraph("We'll email you again when it ships. If anything looks wrong, just reply to this email."),
+      fineprint(`Order reference: ${orderId}`),
+    ],
+  }),
+});
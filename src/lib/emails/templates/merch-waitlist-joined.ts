@@ -0,0 +1,31 @@
+import { defineEmailTemplate, fineprint, link, paragraph } from '../render';
+
+export interface MerchWaitlistJoinedProps {
+  name: string;
+  size: string;
+  interestedIn?: string;
+  // Unlocks products before their release date (see src/lib/merch/early-access.ts)
+  earlyAccessCode: string;
+}
+
+export const merchWaitlistJoined = defineEmailTemplate<MerchWaitlistJoinedProps>({
+  name: 'merch-waitlist-joined',
+  description: 'Sent when someone joins the merch waitlist',
+  sample: { name: 'Grace Hopper', size: 'M', interestedIn: 'Hoodies and caps', earlyAccessCode: 'TTB-7KQ2-M9XD' },
+
+  render: ({ name, size, interestedIn, earlyAccessCode }) => ({
+    subject: "You're on the merch waitlist — The Tech Bros",
+    preheader: "We'll let you know the moment merch drops.",
+    greeting: name,
+    blocks: [
+      paragraph("You're on the waitlist! We'll email you as soon as our merch launches, with early access before anyone else."),
+      paragraph(
+        `Your early-access code is ${earlyAccessCode}. Enter it at checkout on `,
+        link('thetechbros.io/merch', 'https://thetechbros.io/merch'),
+        ' with this email address to shop new drops before they open to everyone.'
+      ),
+      paragraph(`We've noted your size as ${size}${interestedIn ? ` and that you're most interested in: ${interestedIn}` : ''}.`),
+      fineprint("You're receiving this because you joined the merch waitlist on thetechbros.io. We'll only email you about merch launches."),
+    ],
+  }),
+});
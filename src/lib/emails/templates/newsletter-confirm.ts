@@ -0,0 +1,36 @@
+import { useTranslations, type Locale } from '../../i18n';
+import { button, defineEmailTemplate, paragraph } from '../render';
+
+export interface NewsletterConfirmProps {
+  firstName?: string;
+  confirmUrl: string;
+  unsubscribeUrl: string;
+  // The language of the page they signed up on
+  locale?: Locale;
+}
+
+export const newsletterConfirm = defineEmailTemplate<NewsletterConfirmProps>({
+  name: 'newsletter-confirm',
+  description: 'Double opt-in link sent after a newsletter signup',
+  sample: {
+    firstName: 'Katherine',
+    confirmUrl: 'https://thetechbros.io/newsletter/confirm?token=sample',
+    unsubscribeUrl: 'https://thetechbros.io/newsletter/unsubscribe?token=sample',
+  },
+
+  render: ({ firstName, confirmUrl, unsubscribeUrl, locale = 'en' }) => {
+    const t = useTranslations(locale);
+    return {
+      subject: t('email.newsletterConfirm.subject'),
+      preheader: t('email.newsletterConfirm.preheader'),
+      greeting: firstName,
+      blocks: [
+        paragraph(t('email.newsletterConfirm.body')),
+        button(t('email.newsletterConfirm.button'), confirmUrl),
+        paragraph(t('email.newsletterConfirm.ignore')),
+      ],
+      unsubscribeUrl,
+      locale,
+    };
+  },
+});
@@ -0,0 +1,36 @@
+import type { PartnerAudience } from '../../partners';
+import { defineEmailTemplate, link, paragraph } from '../render';
+
+export interface PartnerInquiryReceivedProps {
+  name: string;
+  audience: PartnerAudience;
+  organisation: string;
+}
+
+// What the team will follow up about, per audience
+const NEXT_STEPS: Record<PartnerAudience, string> = {
+  companies: "We'll get back to you within a few working days to talk about your goals and the kind of event that would fit.",
+  investors: "We'll get back to you within a few working days to set up an intro call about our founders and the accelerator.",
+  universities: "We'll get back to you within a few working days to talk about your students and what a partnership could look like.",
+};
+
+export const partnerInquiryReceived = defineEmailTemplate<PartnerInquiryReceivedProps>({
+  name: 'partner-inquiry-received',
+  description: 'Auto-reply to a partner inquiry from a company, investor or university',
+  sample: { name: 'Ada Lovelace', audience: 'companies', organisation: 'Analytical Engines' },
+
+  render: ({ name, audience, organisation }) => ({
+    subject: 'Thanks for getting in touch — The Tech Bros',
+    preheader: "We've got your message and will be in touch soon.",
+    greeting: name,
+    blocks: [
+      paragraph(`Thank you for your interest in partnering with The Tech Bros on behalf of ${organisation}. Your message has reached the team.`),
+      paragraph(NEXT_STEPS[audience]),
+      paragraph(
+        'In the meantime, you can see what we have been up to at ',
+        link('thetechbros.io/about', 'https://thetechbros.io/about'),
+        '.'
+      ),
+    ],
+  }),
+});
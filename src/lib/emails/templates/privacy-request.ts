@@ -0,0 +1,37 @@
+import { button, defineEmailTemplate, paragraph } from '../render';
+
+export interface PrivacyRequestProps {
+  action: 'export' | 'erase';
+  confirmUrl: string;
+}
+
+export const privacyRequest = defineEmailTemplate<PrivacyRequestProps>({
+  name: 'privacy-request',
+  description: 'Confirms the address behind a data export or deletion request',
+  sample: { action: 'erase', confirmUrl: 'https://thetechbros.io/privacy/request?token=sample' },
+
+  render: ({ action, confirmUrl }) =>
+    action === 'export'
+      ? {
+          subject: 'Download your data — The Tech Bros',
+          preheader: 'Confirm your request for a copy of your data.',
+          blocks: [
+            paragraph(
+              'You asked for a copy of the personal data we hold about this email address. Use the link below to download it as a JSON file. It works once and expires in 1 hour.'
+            ),
+            button('Download my data', confirmUrl),
+            paragraph("If you didn't ask for this, you can ignore this email. Nothing is shared until the link is used."),
+          ],
+        }
+      : {
+          subject: 'Confirm deleting your data — The Tech Bros',
+          preheader: 'Confirm your request to delete your data.',
+          blocks: [
+            paragraph(
+              'You asked us to delete the personal data we hold about this email address. Use the link below to confirm. It works once and expires in 1 hour.'
+            ),
+            button('Delete my data', confirmUrl),
+            paragraph("If you didn't ask for this, you can ignore this email. Nothing is deleted until the link is used."),
+          ],
+        },
+});
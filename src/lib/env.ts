@@ -0,0 +1,30 @@
+import { ConfigurationError } from './errors';
+
+// Server-side environment access.
+// process.env is what the Vercel runtime populates; import.meta.env covers
+// `astro dev`, where Vite loads .env files but does not touch process.env.
+export function readEnv(name: string): string | undefined {
+  const value = process.env[name] ?? (import.meta.env[name] as string | undefined);
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return undefined;
+  }
+  return value;
+}
+
+// Reads every named variable, throwing a single ConfigurationError listing all that are missing
+export function requireEnv<K extends string>(names: readonly K[]): Record<K, string> {
+  const values = {} as Record<K, string>;
+  const missing: string[] = [];
+  for (const name of names) {
+    const value = readEnv(name);
+    if (value === undefined) {
+      missing.push(name);
+    } else {
+      values[name] = value;
+    }
+  }
+  if (missing.length > 0) {
+    throw new ConfigurationError(missing);
+  }
+  return values;
+}
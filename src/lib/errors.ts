@@ -0,0 +1,34 @@
+// Required environment variables are missing. The variable names are logged
+// server-side only and never returned to the client.
+export class ConfigurationError extends Error {
+  readonly missing: string[];
+
+  constructor(missing: string[]) {
+    super(`Missing required environment variables: ${missing.join(', ')}`);
+    this.name = 'ConfigurationError';
+    this.missing = missing;
+  }
+}
+
+// A third-party API (Airtable, EmailOctopus, Resend, Slack) answered with a non-2xx status
+export class UpstreamError extends Error {
+  readonly service: string;
+  readonly status: number;
+  readonly body: string;
+
+  constructor(service: string, status: number, body: string) {
+    super(`${service} responded with ${status}`);
+    this.name = 'UpstreamError';
+    this.service = service;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// A payment provider webhook whose signature is missing, doesn't match or is too old
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
@@ -0,0 +1,112 @@
+// Browser helpers for the form endpoints: rendering the field-level errors they
+// return, and the bot protection and attribution values they expect
+import { ATTRIBUTION_PARAMS, type Attribution } from '../attribution';
+import type { FieldError } from './schema';
+
+const ATTRIBUTION_KEY = 'attribution';
+
+// Used when sessionStorage is blocked: this page's attribution only
+let pageAttribution: Attribution = {};
+
+export function clearFieldErrors(form: HTMLFormElement): void {
+  form.querySelectorAll('.field-error').forEach((el) => el.remove());
+  form.querySelectorAll('[aria-invalid="true"]').forEach((el) => el.removeAttribute('aria-invalid'));
+}
+
+// Shows each error below its input. Returns false if none of the fields exist in the form,
+// so the caller can fall back to a general error message.
+export function showFieldErrors(form: HTMLFormElement, errors: FieldError[] | undefined): boolean {
+  clearFieldErrors(form);
+  let rendered = false;
+
+  for (const { field, message } of errors ?? []) {
+    const input = form.querySelector<HTMLElement>(`[name="${field}"]`);
+    if (!input) continue;
+
+    const errorEl = document.createElement('p');
+    errorEl.className = 'field-error';
+    errorEl.id = `${form.id}-${field}-error`;
+    errorEl.textContent = message;
+
+    // Checkbox groups get a single message after the group
+    const anchor = input.closest('.checkbox-group') ?? input;
+    anchor.insertAdjacentElement('afterend', errorEl);
+
+    input.setAttribute('aria-invalid', 'true');
+    input.setAttribute('aria-describedby', errorEl.id);
+    if (!rendered) {
+      input.focus();
+    }
+    rendered = true;
+  }
+
+  return rendered;
+}
+
+// Anti-spam values rendered by FormProtection.astro, to merge into the JSON body
+export function botProtectionFields(form: HTMLFormElement): Record<string, string> {
+  const formData = new FormData(form);
+  const value = (name: string) => formData.get(name)?.toString().trim() || '';
+  return {
+    company: value('company'),
+    formToken: value('formToken'),
+    captchaToken: value('cf-turnstile-response') || value('h-captcha-response') || value('captchaToken'),
+  };
+}
+
+// Stores the replacement form token from an API response and resets the CAPTCHA
+// widget, since both are single-use
+export function refreshBotProtection(form: HTMLFormElement, data: { formToken?: string }): void {
+  const tokenInput = form.querySelector<HTMLInputElement>('input[name="formToken"]');
+  if (tokenInput && data.formToken) {
+    tokenInput.value = data.formToken;
+  }
+  const widgets = window as unknown as { turnstile?: { reset(): void }; hcaptcha?: { reset(): void } };
+  if (form.querySelector('.cf-turnstile')) widgets.turnstile?.reset();
+  if (form.querySelector('.h-captcha')) widgets.hcaptcha?.reset();
+}
+
+function referringSite(): string | undefined {
+  if (!document.referrer) return undefined;
+  try {
+    const host = new URL(document.referrer).hostname;
+    return host === location.hostname ? undefined : host;
+  } catch {
+    return undefined;
+  }
+}
+
+// Called on every page (BaseLayout). UTM parameters, a ?ref= code or a link from
+// another site start a new attribution; otherwise the tab keeps the one it
+// arrived with, so a form filled in three pages later is still credited. Kept
+// in sessionStorage, so it's gone when the tab closes.
+export function captureAttribution(): void {
+  const params = new URLSearchParams(location.search);
+  const arrived: Attribution = {};
+  for (const [param, key] of Object.entries(ATTRIBUTION_PARAMS)) {
+    const value = params.get(param)?.trim();
+    if (value) arrived[key] = value;
+  }
+  const referrer = referringSite();
+  if (referrer) arrived.referrer = referrer;
+
+  pageAttribution = { ...arrived, landingPage: location.pathname };
+  try {
+    if (Object.keys(arrived).length > 0 || !sessionStorage.getItem(ATTRIBUTION_KEY)) {
+      sessionStorage.setItem(ATTRIBUTION_KEY, JSON.stringify(pageAttribution));
+    }
+  } catch {
+    // Storage blocked: credit this page only
+  }
+}
+
+// What captureAttribution kept for the tab, to send with a form as `attribution`
+export function readAttribution(): Attribution {
+  try {
+    const stored = sessionStorage.getItem(ATTRIBUTION_KEY);
+    if (stored) return JSON.parse(stored) as Attribution;
+  } catch {
+    // Blocked or unreadable
+  }
+  return pageAttribution;
+}
@@ -0,0 +1,166 @@
+import { ACCELERATOR_FORM, readDraftToken } from '../../accelerator';
+import { getDraftStore } from '../../drafts';
+import { applicationReceived, renderEmail } from '../../emails';
+import type { RecordAttachment } from '../../integrations';
+import { defineForm } from '../pipeline';
+
+// Airtable limits attachment uploads to 5 MB; 3 MB keeps the base64-encoded
+// request under Vercel's 4.5 MB body limit
+const MAX_DECK_BYTES = 3 * 1024 * 1024;
+
+// Fields are grouped by the step of the form they appear on
+export const acceleratorSchema = {
+  // Founders
+  fullName: { type: 'text', label: 'Full name', required: true },
+  email: { type: 'email', label: 'Email', required: true },
+  phoneNumber: { type: 'text', label: 'Phone number' },
+  location: { type: 'text', label: 'Location', required: true },
+  linkedinUrl: { type: 'url', label: 'LinkedIn URL' },
+  coFounders: { type: 'text', label: 'Co-founders', maxLength: 2000 },
+
+  // Team
+  teamSize: { type: 'choice', label: 'Team size', required: true, choices: { '1': '1', '2': '2', '3': '3', '4+': '4+' } },
+  fullTime: {
+    type: 'choice',
+    label: 'Full-time commitment',
+    required: true,
+    choices: { 'all': 'All founders', 'some': 'Some founders', 'not-yet': 'Not yet' },
+  },
+  teamBackground: { type: 'text', label: 'Team background', maxLength: 5000 },
+
+  // Product
+  companyName: { type: 'text', label: 'Company name', required: true },
+  oneLiner: { type: 'text', label: 'One-liner', required: true, maxLength: 200 },
+  productDescription: { type: 'text', label: 'Product description', required: true, maxLength: 5000 },
+  stage: {
+    type: 'choice',
+    label: 'Stage',
+    required: true,
+    choices: { idea: 'Idea', prototype: 'Prototype', mvp: 'MVP', launched: 'Launched', revenue: 'Revenue' },
+  },
+  website: { type: 'url', label: 'Website' },
+  demoUrl: { type: 'url', label: 'Demo URL' },
+
+  // Traction
+  traction: { type: 'text', label: 'Traction', maxLength: 5000 },
+  fundingRaised: {
+    type: 'choice',
+    label: 'Funding raised',
+    choices: { 'none': 'None', 'friends-family': 'Friends & family', 'pre-seed': 'Pre-seed', 'seed': 'Seed or later' },
+  },
+
+  // Technical background
+  fields: { type: 'list', label: 'Field(s)' },
+  mostAdvancedDegree: { type: 'choice', label: 'Most advanced degree', choices: { bsc: 'BSc', msc: 'MSc', phd: 'PhD', other: 'Other' } },
+  technicalBackground: { type: 'text', label: 'Technical background', required: true, maxLength: 5000 },
+  githubUrl: { type: 'url', label: 'GitHub URL' },
+
+  // Cohort preference
+  cohort: {
+    type: 'choice',
+    label: 'Cohort preference',
+    required: true,
+    choices: { 'cohort-2': 'Cohort 2 (Summer 2026)', 'cohort-3': 'Cohort 3 (Summer 2027)', 'either': 'Either' },
+  },
+  hackerHouse: {
+    type: 'choice',
+    label: 'Hacker house attendance',
+    required: true,
+    choices: { yes: 'Yes', no: 'No', unsure: 'Not sure yet' },
+  },
+  heardAbout: { type: 'text', label: 'How did you hear about us', maxLength: 500 },
+
+  // Attachments
+  pitchDeck: { type: 'file', label: 'Pitch deck', accept: { 'application/pdf': 'PDF' }, maxBytes: MAX_DECK_BYTES },
+  pitchDeckUrl: { type: 'url', label: 'Pitch deck URL' },
+
+  // Magic link the application was resumed from; its draft is deleted on submit
+  draftToken: { type: 'text', label: 'Draft link' },
+} as const;
+
+export const acceleratorApplication = defineForm({
+  name: ACCELERATOR_FORM,
+  schema: acceleratorSchema,
+  honeypot: 'company',
+  botProtection: true,
+  // 3 applications per IP per 10 minutes
+  rateLimit: { requests: 3, windowMs: 10 * 60 * 1000 },
+  failureMessage: 'forms.application.failed',
+
+  persist: async (values, { perform }) => {
+    const fields: Record<string, unknown> = {
+      'Full Name': values.fullName,
+      'Email': values.email,
+      'Location': values.location,
+      'Team Size': values.teamSize,
+      'Full-time': values.fullTime,
+      'Company Name': values.companyName,
+      'One-liner': values.oneLiner,
+      'Product Description': values.productDescription,
+      'Stage': values.stage,
+      'Technical Background': values.technicalBackground,
+      'Cohort Preference': values.cohort,
+      'Hacker House': values.hackerHouse,
+    };
+
+    // Optional fields - only include if provided
+    if (values.phoneNumber) fields['Phone Number'] = values.phoneNumber;
+    if (values.linkedinUrl) fields['LinkedIn URL'] = values.linkedinUrl;
+    if (values.coFounders) fields['Co-founders'] = values.coFounders;
+    if (values.teamBackground) fields['Team Background'] = values.teamBackground;
+    if (values.website) fields['Website'] = values.website;
+    if (values.demoUrl) fields['Demo URL'] = values.demoUrl;
+    if (values.traction) fields['Traction'] = values.traction;
+    if (values.fundingRaised) fields['Funding Raised'] = values.fundingRaised;
+    if (values.fields.length > 0) fields['Field(s)'] = values.fields;
+    if (values.mostAdvancedDegree) fields['Most Advanced Degree'] = values.mostAdvancedDegree;
+    if (values.githubUrl) fields['GitHub URL'] = values.githubUrl;
+    if (values.heardAbout) fields['Heard About Us'] = values.heardAbout;
+    if (values.pitchDeckUrl) fields['Pitch Deck URL'] = values.pitchDeckUrl;
+
+    const attachments: RecordAttachment[] = values.pitchDeck ? [{ field: 'Pitch Deck', ...values.pitchDeck }] : [];
+
+    await perform({ type: 'createRecord', table: 'accelerator', fields, attachments });
+  },
+
+  notify: [
+    async (values, { integrations, submittedAt }) => {
+      const deck = values.pitchDeck ? `Attached (${values.pitchDeck.filename})` : values.pitchDeckUrl || 'Not provided';
+      await integrations.chat.notify(
+        'accelerator',
+        `🚀 New accelerator application received:
+*Company:* ${values.companyName}
+*One-liner:* ${values.oneLiner}
+*Founder:* ${values.fullName} (${values.email})
+*Location:* ${values.location}
+*Team Size:* ${values.teamSize}
+*Stage:* ${values.stage}
+*Cohort:* ${values.cohort}
+*Pitch Deck:* ${deck}
+*Submitted:* ${submittedAt.toISOString()}`
+      );
+    },
+
+    async (values, { integrations, request }) => {
+      if (!integrations.email) return;
+
+      await integrations.email.send({
+        to: values.email,
+        ...renderEmail(applicationReceived, {
+          name: values.fullName,
+          programme: 'accelerator',
+          company: values.companyName,
+          statusUrl: `${new URL(request.url).origin}/apply/status`,
+        }),
+      });
+    },
+
+    // The draft has served its purpose once the application is in
+    async (values) => {
+      const draftId = readDraftToken(values.draftToken);
+      if (draftId) {
+        await getDraftStore().remove(draftId);
+      }
+    },
+  ],
+});
@@ -0,0 +1,58 @@
+import { ACCELERATOR_FORM, readDraftToken, sendDraftLink } from '../../accelerator';
+import { DRAFT_TTL_MS, getDraftStore, type Draft } from '../../drafts';
+import { ConfigurationError } from '../../errors';
+import { defineForm } from '../pipeline';
+import type { FormSchema } from '../schema';
+import { acceleratorSchema } from './accelerator-application';
+
+// Everything in the application is optional in a draft except the email the
+// magic link goes to. Files aren't kept; applicants re-attach them on submit.
+const draftFields: FormSchema = {};
+for (const [field, rule] of Object.entries(acceleratorSchema)) {
+  if (rule.type !== 'file') {
+    draftFields[field] = { ...rule, required: false };
+  }
+}
+
+export const acceleratorDraft = defineForm({
+  name: 'accelerator-draft',
+  schema: {
+    ...draftFields,
+    email: { type: 'email', label: 'Email', required: true },
+    step: { type: 'text', label: 'Step' },
+    draftToken: { type: 'text', label: 'Draft link' },
+  },
+  honeypot: 'company',
+  // 5 saves per IP per 10 minutes; each one sends an email
+  rateLimit: { requests: 5, windowMs: 10 * 60 * 1000 },
+  successMessage: 'forms.acceleratorDraft.success',
+  failureMessage: 'forms.acceleratorDraft.failed',
+
+  persist: async ({ email, step, draftToken, ...answers }, { integrations, request, submittedAt }) => {
+    if (!integrations.email) {
+      throw new ConfigurationError(['RESEND_API_KEY', 'FROM_EMAIL']);
+    }
+
+    const values: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(answers)) {
+      if (value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+        values[field] = value;
+      }
+    }
+
+    // Saving again from a magic link updates that draft; otherwise start a new one
+    const existingId = readDraftToken(draftToken);
+    const draft: Draft = {
+      id: existingId ?? crypto.randomUUID(),
+      form: ACCELERATOR_FORM,
+      email,
+      values,
+      step: Math.max(Number.parseInt(step ?? '0', 10) || 0, 0),
+      updatedAt: submittedAt.toISOString(),
+      expiresAt: submittedAt.getTime() + DRAFT_TTL_MS,
+    };
+
+    await getDraftStore().save(draft);
+    await sendDraftLink(integrations.email, new URL(request.url).origin, draft);
+  },
+});
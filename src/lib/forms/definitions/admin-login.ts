@@ -0,0 +1,26 @@
+import { isAdminEmail, sendAdminLoginLink } from '../../admin/session';
+import { ConfigurationError } from '../../errors';
+import { defineForm } from '../pipeline';
+
+export const adminLogin = defineForm({
+  name: 'admin-login',
+  schema: {
+    email: { type: 'email', label: 'Email', required: true },
+  },
+  honeypot: 'company',
+  botProtection: true,
+  // 5 requests per IP per 10 minutes; each one may send an email
+  rateLimit: { requests: 5, windowMs: 10 * 60 * 1000 },
+  // Same answer for every address, so the form doesn't reveal who is on the team
+  successMessage: 'forms.adminLogin.success',
+  failureMessage: 'forms.signInLink.failed',
+
+  persist: async ({ email }, { integrations, request }) => {
+    if (!isAdminEmail(email)) return;
+    if (!integrations.email) {
+      throw new ConfigurationError(['RESEND_API_KEY', 'FROM_EMAIL']);
+    }
+
+    await sendAdminLoginLink(integrations.email, new URL(request.url).origin, email);
+  },
+});
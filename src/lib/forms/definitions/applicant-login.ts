@@ -0,0 +1,30 @@
+import { sendLoginLink } from '../../applicant-session';
+import { findApplications } from '../../applications';
+import { ConfigurationError } from '../../errors';
+import { defineForm } from '../pipeline';
+
+export const applicantLogin = defineForm({
+  name: 'applicant-login',
+  schema: {
+    email: { type: 'email', label: 'Email', required: true },
+  },
+  honeypot: 'company',
+  botProtection: true,
+  // 5 requests per IP per 10 minutes; each one may send an email
+  rateLimit: { requests: 5, windowMs: 10 * 60 * 1000 },
+  // Same answer whether or not we know the address, so the form can't be used
+  // to find out who has applied
+  successMessage: 'forms.applicantLogin.success',
+  failureMessage: 'forms.signInLink.failed',
+
+  persist: async ({ email }, { integrations, request }) => {
+    if (!integrations.email) {
+      throw new ConfigurationError(['RESEND_API_KEY', 'FROM_EMAIL']);
+    }
+
+    const applications = await findApplications(integrations.records, email);
+    if (applications.length > 0) {
+      await sendLoginLink(integrations.email, new URL(request.url).origin, email);
+    }
+  },
+});
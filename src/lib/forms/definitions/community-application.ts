@@ -0,0 +1,102 @@
+import { attributionFields, mailingListAttributionFields } from '../../attribution';
+import { communityContact } from '../../community-newsletter';
+import { emailKey } from '../../dedupe';
+import { applicationReceived, renderEmail } from '../../emails';
+import { translatedPath } from '../../i18n';
+import { requestSubscription } from '../../newsletter';
+import { defineForm } from '../pipeline';
+
+export const communityApplication = defineForm({
+  name: 'community-apply',
+  schema: {
+    fullName: { type: 'text', label: 'Full name', labelKey: 'field.fullName', required: true },
+    email: { type: 'email', label: 'Email', labelKey: 'field.email', required: true },
+    linkedinUrl: { type: 'text', label: 'LinkedIn URL' },
+    personalWebsite: { type: 'text', label: 'Personal website' },
+    phoneNumber: { type: 'text', label: 'Phone number' },
+    location: { type: 'text', label: 'Location' },
+    fields: { type: 'list', label: 'Field(s)' },
+    mostAdvancedDegree: { type: 'text', label: 'Most advanced degree' },
+    whyTTB: { type: 'text', label: 'Why TTB', maxLength: 5000 },
+    addToMailingList: { type: 'flag', label: 'Add to mailing list' },
+  },
+  honeypot: 'company',
+  botProtection: true,
+  // 3 applications per IP per 10 minutes
+  rateLimit: { requests: 3, windowMs: 10 * 60 * 1000 },
+  failureMessage: 'forms.application.failed',
+  // Re-applying is added to the first application's history; Slack hears about it once a day
+  dedupe: { key: (values) => emailKey(values.email), windowMs: 24 * 60 * 60 * 1000 },
+
+  persist: async (values, { perform, submittedAt, attribution }) => {
+    const fields: Record<string, unknown> = {
+      'Full Name': values.fullName,
+      'Email': values.email,
+      'Add to Mailing List': values.addToMailingList,
+      ...attributionFields(attribution),
+    };
+
+    // Optional fields - only include if provided
+    if (values.linkedinUrl) fields['LinkedIn URL'] = values.linkedinUrl;
+    if (values.personalWebsite) fields['Personal Website'] = values.personalWebsite;
+    if (values.phoneNumber) fields['Phone Number'] = values.phoneNumber;
+    if (values.location) fields['Location'] = values.location;
+    if (values.mostAdvancedDegree) fields['Most Advanced Degree'] = values.mostAdvancedDegree;
+    if (values.whyTTB) fields['Why TTB'] = values.whyTTB;
+    if (values.fields.length > 0) fields['Field(s)'] = values.fields;
+
+    await perform({
+      type: 'upsertRecord',
+      table: 'community',
+      key: emailKey(values.email),
+      fields,
+      submittedAt: submittedAt.toISOString(),
+    });
+  },
+
+  notify: [
+    async (values, { integrations, submittedAt, repeat }) => {
+      if (repeat) return;
+
+      const fieldsDisplay = values.fields.length > 0 ? values.fields.join(', ') : 'Not provided';
+      await integrations.chat.notify(
+        'community',
+        `New community application received:
+*Full Name:* ${values.fullName}
+*Email:* ${values.email}
+*Location:* ${values.location || 'Not provided'}
+*LinkedIn URL:* ${values.linkedinUrl || 'Not provided'}
+*Field(s):* ${fieldsDisplay}
+*Most Advanced Degree:* ${values.mostAdvancedDegree || 'Not provided'}
+*Add to Mailing List:* ${values.addToMailingList ? 'Yes' : 'No'}
+*Submitted:* ${submittedAt.toISOString()}`
+      );
+    },
+
+    // Ticking "Add to Mailing List" starts the newsletter's double opt-in. It
+    // runs after the application is saved, so a mailing list problem never
+    // loses an application; the reconciliation run picks up anyone missed.
+    async (values, { integrations, request, perform, attribution, locale }) => {
+      if (!values.addToMailingList) return;
+
+      const contact = communityContact(values.fullName, values.email);
+      Object.assign(contact.fields, mailingListAttributionFields(attribution));
+      await requestSubscription(integrations, new URL(request.url).origin, contact, perform, locale);
+    },
+
+    // In the language they applied in
+    async (values, { integrations, request, locale }) => {
+      if (!integrations.email) return;
+
+      await integrations.email.send({
+        to: values.email,
+        ...renderEmail(applicationReceived, {
+          name: values.fullName,
+          programme: 'community',
+          statusUrl: `${new URL(request.url).origin}${translatedPath('/apply/status', locale)}`,
+          locale,
+        }),
+      });
+    },
+  ],
+});
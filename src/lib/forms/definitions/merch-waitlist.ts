@@ -0,0 +1,79 @@
+import { attributionFields } from '../../attribution';
+import { sizeMap } from '../../content/constants';
+import { emailKey } from '../../dedupe';
+import { merchWaitlistJoined, renderEmail } from '../../emails';
+import { earlyAccessCode } from '../../merch/early-access';
+import { defineForm } from '../pipeline';
+
+// Size preference is normalized to the Airtable label (e.g. 'xl' -> 'XL')
+export { sizeMap };
+
+export const merchWaitlist = defineForm({
+  name: 'merch-waitlist',
+  schema: {
+    name: { type: 'text', label: 'Name', required: true },
+    email: { type: 'email', label: 'Email', required: true },
+    sizePreference: { type: 'choice', label: 'Size preference', required: true, choices: sizeMap },
+    interestedIn: { type: 'text', label: 'Interested in' },
+  },
+  honeypot: 'company',
+  botProtection: true,
+  // 5 signups per IP per minute
+  rateLimit: { requests: 5, windowMs: 60 * 1000 },
+  // Joining again is added to the existing signup's history; Slack hears about it once a day
+  dedupe: { key: (values) => emailKey(values.email), windowMs: 24 * 60 * 60 * 1000 },
+
+  persist: async (values, { perform, submittedAt, attribution }) => {
+    const fields: Record<string, unknown> = {
+      'Name': values.name,
+      'Email': values.email,
+      'Size Preference': values.sizePreference,
+      'Source': 'merch_page',
+      'Early Access Code': earlyAccessCode(values.email),
+      // Set on new signups only: joining again leaves an opt-out in place
+      'Opted Out': false,
+      ...attributionFields(attribution),
+    };
+
+    if (values.interestedIn) {
+      fields['Interested In'] = values.interestedIn;
+    }
+
+    await perform({
+      type: 'upsertRecord',
+      table: 'merch',
+      key: emailKey(values.email),
+      fields,
+      submittedAt: submittedAt.toISOString(),
+    });
+  },
+
+  notify: [
+    async (values, { integrations, repeat }) => {
+      if (repeat) return;
+
+      await integrations.chat.notify(
+        'merch',
+        `🧢 New merch waitlist signup
+Name: ${values.name}
+Email: ${values.email}
+Size: ${values.sizePreference}
+Interested in: ${values.interestedIn || '—'}`
+      );
+    },
+
+    async (values, { integrations }) => {
+      if (!integrations.email) return;
+
+      await integrations.email.send({
+        to: values.email,
+        ...renderEmail(merchWaitlistJoined, {
+          name: values.name,
+          size: values.sizePreference,
+          interestedIn: values.interestedIn,
+          earlyAccessCode: earlyAccessCode(values.email),
+        }),
+      });
+    },
+  ],
+});
@@ -0,0 +1,32 @@
+import { mailingListAttributionFields } from '../../attribution';
+import { requestSubscription } from '../../newsletter';
+import { defineForm } from '../pipeline';
+
+export const newsletterSignup = defineForm({
+  name: 'newsletter-subscribe',
+  schema: {
+    email: { type: 'email', label: 'Email', labelKey: 'field.email', required: true },
+    firstName: { type: 'text', label: 'First name', labelKey: 'field.firstName', required: true },
+    lastName: { type: 'text', label: 'Last name', labelKey: 'field.lastName', required: true },
+  },
+  honeypot: 'company',
+  botProtection: true,
+  // Rate limit: 5 requests per IP per minute
+  rateLimit: { requests: 5, windowMs: 60 * 1000 },
+  successMessage: 'forms.newsletter.success',
+
+  // Double opt-in: add as pending, then email the confirmation link
+  persist: async (values, { perform, integrations, request, attribution, locale }) => {
+    const contact = {
+      email: values.email,
+      fields: {
+        FirstName: values.firstName,
+        LastName: values.lastName,
+        SignupSource: 'website_newsletter',
+        ...mailingListAttributionFields(attribution),
+      },
+    };
+
+    await requestSubscription(integrations, new URL(request.url).origin, contact, perform, locale);
+  },
+});
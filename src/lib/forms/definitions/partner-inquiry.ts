@@ -0,0 +1,166 @@
+import { partnerInquiryReceived, renderEmail } from '../../emails';
+import {
+  AUDIENCE_LABELS,
+  CHEQUE_SIZES,
+  EVENT_FORMATS,
+  INVESTMENT_STAGES,
+  PARTNER_CHANNELS,
+  SPONSORSHIP_TIERS,
+  UNIVERSITY_PARTNERSHIPS,
+  type PartnerAudience,
+} from '../../partners';
+import { defineForm, type SubmissionContext } from '../pipeline';
+import type { FormSchema, SchemaValues } from '../schema';
+
+// One form per audience, all posted to /api/partner-inquiry with an `audience`
+// field. They share the contact questions and differ in what else they ask.
+
+const CONTACT_FIELDS = {
+  name: { type: 'text', label: 'Name', required: true },
+  email: { type: 'email', label: 'Email', required: true },
+  organisation: { type: 'text', label: 'Organisation', required: true },
+  role: { type: 'text', label: 'Role' },
+  website: { type: 'url', label: 'Website' },
+  message: { type: 'text', label: 'Message', maxLength: 5000 },
+} as const satisfies FormSchema;
+
+type ContactValues = SchemaValues<typeof CONTACT_FIELDS>;
+
+// Audience answers, by the field name they're stored under
+type Answers = Record<string, string | undefined>;
+
+const shared = {
+  honeypot: 'company',
+  botProtection: true,
+  // 3 inquiries per IP per 10 minutes
+  rateLimit: { requests: 3, windowMs: 10 * 60 * 1000 },
+  successMessage: 'forms.partnerInquiry.success',
+  failureMessage: 'forms.partnerInquiry.failed',
+} as const;
+
+async function saveInquiry(
+  audience: PartnerAudience,
+  values: ContactValues,
+  answers: Answers,
+  { perform }: SubmissionContext
+): Promise<void> {
+  const fields: Record<string, unknown> = {
+    'Audience': AUDIENCE_LABELS[audience],
+    'Name': values.name,
+    'Email': values.email,
+    'Organisation': values.organisation,
+  };
+
+  // Optional fields - only include if provided
+  if (values.role) fields['Role'] = values.role;
+  if (values.website) fields['Website'] = values.website;
+  if (values.message) fields['Message'] = values.message;
+  for (const [field, answer] of Object.entries(answers)) {
+    if (answer) fields[field] = answer;
+  }
+
+  await perform({ type: 'createRecord', table: 'partners', fields });
+}
+
+async function notifyTeam(
+  audience: PartnerAudience,
+  values: ContactValues,
+  answers: Answers,
+  { integrations, submittedAt }: SubmissionContext
+): Promise<void> {
+  const lines = Object.entries(answers).map(([field, answer]) => `*${field}:* ${answer || 'Not provided'}`);
+  await integrations.chat.notify(
+    PARTNER_CHANNELS[audience],
+    `🤝 New partner inquiry (${AUDIENCE_LABELS[audience]})
+*Name:* ${values.name}
+*Email:* ${values.email}
+*Organisation:* ${values.organisation}
+*Role:* ${values.role || 'Not provided'}
+${lines.join('\n')}
+*Message:* ${values.message || 'Not provided'}
+*Submitted:* ${submittedAt.toISOString()}`
+  );
+}
+
+async function sendAutoReply(
+  audience: PartnerAudience,
+  values: ContactValues,
+  { integrations }: SubmissionContext
+): Promise<void> {
+  if (!integrations.email) return;
+
+  await integrations.email.send({
+    to: values.email,
+    ...renderEmail(partnerInquiryReceived, { name: values.name, audience, organisation: values.organisation }),
+  });
+}
+
+const COMPANY_FIELDS = {
+  ...CONTACT_FIELDS,
+  sponsorshipTier: { type: 'choice', label: 'Sponsorship tier', required: true, choices: SPONSORSHIP_TIERS },
+  eventFormat: { type: 'choice', label: 'Event format', choices: EVENT_FORMATS },
+  timeline: { type: 'text', label: 'Timeline', maxLength: 200 },
+} as const satisfies FormSchema;
+
+const companyAnswers = (values: SchemaValues<typeof COMPANY_FIELDS>): Answers => ({
+  'Sponsorship Tier': values.sponsorshipTier,
+  'Event Format': values.eventFormat,
+  'Timeline': values.timeline,
+});
+
+export const companyInquiry = defineForm({
+  name: 'partner-inquiry-companies',
+  schema: COMPANY_FIELDS,
+  ...shared,
+  persist: (values, context) => saveInquiry('companies', values, companyAnswers(values), context),
+  notify: [
+    (values, context) => notifyTeam('companies', values, companyAnswers(values), context),
+    (values, context) => sendAutoReply('companies', values, context),
+  ],
+});
+
+const INVESTOR_FIELDS = {
+  ...CONTACT_FIELDS,
+  chequeSize: { type: 'choice', label: 'Typical cheque size', required: true, choices: CHEQUE_SIZES },
+  investmentStage: { type: 'choice', label: 'Stage', choices: INVESTMENT_STAGES },
+  focusAreas: { type: 'text', label: 'Focus areas', maxLength: 500 },
+} as const satisfies FormSchema;
+
+const investorAnswers = (values: SchemaValues<typeof INVESTOR_FIELDS>): Answers => ({
+  'Cheque Size': values.chequeSize,
+  'Investment Stage': values.investmentStage,
+  'Focus Areas': values.focusAreas,
+});
+
+export const investorInquiry = defineForm({
+  name: 'partner-inquiry-investors',
+  schema: INVESTOR_FIELDS,
+  ...shared,
+  persist: (values, context) => saveInquiry('investors', values, investorAnswers(values), context),
+  notify: [
+    (values, context) => notifyTeam('investors', values, investorAnswers(values), context),
+    (values, context) => sendAutoReply('investors', values, context),
+  ],
+});
+
+const UNIVERSITY_FIELDS = {
+  ...CONTACT_FIELDS,
+  department: { type: 'text', label: 'Department', required: true, maxLength: 200 },
+  partnershipType: { type: 'choice', label: 'Partnership type', choices: UNIVERSITY_PARTNERSHIPS },
+} as const satisfies FormSchema;
+
+const universityAnswers = (values: SchemaValues<typeof UNIVERSITY_FIELDS>): Answers => ({
+  'Department': values.department,
+  'Partnership Type': values.partnershipType,
+});
+
+export const universityInquiry = defineForm({
+  name: 'partner-inquiry-universities',
+  schema: UNIVERSITY_FIELDS,
+  ...shared,
+  persist: (values, context) => saveInquiry('universities', values, universityAnswers(values), context),
+  notify: [
+    (values, context) => notifyTeam('universities', values, universityAnswers(values), context),
+    (values, context) => sendAutoReply('universities', values, context),
+  ],
+});
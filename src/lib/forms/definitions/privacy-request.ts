@@ -0,0 +1,34 @@
+import { auditSubject, getAuditLog } from '../../audit-log';
+import { ConfigurationError } from '../../errors';
+import { sendPrivacyRequestLink, type PrivacyAction } from '../../privacy/requests';
+import { defineForm } from '../pipeline';
+
+export const privacyRequestForm = defineForm({
+  name: 'privacy-request',
+  schema: {
+    email: { type: 'email', label: 'Email', required: true },
+    action: { type: 'choice', label: 'Request', required: true, choices: { export: 'export', erase: 'erase' } },
+  },
+  honeypot: 'company',
+  botProtection: true,
+  // 3 requests per IP per 10 minutes; each one sends an email
+  rateLimit: { requests: 3, windowMs: 10 * 60 * 1000 },
+  // Same answer whether or not we hold anything, so the form doesn't reveal who we know
+  successMessage: 'forms.privacyRequest.success',
+  failureMessage: 'forms.privacyRequest.failed',
+
+  persist: async ({ email, action }, { integrations, request }) => {
+    if (!integrations.email) {
+      throw new ConfigurationError(['RESEND_API_KEY', 'FROM_EMAIL']);
+    }
+
+    // The schema only accepts the two actions
+    await sendPrivacyRequestLink(integrations.email, new URL(request.url).origin, email, action as PrivacyAction);
+    await getAuditLog().append({
+      at: new Date().toISOString(),
+      action: 'requested',
+      subject: auditSubject(email),
+      details: { action },
+    });
+  },
+});
@@ -0,0 +1,239 @@
+import type { APIRoute } from 'astro';
+import type { Attribution } from '../attribution';
+import { getCaptchaVerifier, type CaptchaVerifier } from '../bot-protection/captcha';
+import { consumeFormToken, formTokensEnabled, inspectFormToken, issueFormToken } from '../bot-protection/form-token';
+import { isRepeatSubmission } from '../dedupe';
+import { ConfigurationError, UpstreamError } from '../errors';
+import { getClientIp, isSameOrigin, jsonResponse, logError, readJsonObject } from '../http';
+import { requestLocale, translate, type Locale, type MessageKey } from '../i18n';
+import { getIntegrations, type Integrations } from '../integrations';
+import { performDurably, type OutboxOperation } from '../outbox';
+import { checkRateLimit, rateLimitHeaders, type RateLimitPolicy } from '../rate-limit';
+import { countReferral, resolveAttribution } from '../referrals';
+import { validateSubmission, type FieldError, type FormSchema, type SchemaValues } from './schema';
+
+// Every form endpoint runs the same pipeline:
+//   same-origin check -> rate limit -> parse JSON -> honeypot -> form token
+//   -> validate -> CAPTCHA -> persist -> count referral -> notify -> respond
+// and answers with one envelope: { success: true }, { success: true, queued: true, message }
+// when a write was parked in the outbox, or { success: false, error, fieldErrors? }.
+// Messages are in the language of the page the form was sent from.
+
+export interface SubmissionEnvelope {
+  success: boolean;
+  queued?: boolean;
+  message?: string;
+  error?: string;
+  fieldErrors?: FieldError[];
+  // Replacement form token for forms with bot protection
+  formToken?: string;
+}
+
+export interface SubmissionContext {
+  request: Request;
+  integrations: Integrations;
+  // Runs an upstream write, parking it in the outbox for retry if the upstream fails
+  perform: (operation: OutboxOperation) => Promise<void>;
+  clientIp: string;
+  submittedAt: Date;
+  // The submitter's language, for emails sent on their behalf
+  locale: Locale;
+  // Campaign, referring site and referral code the form sent as `attribution`;
+  // empty when it sent none. Codes the team didn't create are dropped.
+  attribution: Attribution;
+  // Set before the notify steps: the same person already sent this form within
+  // the form's dedupe window, so the team has been told once already
+  repeat: boolean;
+}
+
+export type SubmissionStep<S extends FormSchema> = (
+  values: SchemaValues<S>,
+  context: SubmissionContext
+) => Promise<void>;
+
+export interface FormDefinition<S extends FormSchema> {
+  // Identifies the form in logs and rate-limit keys
+  name: string;
+  schema: S;
+  // Hidden field that only bots fill in; a non-empty value gets a silent success
+  honeypot?: string;
+  // Require a signed form token (see FormProtection.astro) and, when configured, a CAPTCHA
+  botProtection?: boolean;
+  // Requests allowed per client IP; every response then carries X-RateLimit-* headers
+  rateLimit?: RateLimitPolicy;
+  // Identifies repeat submissions from the same person (see SubmissionContext.repeat)
+  dedupe?: { key: (values: SchemaValues<S>) => string; windowMs: number };
+  persist: SubmissionStep<S>;
+  // Best-effort follow-ups (Slack, confirmation emails); failures are logged and never affect the response
+  notify?: SubmissionStep<S>[];
+  // Shown to the user on success, e.g. "check your inbox"
+  successMessage?: MessageKey;
+  // Error shown to the user when persisting fails upstream
+  failureMessage?: MessageKey;
+}
+
+export function defineForm<const S extends FormSchema>(definition: FormDefinition<S>): FormDefinition<S> {
+  return definition;
+}
+
+export function createSubmissionHandler<S extends FormSchema>(definition: FormDefinition<S>): APIRoute {
+  return async ({ request, url }) => {
+    let headers: Record<string, string> = {};
+    // Until the body says otherwise, the language of the page the request came from
+    let locale = requestLocale(request);
+    const t = (key: MessageKey) => translate(locale, key);
+
+    // Every response carries the rate-limit headers and, for protected forms,
+    // a fresh form token so the page can submit again without reloading
+    const reply = (status: number, envelope: SubmissionEnvelope): Response => {
+      if (definition.botProtection && formTokensEnabled()) {
+        envelope.formToken = issueFormToken(definition.name);
+      }
+      return jsonResponse(envelope, status, headers);
+    };
+    const failure = (status: number, error: string, fieldErrors?: FieldError[]): Response =>
+      reply(status, fieldErrors ? { success: false, error, fieldErrors } : { success: false, error });
+    // Bots get a success response so they have no reason to retry
+    const silentSuccess = (): Response => reply(200, { success: true });
+
+    if (!isSameOrigin(request, url)) {
+      return failure(403, t('forms.forbidden'));
+    }
+
+    const clientIp = getClientIp(request);
+    if (definition.rateLimit) {
+      const limit = await checkRateLimit(`${definition.name}:${clientIp}`, definition.rateLimit);
+      headers = rateLimitHeaders(limit);
+      if (!limit.allowed) {
+        return failure(429, t('forms.tooManyRequests'));
+      }
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await readJsonObject(request);
+    } catch {
+      return failure(400, t('forms.invalidJson'));
+    }
+    locale = requestLocale(request, body.locale);
+
+    if (definition.honeypot) {
+      const trap = body[definition.honeypot];
+      if (typeof trap === 'string' && trap.trim().length > 0) {
+        return silentSuccess();
+      }
+    }
+
+    let formToken: ReturnType<typeof inspectFormToken> = 'valid';
+    if (definition.botProtection) {
+      formToken = inspectFormToken(definition.name, body.formToken);
+      if (formToken === 'too-fast') {
+        return silentSuccess();
+      }
+      if (formToken === 'missing' || formToken === 'invalid' || formToken === 'expired') {
+        return failure(400, t('forms.expired'));
+      }
+    }
+
+    const validation = validateSubmission(definition.schema, body, locale);
+    if (!validation.ok) {
+      return failure(400, validation.errors[0].message, validation.errors);
+    }
+
+    if (definition.botProtection) {
+      let captcha: CaptchaVerifier | undefined;
+      try {
+        captcha = getCaptchaVerifier();
+      } catch (error) {
+        if (!(error instanceof ConfigurationError)) throw error;
+        logError(definition.name, 'Error setting up CAPTCHA', error);
+        return failure(500, t('forms.configuration'));
+      }
+      const captchaToken = typeof body.captchaToken === 'string' ? body.captchaToken : undefined;
+      if (captcha && !(await captcha.verify(captchaToken, clientIp))) {
+        return failure(400, t('forms.captcha'));
+      }
+
+      // Only consumed once the submission is otherwise acceptable, so fixing a
+      // validation error doesn't require a new token
+      if (typeof formToken === 'object') {
+        let fresh: boolean;
+        try {
+          fresh = await consumeFormToken(definition.name, formToken);
+        } catch (error) {
+          if (!(error instanceof ConfigurationError)) throw error;
+          logError(definition.name, 'Error consuming form token', error);
+          return failure(500, t('forms.configuration'));
+        }
+        if (!fresh) {
+          return silentSuccess();
+        }
+      }
+    }
+
+    const integrations = getIntegrations();
+    let queued = false;
+    const context: SubmissionContext = {
+      request,
+      integrations,
+      perform: async (operation) => {
+        if ((await performDurably(integrations, definition.name, operation)) === 'queued') {
+          queued = true;
+        }
+      },
+      clientIp,
+      submittedAt: new Date(),
+      locale,
+      attribution: await resolveAttribution(definition.name, body.attribution),
+      repeat: false,
+    };
+
+    try {
+      await definition.persist(validation.values, context);
+    } catch (error) {
+      logError(definition.name, 'Error persisting submission', error);
+      if (error instanceof ConfigurationError) {
+        return failure(500, t('forms.configuration'));
+      }
+      if (error instanceof UpstreamError) {
+        return failure(502, t(definition.failureMessage ?? 'forms.failed'));
+      }
+      return failure(500, t('forms.internal'));
+    }
+
+    if (definition.dedupe) {
+      context.repeat = await isRepeatSubmission(
+        definition.name,
+        definition.dedupe.key(validation.values),
+        definition.dedupe.windowMs
+      );
+    }
+
+    // Resending within the form's dedupe window doesn't count as another signup
+    if (context.attribution.ref && !context.repeat) {
+      await countReferral(definition.name, context.attribution.ref);
+    }
+
+    // Notifications are awaited so serverless runtimes don't freeze them mid-flight
+    for (const notify of definition.notify ?? []) {
+      try {
+        await notify(validation.values, context);
+      } catch (error) {
+        logError(definition.name, 'Notification failed', error);
+      }
+    }
+
+    if (queued) {
+      return reply(202, {
+        success: true,
+        queued: true,
+        message: t('forms.queued'),
+      });
+    }
+
+    return reply(
+      200,
+      definition.successMessage ? { success: true, message: t(definition.successMessage) } : { success: true }
+    );
+  };
+}
@@ -0,0 +1,228 @@
+// Declarative field schemas for form submissions.
+//
+// Each form describes its fields once; `validateSubmission` turns an untrusted
+// JSON body into trimmed, typed values or a list of field-level errors that the
+// front-end forms render next to the matching input, in the submitter's language.
+
+import { DEFAULT_LOCALE, useTranslations, type Locale, type MessageKey, type Translate } from '../i18n';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface BaseRule {
+  label: string;
+  // The label in the dictionaries, for forms on translated pages; errors use
+  // the English label otherwise
+  labelKey?: MessageKey;
+  required?: boolean;
+}
+
+// Free text. Values longer than maxLength are truncated rather than rejected.
+export interface TextRule extends BaseRule {
+  type: 'text';
+  maxLength?: number;
+}
+
+export interface EmailRule extends BaseRule {
+  type: 'email';
+}
+
+// One of a fixed set of options. Keys are matched case-insensitively and the
+// mapped value is what gets stored (e.g. 'xl' -> 'XL').
+export interface ChoiceRule extends BaseRule {
+  type: 'choice';
+  choices: Record<string, string>;
+}
+
+// A single string or an array of strings, always normalised to an array
+export interface ListRule extends BaseRule {
+  type: 'list';
+}
+
+// Boolean that defaults to false unless explicitly `true`
+export interface FlagRule extends BaseRule {
+  type: 'flag';
+}
+
+// An absolute http(s) link
+export interface UrlRule extends BaseRule {
+  type: 'url';
+}
+
+// A file sent as { filename, contentType, data } with base64 data. `accept`
+// maps allowed content types to the names shown in errors (e.g. 'application/pdf' -> 'PDF').
+export interface FileRule extends BaseRule {
+  type: 'file';
+  accept: Record<string, string>;
+  maxBytes: number;
+}
+
+export interface UploadedFile {
+  filename: string;
+  contentType: string;
+  data: string;
+}
+
+export type FieldRule = TextRule | EmailRule | ChoiceRule | ListRule | FlagRule | UrlRule | FileRule;
+
+export type FormSchema = Record<string, FieldRule>;
+
+type RuleValue<R extends FieldRule> = R extends ListRule
+  ? string[]
+  : R extends FlagRule
+    ? boolean
+    : R extends FileRule
+      ? UploadedFile | (R extends { required: true } ? never : undefined)
+      : R extends { required: true }
+        ? string
+        : string | undefined;
+
+export type SchemaValues<S extends FormSchema> = { [K in keyof S]: RuleValue<S[K]> };
+
+export type ValidationResult<S extends FormSchema> =
+  | { ok: true; values: SchemaValues<S> }
+  | { ok: false; errors: FieldError[] };
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+function toTrimmedString(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return undefined;
+}
+
+export function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function fieldLabel(rule: BaseRule, t: Translate): string {
+  return rule.labelKey ? t(rule.labelKey) : rule.label;
+}
+
+function validateFile(rule: FileRule, raw: unknown, t: Translate): { value: UploadedFile | undefined; error?: string } {
+  if (raw === undefined || raw === null || raw === '') {
+    return rule.required
+      ? { value: undefined, error: t('validation.required', { label: fieldLabel(rule, t) }) }
+      : { value: undefined };
+  }
+
+  const file = raw as Partial<Record<keyof UploadedFile, unknown>>;
+  if (
+    typeof file !== 'object' ||
+    typeof file.filename !== 'string' ||
+    typeof file.contentType !== 'string' ||
+    typeof file.data !== 'string'
+  ) {
+    return { value: undefined, error: t('validation.invalid', { label: fieldLabel(rule, t).toLowerCase() }) };
+  }
+
+  if (!rule.accept[file.contentType]) {
+    const types = Array.from(new Set(Object.values(rule.accept))).join(' or ');
+    return { value: undefined, error: t('validation.fileType', { label: fieldLabel(rule, t), types }) };
+  }
+
+  const size = Buffer.from(file.data, 'base64').length;
+  if (size === 0 || size > rule.maxBytes) {
+    const limit = Math.floor(rule.maxBytes / (1024 * 1024));
+    return { value: undefined, error: t('validation.fileSize', { label: fieldLabel(rule, t), limit }) };
+  }
+
+  // Keep the base name only; browsers on some platforms send full paths
+  const filename = file.filename.split(/[\\/]/).pop()?.trim().substring(0, 200) || 'attachment';
+  return { value: { filename, contentType: file.contentType, data: file.data } };
+}
+
+function validateField(
+  rule: FieldRule,
+  raw: unknown,
+  t: Translate
+): { value: string | string[] | boolean | UploadedFile | undefined; error?: string } {
+  switch (rule.type) {
+    case 'flag':
+      return { value: raw === true };
+
+    case 'file':
+      return validateFile(rule, raw, t);
+
+    case 'list': {
+      const items = Array.isArray(raw) ? raw : raw === undefined || raw === null ? [] : [raw];
+      const values = items
+        .map((item) => toTrimmedString(item))
+        .filter((item): item is string => item !== undefined);
+      if (rule.required && values.length === 0) {
+        return { value: values, error: t('validation.required', { label: fieldLabel(rule, t) }) };
+      }
+      return { value: values };
+    }
+
+    default: {
+      const text = toTrimmedString(raw);
+      if (text === undefined) {
+        return rule.required
+          ? { value: undefined, error: t('validation.required', { label: fieldLabel(rule, t) }) }
+          : { value: undefined };
+      }
+
+      if (rule.type === 'email') {
+        return isValidEmail(text) ? { value: text } : { value: undefined, error: t('validation.email') };
+      }
+
+      if (rule.type === 'url') {
+        return isValidUrl(text)
+          ? { value: text }
+          : { value: undefined, error: t('validation.url', { label: fieldLabel(rule, t) }) };
+      }
+
+      if (rule.type === 'choice') {
+        const choice = rule.choices[text.toLowerCase()];
+        if (!choice) {
+          const options = Array.from(new Set(Object.values(rule.choices))).join(', ');
+          const label = fieldLabel(rule, t).toLowerCase();
+          return { value: undefined, error: t('validation.choice', { label, options }) };
+        }
+        return { value: choice };
+      }
+
+      return { value: rule.maxLength ? text.substring(0, rule.maxLength) : text };
+    }
+  }
+}
+
+export function validateSubmission<S extends FormSchema>(
+  schema: S,
+  input: unknown,
+  locale: Locale = DEFAULT_LOCALE
+): ValidationResult<S> {
+  const t = useTranslations(locale);
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? (input as Record<string, unknown>) : {};
+  const values: Record<string, unknown> = {};
+  const errors: FieldError[] = [];
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const result = validateField(rule, body[field], t);
+    if (result.error) {
+      errors.push({ field, message: result.error });
+    } else {
+      values[field] = result.value;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, values: values as SchemaValues<S> };
+}
@@ -0,0 +1,114 @@
+import { loadConfig, type FeatureName, type IntegrationConfig, type IntegrationName } from './config';
+import { ConfigurationError, UpstreamError } from './errors';
+import { getIntegrations } from './integrations';
+import { getPaymentProvider } from './payments';
+import { createRedisClient, getRedisConfig } from './redis';
+
+// Backs /api/health. Every enabled integration with a way to check itself is
+// called once; errors are reduced to a short reason so no response body,
+// credential or URL from an upstream ends up in the report.
+
+const PROBE_TIMEOUT_MS = 5000;
+
+export interface IntegrationHealth extends IntegrationConfig {
+  // null when not checked: switched off, in-process, or no side-effect-free call (Slack, CAPTCHA)
+  reachable: boolean | null;
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'degraded';
+  checkedAt: string;
+  integrations: Record<IntegrationName, IntegrationHealth>;
+  features: Record<FeatureName, boolean>;
+  stores: Record<string, string>;
+  invalid: string[];
+}
+
+type Probe = (() => Promise<void>) | undefined;
+
+function probeFor(name: IntegrationName): Probe {
+  const integrations = getIntegrations();
+  switch (name) {
+    case 'records':
+      return integrations.records.ping;
+    case 'mailingList':
+      return integrations.mailingList.ping;
+    case 'email':
+      return integrations.email?.ping;
+    case 'kv': {
+      const redis = getRedisConfig();
+      if (!redis) return undefined;
+      return async () => {
+        await createRedisClient(redis).pipeline([['PING']]);
+      };
+    }
+    case 'payments':
+      return getPaymentProvider().ping;
+    default:
+      return undefined;
+  }
+}
+
+function describe(error: unknown): string {
+  if (error instanceof UpstreamError) return error.message;
+  if (error instanceof ConfigurationError) return 'Missing configuration';
+  if (error instanceof Error && error.message === 'timeout') return `No answer within ${PROBE_TIMEOUT_MS / 1000}s`;
+  return 'Unreachable';
+}
+
+async function check(name: IntegrationName, config: IntegrationConfig): Promise<IntegrationHealth> {
+  if (!config.enabled) {
+    return { ...config, reachable: null };
+  }
+
+  const started = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const probe = probeFor(name);
+    if (!probe) {
+      return { ...config, reachable: null };
+    }
+    await Promise.race([
+      probe(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('timeout')), PROBE_TIMEOUT_MS);
+      }),
+    ]);
+    return { ...config, reachable: true, latencyMs: Date.now() - started };
+  } catch (error) {
+    return { ...config, reachable: false, latencyMs: Date.now() - started, error: describe(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Degraded when a check fails, a setting is invalid, submissions have nowhere
+// to go (no working record store or mailing list), or a live deployment keeps
+// state that must outlast a cold start in memory or nowhere (KV is off)
+export async function checkHealth(): Promise<HealthReport> {
+  const config = loadConfig();
+  const names = Object.keys(config.integrations) as IntegrationName[];
+  const results = await Promise.all(names.map((name) => check(name, config.integrations[name])));
+  const integrations = Object.fromEntries(names.map((name, index) => [name, results[index]])) as Record<
+    IntegrationName,
+    IntegrationHealth
+  >;
+
+  const healthy =
+    results.every((result) => result.reachable !== false) &&
+    config.invalid.length === 0 &&
+    integrations.records.enabled &&
+    integrations.mailingList.enabled &&
+    (config.local || Object.values(config.stores).every((backend) => backend !== 'none' && backend !== 'memory'));
+
+  return {
+    status: healthy ? 'ok' : 'degraded',
+    checkedAt: new Date().toISOString(),
+    integrations,
+    features: config.features,
+    stores: config.stores,
+    invalid: config.invalid,
+  };
+}
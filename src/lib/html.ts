@@ -0,0 +1,18 @@
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// Escapes user-provided text before it is interpolated into HTML (e.g. email bodies)
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+// Serializes data for an inline <script type="application/json"> (or JSON-LD)
+// block. Escaping "<" stops a value containing "</script>" from closing it early.
+export function jsonForScript(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
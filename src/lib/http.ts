@@ -0,0 +1,100 @@
+import type { APIRoute } from 'astro';
+import { timingSafeEqual } from 'node:crypto';
+import { ConfigurationError, UpstreamError } from './errors';
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+// Logs an error an endpoint couldn't handle under `[scope]`: the missing
+// settings, what the upstream answered, or `message` and the error itself
+export function logError(scope: string, message: string, error: unknown): void {
+  if (error instanceof ConfigurationError) {
+    console.error(`[${scope}] ${error.message}`);
+  } else if (error instanceof UpstreamError) {
+    console.error(`[${scope}] ${error.service} API error:`, { status: error.status, body: error.body });
+  } else {
+    console.error(`[${scope}] ${message}:`, error);
+  }
+}
+
+export interface ErrorResponseOptions {
+  headers?: Record<string, string>;
+  // Plain text, for endpoints that take a form post from a page
+  text?: boolean;
+  // Told to the client instead of "Upstream error" when a service failed
+  upstreamMessage?: string;
+}
+
+// Logs the error (see logError) and answers it: 502 when an upstream service
+// failed, 500 for a missing setting or anything else. The client only learns
+// which of the three it was; the details stay in the logs.
+export function errorResponse(
+  scope: string,
+  message: string,
+  error: unknown,
+  options: ErrorResponseOptions = {}
+): Response {
+  logError(scope, message, error);
+
+  let status = 500;
+  let text = 'Internal server error';
+  if (error instanceof ConfigurationError) {
+    text = 'Server configuration error';
+  } else if (error instanceof UpstreamError) {
+    status = 502;
+    text = options.upstreamMessage ?? 'Upstream error';
+  }
+
+  return options.text
+    ? new Response(text, { status, headers: options.headers })
+    : jsonResponse({ success: false, error: text }, status, options.headers);
+}
+
+// Shared handler for the HTTP methods an endpoint doesn't support
+export const methodNotAllowed: APIRoute = () => {
+  return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+};
+
+// The request's JSON body as an object. JSON that isn't one (null, a number, a
+// list) reads as {}, so callers can look up properties without checking first.
+// Throws when the body isn't JSON at all.
+export async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  const parsed: unknown = await request.json();
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+}
+
+// CORS protection: only allow same-origin requests (requests without an Origin header pass)
+export function isSameOrigin(request: Request, url: URL): boolean {
+  const origin = request.headers.get('Origin');
+  if (!origin) {
+    return true;
+  }
+  try {
+    return new URL(origin).origin === url.origin;
+  } catch {
+    return false;
+  }
+}
+
+export function getClientIp(request: Request): string {
+  return (
+    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+  );
+}
+
+// Checks `Authorization: Bearer <secret>` in constant time (how Vercel Cron authenticates with CRON_SECRET)
+export function hasBearerToken(request: Request, secret: string | undefined): boolean {
+  const header = request.headers.get('Authorization') ?? '';
+  if (!secret || !header.startsWith('Bearer ')) {
+    return false;
+  }
+  const provided = Buffer.from(header.slice('Bearer '.length));
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,58 @@
+import type { AstroIntegration } from 'astro';
+import { en } from './dictionaries/en';
+import { DICTIONARIES } from './index';
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+function placeholders(message: string): Set<string> {
+  return new Set(Array.from(message.matchAll(PLACEHOLDER), (match) => match[1]));
+}
+
+// Every dictionary needs every English key, and nothing else, and each message
+// needs the same placeholders as the English one: a dropped {label} leaves an
+// error that doesn't say which field it's about.
+export function dictionaryProblems(): string[] {
+  const problems: string[] = [];
+  const keys = Object.keys(en);
+
+  for (const [locale, dictionary] of Object.entries(DICTIONARIES)) {
+    const translated: Record<string, string | undefined> = dictionary;
+    for (const key of keys) {
+      const message = translated[key];
+      if (typeof message !== 'string' || !message.trim()) {
+        problems.push(`${locale}: missing "${key}"`);
+        continue;
+      }
+      const expected = placeholders(en[key as keyof typeof en]);
+      const used = placeholders(message);
+      for (const name of used) {
+        if (!expected.has(name)) problems.push(`${locale}: "${key}" uses {${name}}, which English doesn't have`);
+      }
+      for (const name of expected) {
+        if (!used.has(name)) problems.push(`${locale}: "${key}" leaves out {${name}}`);
+      }
+    }
+    for (const key of Object.keys(dictionary)) {
+      if (!(key in en)) problems.push(`${locale}: "${key}" isn't an English key`);
+    }
+  }
+  return problems;
+}
+
+// Fails `astro build` when a dictionary is incomplete; `astro dev` only warns,
+// so a page can be worked on before its translations arrive
+export function dictionaryCheck(): AstroIntegration {
+  return {
+    name: 'i18n-dictionary-check',
+    hooks: {
+      'astro:config:setup': ({ command, logger }) => {
+        const problems = dictionaryProblems();
+        if (problems.length === 0) return;
+        if (command === 'build') {
+          throw new Error(`Translation dictionaries are incomplete:\n  ${problems.join('\n  ')}`);
+        }
+        for (const problem of problems) logger.warn(problem);
+      },
+    },
+  };
+}
@@ -0,0 +1,172 @@
+// English, the site's source language: every key starts here, and the other
+// dictionaries must have the same keys (checked when the site is built).
+// {name} placeholders are filled in by translate().
+export const en = {
+  // Navigation
+  'nav.home': 'Home',
+  'nav.about': 'About',
+  'nav.events': 'Events',
+  'nav.team': 'Team',
+  'nav.apply': 'Apply',
+  'nav.faq': 'FAQ',
+  'nav.joinCommunity': 'Join the Community',
+  'nav.accelerator': 'Accelerator',
+  'nav.partner': 'Partner',
+  'nav.companies': 'Companies',
+  'nav.investors': 'Investors',
+  'nav.universities': 'Universities',
+  'nav.merch': 'Merch',
+  'nav.press': 'Press',
+  'nav.toggle': 'Toggle navigation menu',
+  'nav.language': 'Language',
+
+  // Footer
+  'footer.contact': 'Contact',
+  'footer.links': 'Links',
+  'footer.about': 'About',
+  'footer.apply': 'Apply',
+  'footer.partner': 'Partner',
+  'footer.privacyPolicy': 'Privacy Policy',
+  'footer.rights': '© {year} The Tech Bros. All rights reserved.',
+
+  // /apply/join-community
+  'community.title': 'Join the Community',
+  'community.heading': 'join the community',
+  'community.subtitle': 'Not ready to apply yet? Start with our community.',
+  'community.intro': 'Join our community of technical founders to share wins, get feedback, and find your co-founder.',
+  'community.whatsapp.heading': 'whatsapp community',
+  'community.whatsapp.body': 'Join our community of technical founders. Share wins, ask questions, get feedback.',
+  'community.whatsapp.details': 'Daily conversations, technical discussions, investor intros, and more.',
+  'community.whatsapp.cta': 'Apply to Join',
+  'community.newsletter.heading': 'ttb newsletter',
+  'community.newsletter.body': 'Monthly updates on our companies, events, and opportunities.',
+  'community.newsletter.details':
+    'Company spotlights, funding announcements, event invitations, partnership opportunities, and technical insights.',
+  'community.events.heading': 'upcoming events',
+  'community.events.body': "We run regular events, workshops, and meetups. See what's coming up below.",
+  'community.events.details':
+    'Hackathons, technical workshops, co-working days, founder stories, investor panels, demo days, and networking events.',
+  'community.events.cta': 'See Upcoming Events',
+  'community.accelerator.heading': 'ready to apply for the accelerator?',
+  'community.accelerator.body': "If you're ready to take the next step, check out our accelerator program.",
+  'community.accelerator.cta': 'Accelerator',
+
+  // Community application (ApplyModal)
+  'applyForm.title': 'Apply to Join the Community',
+  'applyForm.fullName': 'Full Name',
+  'applyForm.email': 'Email',
+  'applyForm.linkedinUrl': 'LinkedIn URL',
+  'applyForm.personalWebsite': 'Personal Website',
+  'applyForm.phoneNumber': 'Phone Number',
+  'applyForm.location': 'Location',
+  'applyForm.locationPlaceholder': 'City, Country',
+  'applyForm.fields': 'Field(s)',
+  'applyForm.fieldsHint': '(Select all that apply)',
+  'applyForm.field.cs': 'CS',
+  'applyForm.field.ai': 'AI / ML',
+  'applyForm.field.mathematics': 'Mathematics',
+  'applyForm.field.engineering': 'Engineering',
+  'applyForm.field.physics': 'Physics',
+  'applyForm.field.chemistry': 'Chemistry',
+  'applyForm.field.biology': 'Biology',
+  'applyForm.field.robotics': 'Robotics / hardware',
+  'applyForm.field.software': 'Software',
+  'applyForm.field.medicine': 'Medicine',
+  'applyForm.degree': 'Most Advanced Degree',
+  'applyForm.degreePlaceholder': 'Select...',
+  'applyForm.whyTTB': 'Why TTB?',
+  'applyForm.whyTTBHint': '(max 5000 characters)',
+  'applyForm.mailingList': 'Add me to the mailing list',
+  'applyForm.submit': 'Submit Application',
+  'applyForm.submitting': 'Submitting...',
+  'applyForm.successTitle': 'Application Submitted!',
+  'applyForm.success': "Thank you for applying to join our community. We'll be in touch soon.",
+  'applyForm.errorTitle': 'Error',
+  'applyForm.close': 'Close',
+  'applyForm.closeModal': 'Close modal',
+
+  // NewsletterSignup
+  'newsletterForm.firstName': 'First name',
+  'newsletterForm.lastName': 'Last name',
+  'newsletterForm.email': 'Email address',
+  'newsletterForm.emailPlaceholder': 'Your email',
+  'newsletterForm.subscribe': 'Subscribe',
+  'newsletterForm.submitting': 'Submitting…',
+  'newsletterForm.note': 'No spam. Unsubscribe anytime.',
+  'newsletterForm.success': 'Thank you! Check your inbox to confirm your subscription.',
+
+  // Shown by the browser when the endpoint gives no message
+  'forms.error': 'Something went wrong. Please try again later.',
+  'forms.networkError': 'Network error. Please check your connection and try again.',
+
+  // Form endpoint responses (src/lib/forms/pipeline.ts)
+  'forms.forbidden': 'Forbidden',
+  'forms.tooManyRequests': 'Too many requests. Please try again later.',
+  'forms.invalidJson': 'Invalid JSON',
+  'forms.expired': 'This form has expired. Please refresh the page and try again.',
+  'forms.captcha': 'Please complete the CAPTCHA and try again.',
+  'forms.configuration': 'Server configuration error',
+  'forms.internal': 'Internal server error',
+  'forms.failed': 'Failed to submit. Please try again later.',
+  'forms.queued': "We've received your submission and are processing it.",
+  'forms.application.failed': 'Failed to submit application',
+  'forms.newsletter.success': 'Almost there! Check your inbox to confirm your subscription.',
+  'forms.partnerInquiry.success':
+    "Thanks for getting in touch! We've sent you a confirmation email and will reply within a few working days.",
+  'forms.partnerInquiry.failed': 'Failed to send your inquiry. Please try again later.',
+  'forms.acceleratorDraft.success': "Progress saved. We've emailed you a link to pick up where you left off.",
+  'forms.acceleratorDraft.failed': 'Failed to save your progress',
+  'forms.privacyRequest.success': "We've emailed you a link to confirm your request. It works once and expires in 1 hour.",
+  'forms.privacyRequest.failed': 'Failed to send your confirmation link. Please try again later.',
+  'forms.applicantLogin.success':
+    "If we have an application for that address, we've emailed you a sign-in link. It expires in 30 minutes.",
+  'forms.adminLogin.success':
+    "If that address can use the dashboard, we've emailed you a sign-in link. It expires in 15 minutes.",
+  'forms.signInLink.failed': 'Failed to send your sign-in link. Please try again later.',
+
+  // Field errors (src/lib/forms/schema.ts); {label} is the field's labelKey
+  // translated, or its English label on forms that aren't translated
+  'validation.required': '{label} is required',
+  'validation.invalid': 'Invalid {label}',
+  'validation.email': 'Invalid email format',
+  'validation.url': '{label} must be a valid URL',
+  'validation.choice': 'Invalid {label}. Valid options: {options}',
+  'validation.fileType': '{label} must be a {types}',
+  'validation.fileSize': '{label} must be smaller than {limit} MB',
+
+  // Field labels for errors on translated forms (labelKey in the form schemas)
+  'field.fullName': 'Full name',
+  'field.email': 'Email',
+  'field.firstName': 'First name',
+  'field.lastName': 'Last name',
+
+  // Emails (src/lib/emails); {link} marks where a link goes
+  'email.greeting': 'Hi {name},',
+  'email.greetingNoName': 'Hi,',
+  'email.signOff': 'Best,',
+  'email.privacyPolicy': 'Privacy policy',
+  'email.unsubscribe': 'Unsubscribe',
+  'email.applicationReceived.statusButton': 'Check your application status',
+  'email.applicationReceived.community.subject': 'We got your application — The Tech Bros',
+  'email.applicationReceived.community.preheader': 'Thanks for applying to join the community.',
+  'email.applicationReceived.community.thanks':
+    "Thank you for applying to join The Tech Bros community! We've received your application.",
+  'email.applicationReceived.community.next':
+    "We'll be in touch soon. In the meantime, you can learn more about what we do at {link}.",
+  'email.applicationReceived.accelerator.subject': 'We got your accelerator application — The Tech Bros',
+  'email.applicationReceived.accelerator.preheader': "Thanks for applying. Here's what happens next.",
+  'email.applicationReceived.accelerator.thanks':
+    "Thank you for applying to The Tech Bros Accelerator! We've received your application.",
+  'email.applicationReceived.accelerator.thanksWithCompany':
+    "Thank you for applying to The Tech Bros Accelerator with {company}! We've received your application.",
+  'email.applicationReceived.accelerator.next':
+    'We review every application carefully and will be in touch about next steps. In the meantime, you can read our {link}.',
+  'email.applicationReceived.accelerator.faq': 'FAQ',
+  'email.newsletterConfirm.subject': 'Confirm your subscription — The Tech Bros',
+  'email.newsletterConfirm.preheader': "One click and you're on the list.",
+  'email.newsletterConfirm.body': "Please confirm you'd like to receive The Tech Bros newsletter:",
+  'email.newsletterConfirm.button': 'Confirm my subscription',
+  'email.newsletterConfirm.ignore': "If you didn't sign up, you can ignore this email and you won't hear from us.",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,173 @@
+import type { MessageKey } from './en';
+
+// Norwegian (Bokmål), for the hacker house in Norway and its applicants
+export const nb: Record<MessageKey, string> = {
+  // Navigation
+  'nav.home': 'Hjem',
+  'nav.about': 'Om oss',
+  'nav.events': 'Arrangementer',
+  'nav.team': 'Teamet',
+  'nav.apply': 'Søk',
+  'nav.faq': 'Spørsmål og svar',
+  'nav.joinCommunity': 'Bli med i fellesskapet',
+  'nav.accelerator': 'Akselerator',
+  'nav.partner': 'Samarbeid',
+  'nav.companies': 'Bedrifter',
+  'nav.investors': 'Investorer',
+  'nav.universities': 'Universiteter',
+  'nav.merch': 'Merch',
+  'nav.press': 'Presse',
+  'nav.toggle': 'Vis eller skjul menyen',
+  'nav.language': 'Språk',
+
+  // Footer
+  'footer.contact': 'Kontakt',
+  'footer.links': 'Lenker',
+  'footer.about': 'Om oss',
+  'footer.apply': 'Søk',
+  'footer.partner': 'Samarbeid',
+  'footer.privacyPolicy': 'Personvernerklæring',
+  'footer.rights': '© {year} The Tech Bros. Med enerett.',
+
+  // /apply/join-community
+  'community.title': 'Bli med i fellesskapet',
+  'community.heading': 'bli med i fellesskapet',
+  'community.subtitle': 'Ikke klar til å søke ennå? Start med fellesskapet vårt.',
+  'community.intro':
+    'Bli med i fellesskapet vårt av tekniske gründere for å dele seire, få tilbakemeldinger og finne en medgründer.',
+  'community.whatsapp.heading': 'whatsapp-fellesskap',
+  'community.whatsapp.body':
+    'Bli med i fellesskapet vårt av tekniske gründere. Del seire, still spørsmål, få tilbakemeldinger.',
+  'community.whatsapp.details': 'Daglige samtaler, tekniske diskusjoner, introduksjoner til investorer og mer.',
+  'community.whatsapp.cta': 'Søk om å bli med',
+  'community.newsletter.heading': 'ttb-nyhetsbrev',
+  'community.newsletter.body': 'Månedlige nyheter om selskapene våre, arrangementer og muligheter.',
+  'community.newsletter.details':
+    'Selskapsportretter, finansieringsnyheter, invitasjoner til arrangementer, samarbeidsmuligheter og teknisk innsikt.',
+  'community.events.heading': 'kommende arrangementer',
+  'community.events.body': 'Vi arrangerer jevnlig arrangementer, workshops og treff. Se hva som skjer nedenfor.',
+  'community.events.details':
+    'Hackathons, tekniske workshops, co-working-dager, gründerhistorier, investorpaneler, demodager og nettverkstreff.',
+  'community.events.cta': 'Se kommende arrangementer',
+  'community.accelerator.heading': 'klar til å søke på akseleratoren?',
+  'community.accelerator.body': 'Er du klar for neste steg, kan du lese mer om akseleratorprogrammet vårt.',
+  'community.accelerator.cta': 'Akselerator',
+
+  // Community application (ApplyModal)
+  'applyForm.title': 'Søk om å bli med i fellesskapet',
+  'applyForm.fullName': 'Fullt navn',
+  'applyForm.email': 'E-post',
+  'applyForm.linkedinUrl': 'LinkedIn-lenke',
+  'applyForm.personalWebsite': 'Personlig nettside',
+  'applyForm.phoneNumber': 'Telefonnummer',
+  'applyForm.location': 'Sted',
+  'applyForm.locationPlaceholder': 'By, land',
+  'applyForm.fields': 'Fagfelt',
+  'applyForm.fieldsHint': '(Velg alle som passer)',
+  'applyForm.field.cs': 'Informatikk',
+  'applyForm.field.ai': 'KI / maskinlæring',
+  'applyForm.field.mathematics': 'Matematikk',
+  'applyForm.field.engineering': 'Ingeniørfag',
+  'applyForm.field.physics': 'Fysikk',
+  'applyForm.field.chemistry': 'Kjemi',
+  'applyForm.field.biology': 'Biologi',
+  'applyForm.field.robotics': 'Robotikk / maskinvare',
+  'applyForm.field.software': 'Programvare',
+  'applyForm.field.medicine': 'Medisin',
+  'applyForm.degree': 'Høyeste grad',
+  'applyForm.degreePlaceholder': 'Velg...',
+  'applyForm.whyTTB': 'Hvorfor TTB?',
+  'applyForm.whyTTBHint': '(maks 5000 tegn)',
+  'applyForm.mailingList': 'Legg meg til på e-postlisten',
+  'applyForm.submit': 'Send søknad',
+  'applyForm.submitting': 'Sender...',
+  'applyForm.successTitle': 'Søknaden er sendt!',
+  'applyForm.success': 'Takk for at du søkte om å bli med i fellesskapet vårt. Vi tar kontakt snart.',
+  'applyForm.errorTitle': 'Feil',
+  'applyForm.close': 'Lukk',
+  'applyForm.closeModal': 'Lukk vinduet',
+
+  // NewsletterSignup
+  'newsletterForm.firstName': 'Fornavn',
+  'newsletterForm.lastName': 'Etternavn',
+  'newsletterForm.email': 'E-postadresse',
+  'newsletterForm.emailPlaceholder': 'Din e-post',
+  'newsletterForm.subscribe': 'Abonner',
+  'newsletterForm.submitting': 'Sender…',
+  'newsletterForm.note': 'Ingen spam. Du kan melde deg av når som helst.',
+  'newsletterForm.success': 'Takk! Sjekk innboksen din for å bekrefte abonnementet.',
+
+  // Shown by the browser when the endpoint gives no message
+  'forms.error': 'Noe gikk galt. Prøv igjen senere.',
+  'forms.networkError': 'Nettverksfeil. Sjekk tilkoblingen din og prøv igjen.',
+
+  // Form endpoint responses (src/lib/forms/pipeline.ts)
+  'forms.forbidden': 'Ingen tilgang',
+  'forms.tooManyRequests': 'For mange forsøk. Prøv igjen senere.',
+  'forms.invalidJson': 'Ugyldig JSON',
+  'forms.expired': 'Skjemaet er utløpt. Last inn siden på nytt og prøv igjen.',
+  'forms.captcha': 'Fullfør CAPTCHA-en og prøv igjen.',
+  'forms.configuration': 'Feil i serveroppsettet',
+  'forms.internal': 'Intern serverfeil',
+  'forms.failed': 'Kunne ikke sende inn. Prøv igjen senere.',
+  'forms.queued': 'Vi har mottatt innsendingen din og behandler den.',
+  'forms.application.failed': 'Kunne ikke sende søknaden',
+  'forms.newsletter.success': 'Nesten ferdig! Sjekk innboksen din for å bekrefte abonnementet.',
+  'forms.partnerInquiry.success':
+    'Takk for at du tok kontakt! Vi har sendt deg en bekreftelse på e-post og svarer innen noen virkedager.',
+  'forms.partnerInquiry.failed': 'Kunne ikke sende henvendelsen. Prøv igjen senere.',
+  'forms.acceleratorDraft.success': 'Lagret. Vi har sendt deg en lenke på e-post så du kan fortsette der du slapp.',
+  'forms.acceleratorDraft.failed': 'Kunne ikke lagre',
+  'forms.privacyRequest.success':
+    'Vi har sendt deg en lenke på e-post for å bekrefte forespørselen. Den virker én gang og utløper etter 1 time.',
+  'forms.privacyRequest.failed': 'Kunne ikke sende bekreftelseslenken. Prøv igjen senere.',
+  'forms.applicantLogin.success':
+    'Har vi en søknad fra den adressen, har vi sendt deg en innloggingslenke. Den utløper etter 30 minutter.',
+  'forms.adminLogin.success':
+    'Har den adressen tilgang til oversikten, har vi sendt deg en innloggingslenke. Den utløper etter 15 minutter.',
+  'forms.signInLink.failed': 'Kunne ikke sende innloggingslenken. Prøv igjen senere.',
+
+  // Field errors (src/lib/forms/schema.ts)
+  'validation.required': '{label} må fylles ut',
+  'validation.invalid': 'Ugyldig {label}',
+  'validation.email': 'Ugyldig e-postadresse',
+  'validation.url': '{label} må være en gyldig lenke',
+  'validation.choice': 'Ugyldig {label}. Gyldige valg: {options}',
+  'validation.fileType': '{label} må være {types}',
+  'validation.fileSize': '{label} må være mindre enn {limit} MB',
+
+  // Field labels
+  'field.fullName': 'Fullt navn',
+  'field.email': 'E-post',
+  'field.firstName': 'Fornavn',
+  'field.lastName': 'Etternavn',
+
+  // Emails (src/lib/emails)
+  'email.greeting': 'Hei {name},',
+  'email.greetingNoName': 'Hei,',
+  'email.signOff': 'Vennlig hilsen',
+  'email.privacyPolicy': 'Personvernerklæring',
+  'email.unsubscribe': 'Meld deg av',
+  'email.applicationReceived.statusButton': 'Se status for søknaden',
+  'email.applicationReceived.community.subject': 'Vi har mottatt søknaden din — The Tech Bros',
+  'email.applicationReceived.community.preheader': 'Takk for at du søkte om å bli med i fellesskapet.',
+  'email.applicationReceived.community.thanks':
+    'Takk for at du søkte om å bli med i The Tech Bros-fellesskapet! Vi har mottatt søknaden din.',
+  'email.applicationReceived.community.next':
+    'Vi tar kontakt snart. I mellomtiden kan du lese mer om hva vi gjør på {link}.',
+  'email.applicationReceived.accelerator.subject': 'Vi har mottatt akseleratorsøknaden din — The Tech Bros',
+  'email.applicationReceived.accelerator.preheader': 'Takk for at du søkte. Slik går det videre.',
+  'email.applicationReceived.accelerator.thanks':
+    'Takk for at du søkte på The Tech Bros Accelerator! Vi har mottatt søknaden din.',
+  'email.applicationReceived.accelerator.thanksWithCompany':
+    'Takk for at du søkte på The Tech Bros Accelerator med {company}! Vi har mottatt søknaden din.',
+  'email.applicationReceived.accelerator.next':
+    'Vi går nøye gjennom hver søknad og tar kontakt om neste steg. I mellomtiden kan du lese {link}.',
+  'email.applicationReceived.accelerator.faq': 'spørsmål og svar',
+  'email.newsletterConfirm.subject': 'Bekreft abonnementet ditt — The Tech Bros',
+  'email.newsletterConfirm.preheader': 'Ett klikk, så er du med på listen.',
+  'email.newsletterConfirm.body': 'Bekreft at du vil motta nyhetsbrevet fra The Tech Bros:',
+  'email.newsletterConfirm.button': 'Bekreft abonnementet',
+  'email.newsletterConfirm.ignore':
+    'Meldte du deg ikke på, kan du se bort fra denne e-posten. Da hører du ikke mer fra oss.',
+};
@@ -0,0 +1,40 @@
+import { en, type MessageKey } from './dictionaries/en';
+import { nb } from './dictionaries/nb';
+import { DEFAULT_LOCALE, isLocale, pathLocale, type Locale } from './locales';
+
+export * from './locales';
+export type { MessageKey };
+
+// Translations for the site chrome, the pages that have been translated, form
+// errors and emails. Pages that haven't been are served in English under every
+// locale's prefix. Usable in the browser too, though pages normally render
+// strings on the server and hand scripts what they need in data attributes.
+
+export type Dictionary = Record<MessageKey, string>;
+
+export const DICTIONARIES: Record<Locale, Dictionary> = { en, nb };
+
+export type MessageParams = Record<string, string | number>;
+
+// Fills in {name} placeholders; ones without a value are left as they are
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = DICTIONARIES[locale][key] ?? en[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export function useTranslations(locale: Locale): Translate {
+  return (key, params) => translate(locale, key, params);
+}
+
+// The locale a form submission should be answered in: the one the form sent,
+// else the prefix of the page it was sent from
+export function requestLocale(request: Request, sent?: unknown): Locale {
+  if (isLocale(sent)) return sent;
+  const referer = request.headers.get('referer');
+  if (!referer || !URL.canParse(referer)) return DEFAULT_LOCALE;
+  return pathLocale(new URL(referer).pathname);
+}
@@ -0,0 +1,55 @@
+// The site's languages. English pages live at their usual paths; translated
+// pages are also served under each other locale's prefix
+// (/nb/apply/join-community), from the same page files (see the i18n settings
+// in astro.config.mjs). Shared by the browser and the server.
+
+export const LOCALES = ['en', 'nb'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Shown in the language switcher, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  nb: 'Norsk',
+};
+
+// og:locale
+export const OG_LOCALES: Record<Locale, string> = {
+  en: 'en_GB',
+  nb: 'nb_NO',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+// Unknown or missing locales fall back to English
+export function parseLocale(value: unknown): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+// A site path in the given locale, e.g. ('/about', 'nb') -> '/nb/about'
+export function localePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === '/' ? `/${locale}/` : `/${locale}${path}`;
+}
+
+// Pages with their own strings in every dictionary. Only these are served
+// under a locale's prefix; /nb/about redirects to /about (see middleware.ts).
+export const TRANSLATED_PAGES: readonly string[] = ['/apply/join-community'];
+
+export function isTranslatedPage(path: string): boolean {
+  return TRANSLATED_PAGES.includes(path.length > 1 ? path.replace(/\/+$/, '') : path);
+}
+
+// Where to link a reader of the given locale: the page's translation if it
+// has one, else the English page, e.g. ('/about', 'nb') -> '/about'
+export function translatedPath(path: string, locale: Locale): string {
+  return isTranslatedPage(path) ? localePath(path, locale) : path;
+}
+
+// The locale a path is in, by its prefix
+export function pathLocale(path: string): Locale {
+  return parseLocale(path.split('/')[1]);
+}
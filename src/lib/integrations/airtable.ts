@@ -0,0 +1,206 @@
+import { ConfigurationError, UpstreamError } from '../errors';
+import { readEnv, requireEnv } from '../env';
+import type { RecordStore, RecordTable, StoredRecord } from './types';
+
+// Env vars holding each table's Airtable ID, in order of preference.
+// AIRTABLE_TABLE_NAME is the legacy fallback for the community table.
+const TABLE_ENV: Record<RecordTable, string[]> = {
+  community: ['AIRTABLE_TABLE_ID', 'AIRTABLE_TABLE_NAME'],
+  merch: ['AIRTABLE_MERCH_TABLE_ID'],
+  accelerator: ['AIRTABLE_ACCELERATOR_TABLE_ID'],
+  orders: ['AIRTABLE_ORDERS_TABLE_ID'],
+  partners: ['AIRTABLE_PARTNERS_TABLE_ID'],
+};
+
+function resolveTable(table: RecordTable): string {
+  const [idVar, ...fallbacks] = TABLE_ENV[table];
+  const tableId = readEnv(idVar);
+  if (tableId) {
+    return tableId;
+  }
+
+  for (const nameVar of fallbacks) {
+    const tableName = readEnv(nameVar);
+    if (tableName) {
+      console.warn(`${idVar} is preferred over ${nameVar}. Please update your environment variables.`);
+      return encodeURIComponent(tableName);
+    }
+  }
+
+  throw new ConfigurationError([TABLE_ENV[table].join(' or ')]);
+}
+
+interface AirtableRecord {
+  id: string;
+  createdTime: string;
+  fields: Record<string, unknown>;
+}
+
+function toStoredRecord(record: AirtableRecord): StoredRecord {
+  return { id: record.id, createdAt: record.createdTime, fields: record.fields };
+}
+
+// Airtable error bodies look like { error: { type, message } }
+function airtableError(error: unknown): { type?: string; message?: string } | undefined {
+  if (!(error instanceof UpstreamError) || error.status !== 422) return undefined;
+  try {
+    return JSON.parse(error.body)?.error;
+  } catch {
+    return undefined;
+  }
+}
+
+// The field a write named that the table doesn't have, from a 422 like
+// { type: "UNKNOWN_FIELD_NAME", message: 'Unknown field name: "UTM Source"' }
+function unknownFieldName(error: unknown): string | undefined {
+  const details = airtableError(error);
+  return details?.type === 'UNKNOWN_FIELD_NAME' ? /"(.+)"/.exec(details.message ?? '')?.[1] : undefined;
+}
+
+// Formula string literal: backslashes and single quotes escaped
+function formulaString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+export function createAirtableStore(): RecordStore {
+  const env = requireEnv(['AIRTABLE_PAT', 'AIRTABLE_BASE_ID']);
+  const apiUrl = readEnv('AIRTABLE_API_URL') ?? 'https://api.airtable.com';
+  // Attachment uploads go to a separate host
+  const contentUrl = readEnv('AIRTABLE_CONTENT_API_URL') ?? 'https://content.airtable.com';
+
+  // Throws on error responses, except a 404 when the caller asks to handle it
+  async function request(
+    url: string,
+    init: { method: string; body?: unknown; allowNotFound?: boolean }
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      method: init.method,
+      headers: {
+        'Authorization': `Bearer ${env.AIRTABLE_PAT}`,
+        'Content-Type': 'application/json',
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+
+    if (!response.ok && !(init.allowNotFound && response.status === 404)) {
+      throw new UpstreamError('Airtable', response.status, await response.text());
+    }
+    return response;
+  }
+
+  const tableUrl = (table: RecordTable) => `${apiUrl}/v0/${env.AIRTABLE_BASE_ID}/${resolveTable(table)}`;
+
+  // Airtable rejects a whole write that names a field the table doesn't have.
+  // Code can start writing a field (Email Key, UTM Source, ...) before the
+  // team adds its column, so rather than lose the submission the write is
+  // retried without it, and the missing field is logged.
+  async function writeKnownFields<T>(
+    table: RecordTable,
+    fields: Record<string, unknown>,
+    write: (fields: Record<string, unknown>) => Promise<T>
+  ): Promise<T> {
+    let remaining = fields;
+    for (;;) {
+      try {
+        return await write(remaining);
+      } catch (error) {
+        const field = unknownFieldName(error);
+        if (field === undefined || !(field in remaining)) throw error;
+        console.error(`[airtable] The ${table} table has no "${field}" field; saved without it. Add it in Airtable.`);
+        remaining = Object.fromEntries(Object.entries(remaining).filter(([name]) => name !== field));
+      }
+    }
+  }
+
+  const store: RecordStore = {
+    async create(table, fields) {
+      const response = await writeKnownFields(table, fields, (known) =>
+        request(tableUrl(table), { method: 'POST', body: { records: [{ fields: known }] } })
+      );
+      const data = await response.json();
+      const record = data.records?.[0];
+      return {
+        id: record?.id ?? '',
+        createdAt: record?.createdTime ?? new Date().toISOString(),
+        fields: record?.fields ?? fields,
+      } satisfies StoredRecord;
+    },
+
+    // https://airtable.com/developers/web/api/upload-attachment (files up to 5 MB)
+    async attach(_table, recordId, attachment) {
+      const field = encodeURIComponent(attachment.field);
+      await request(`${contentUrl}/v0/${env.AIRTABLE_BASE_ID}/${recordId}/${field}/uploadAttachment`, {
+        method: 'POST',
+        body: {
+          contentType: attachment.contentType,
+          file: attachment.data,
+          filename: attachment.filename,
+        },
+      });
+    },
+
+    async get(table, recordId) {
+      const response = await request(`${tableUrl(table)}/${encodeURIComponent(recordId)}`, {
+        method: 'GET',
+        allowNotFound: true,
+      });
+      if (response.status === 404) {
+        return undefined;
+      }
+      return toStoredRecord(await response.json());
+    },
+
+    // Airtable returns at most 100 records a page, with an offset for the next
+    async list(table) {
+      const records: StoredRecord[] = [];
+      let offset: string | undefined;
+      do {
+        const page = offset ? `&offset=${encodeURIComponent(offset)}` : '';
+        const response = await request(`${tableUrl(table)}?pageSize=100${page}`, { method: 'GET' });
+        const data = (await response.json()) as { records?: AirtableRecord[]; offset?: string };
+        records.push(...(data.records ?? []).map(toStoredRecord));
+        offset = data.offset;
+      } while (offset);
+      return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async findByEmail(table, email) {
+      return store.findByField(table, 'Email', email);
+    },
+
+    // A field the table doesn't have yet matches nothing, like an empty one
+    async findByField(table, field, value) {
+      const formula = `LOWER({${field}}) = ${formulaString(value.toLowerCase())}`;
+      let response: Response;
+      try {
+        response = await request(`${tableUrl(table)}?filterByFormula=${encodeURIComponent(formula)}&pageSize=100`, {
+          method: 'GET',
+        });
+      } catch (error) {
+        if (airtableError(error)?.type !== 'INVALID_FILTER_BY_FORMULA') throw error;
+        console.error(`[airtable] Could not search the ${table} table by "${field}"; is the field missing?`);
+        return [];
+      }
+      const data = (await response.json()) as { records?: AirtableRecord[] };
+      return (data.records ?? []).map(toStoredRecord);
+    },
+
+    async remove(table, recordId) {
+      await request(`${tableUrl(table)}/${recordId}`, { method: 'DELETE', allowNotFound: true });
+    },
+
+    async ping() {
+      await request(`${tableUrl('community')}?maxRecords=1`, { method: 'GET' });
+    },
+
+    async update(table, recordId, fields) {
+      const response = await writeKnownFields(table, fields, (known) =>
+        request(tableUrl(table), { method: 'PATCH', body: { records: [{ id: recordId, fields: known }] } })
+      );
+      const data = (await response.json()) as { records?: AirtableRecord[] };
+      return toStoredRecord(data.records?.[0] ?? { id: recordId, createdTime: new Date().toISOString(), fields });
+    },
+  };
+
+  return store;
+}
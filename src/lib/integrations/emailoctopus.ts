@@ -0,0 +1,163 @@
+import { createHash } from 'node:crypto';
+import { UpstreamError } from '../errors';
+import { readEnv, requireEnv } from '../env';
+import type { MailingList, MailingListEntry } from './types';
+
+const STATUS = {
+  pending: 'PENDING',
+  subscribed: 'SUBSCRIBED',
+} as const;
+
+const PAGE_SIZE = 100;
+
+interface EmailOctopusContact {
+  email_address: string;
+  fields: Record<string, string | null>;
+  status: 'PENDING' | 'SUBSCRIBED' | 'UNSUBSCRIBED';
+  created_at: string;
+}
+
+function toEntry(contact: EmailOctopusContact): MailingListEntry {
+  const fields: Record<string, string> = {};
+  for (const [name, value] of Object.entries(contact.fields ?? {})) {
+    if (value != null) fields[name] = String(value);
+  }
+  return {
+    email: contact.email_address,
+    fields,
+    status: contact.status === 'PENDING' ? 'pending' : contact.status === 'SUBSCRIBED' ? 'subscribed' : 'unsubscribed',
+    createdAt: contact.created_at,
+  };
+}
+
+export function createEmailOctopusList(): MailingList {
+  const env = requireEnv(['EMAILOCTOPUS_API_KEY', 'EMAILOCTOPUS_LIST_ID']);
+  const apiUrl = readEnv('EMAILOCTOPUS_API_URL') ?? 'https://emailoctopus.com';
+  const contactsUrl = `${apiUrl}/api/1.6/lists/${env.EMAILOCTOPUS_LIST_ID}/contacts`;
+
+  // EmailOctopus identifies contacts by the MD5 hash of the lowercased address
+  function contactUrl(email: string): string {
+    return `${contactsUrl}/${createHash('md5').update(email.trim().toLowerCase()).digest('hex')}`;
+  }
+
+  // Returns false when the contact doesn't exist
+  async function updateContact(email: string, update: Record<string, unknown>): Promise<boolean> {
+    const response = await fetch(contactUrl(email), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ api_key: env.EMAILOCTOPUS_API_KEY, ...update }),
+    });
+
+    if (response.status === 404) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new UpstreamError('EmailOctopus', response.status, await response.text());
+    }
+    return true;
+  }
+
+  const list: MailingList = {
+    async subscribe(contact, status = 'subscribed') {
+      const response = await fetch(contactsUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          api_key: env.EMAILOCTOPUS_API_KEY,
+          email_address: contact.email,
+          status: STATUS[status],
+          fields: contact.fields,
+        }),
+      });
+
+      if (response.ok) {
+        return;
+      }
+
+      const errorText = await response.text();
+      let errorMessage = '';
+      try {
+        errorMessage = (JSON.parse(errorText)?.error?.message ?? '').toLowerCase();
+      } catch {
+        // Non-JSON error body
+      }
+
+      // Treat "already subscribed" and "already pending" as success
+      if (
+        errorMessage.includes('already subscribed') ||
+        errorMessage.includes('already pending') ||
+        errorMessage.includes('is already on the list')
+      ) {
+        return;
+      }
+
+      throw new UpstreamError('EmailOctopus', response.status, errorText);
+    },
+
+    async confirm(contact) {
+      const updated = await updateContact(contact.email, { status: STATUS.subscribed, fields: contact.fields });
+      if (!updated) {
+        await list.subscribe(contact, 'subscribed');
+      }
+    },
+
+    async unsubscribe(email) {
+      await updateContact(email, { status: 'UNSUBSCRIBED' });
+    },
+
+    async remove(email) {
+      const response = await fetch(contactUrl(email), {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ api_key: env.EMAILOCTOPUS_API_KEY }),
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new UpstreamError('EmailOctopus', response.status, await response.text());
+      }
+    },
+
+    async get(email) {
+      const query = new URLSearchParams({ api_key: env.EMAILOCTOPUS_API_KEY });
+      const response = await fetch(`${contactUrl(email)}?${query}`);
+      if (response.status === 404) {
+        return undefined;
+      }
+      if (!response.ok) {
+        throw new UpstreamError('EmailOctopus', response.status, await response.text());
+      }
+      return toEntry((await response.json()) as EmailOctopusContact);
+    },
+
+    async list() {
+      const entries: MailingListEntry[] = [];
+      for (let page = 1; ; page++) {
+        const query = new URLSearchParams({
+          api_key: env.EMAILOCTOPUS_API_KEY,
+          limit: String(PAGE_SIZE),
+          page: String(page),
+        });
+        const response = await fetch(`${contactsUrl}?${query}`);
+        if (!response.ok) {
+          throw new UpstreamError('EmailOctopus', response.status, await response.text());
+        }
+
+        const body = (await response.json()) as { data: EmailOctopusContact[]; paging?: { next?: string | null } };
+        entries.push(...body.data.map(toEntry));
+        if (!body.paging?.next || body.data.length === 0) break;
+      }
+      return entries.sort((a, b) => (a.createdAt ?? '').localeCompare(b.createdAt ?? ''));
+    },
+
+    async ping() {
+      const query = new URLSearchParams({ api_key: env.EMAILOCTOPUS_API_KEY });
+      const response = await fetch(`${apiUrl}/api/1.6/lists/${env.EMAILOCTOPUS_LIST_ID}?${query}`);
+      if (!response.ok) {
+        throw new UpstreamError('EmailOctopus', response.status, await response.text());
+      }
+    },
+  };
+
+  return list;
+}
@@ -0,0 +1,160 @@
+import { ConfigurationError } from '../errors';
+import { readEnv } from '../env';
+import { localDataDir } from '../json-files';
+import { createAirtableStore } from './airtable';
+import { createEmailOctopusList } from './emailoctopus';
+import { createConsoleChatNotifier, createConsoleEmailSender } from './local/console';
+import { createFileMailingList, createFileRecordStore, createMailboxEmailSender } from './local/file';
+import {
+  createMemoryChatNotifier,
+  createMemoryEmailSender,
+  createMemoryMailingList,
+  createMemoryRecordStore,
+} from './local/memory';
+import { createResendSender } from './resend';
+import { createSlackNotifier } from './slack';
+import type { ChatNotifier, EmailSender, MailingList, RecordStore } from './types';
+
+export type * from './types';
+
+// Adapter selection:
+//   INTEGRATIONS=local   use offline stand-ins everywhere (default: live services)
+//   RECORD_STORE         airtable | file | memory
+//   MAILING_LIST         emailoctopus | file | memory
+//   EMAIL_SENDER         resend | mailbox | console | memory
+//   CHAT_NOTIFIER        slack | console | memory
+//   LOCAL_DATA_DIR       where the file-backed stand-ins write (default .data)
+//
+// The live adapters also honour AIRTABLE_API_URL, EMAILOCTOPUS_API_URL and
+// RESEND_API_URL (Slack is already a URL), so a harness can point them at a
+// fake upstream server instead of the real APIs.
+
+export interface Integrations {
+  readonly records: RecordStore;
+  readonly mailingList: MailingList;
+  // Undefined when no sender is configured; confirmation emails are then skipped
+  readonly email: EmailSender | undefined;
+  readonly chat: ChatNotifier;
+}
+
+const LOCAL_DEFAULTS = {
+  RECORD_STORE: 'file',
+  MAILING_LIST: 'file',
+  EMAIL_SENDER: 'mailbox',
+  CHAT_NOTIFIER: 'console',
+} as const;
+
+const LIVE_DEFAULTS = {
+  RECORD_STORE: 'airtable',
+  MAILING_LIST: 'emailoctopus',
+  EMAIL_SENDER: 'resend',
+  CHAT_NOTIFIER: 'slack',
+} as const;
+
+// Memory adapters are shared for the life of the process so state survives between requests
+const memoryAdapters = {
+  records: createMemoryRecordStore(),
+  mailingList: createMemoryMailingList(),
+  email: createMemoryEmailSender(),
+  chat: createMemoryChatNotifier(),
+};
+
+export function getMemoryAdapters(): typeof memoryAdapters {
+  return memoryAdapters;
+}
+
+export type AdapterSetting = keyof typeof LIVE_DEFAULTS;
+
+// The adapter name an integration will use, before checking it's a known one
+export function selectedAdapter(name: AdapterSetting): string {
+  const defaults = readEnv('INTEGRATIONS') === 'local' ? LOCAL_DEFAULTS : LIVE_DEFAULTS;
+  return readEnv(name) ?? defaults[name];
+}
+
+function unknownAdapter(name: string, value: string): never {
+  throw new ConfigurationError([`${name} (unknown adapter "${value}")`]);
+}
+
+function resolveRecordStore(): RecordStore {
+  const choice = selectedAdapter('RECORD_STORE');
+  switch (choice) {
+    case 'airtable':
+      return createAirtableStore();
+    case 'file':
+      return createFileRecordStore(localDataDir());
+    case 'memory':
+      return memoryAdapters.records;
+    default:
+      return unknownAdapter('RECORD_STORE', choice);
+  }
+}
+
+function resolveMailingList(): MailingList {
+  const choice = selectedAdapter('MAILING_LIST');
+  switch (choice) {
+    case 'emailoctopus':
+      return createEmailOctopusList();
+    case 'file':
+      return createFileMailingList(localDataDir());
+    case 'memory':
+      return memoryAdapters.mailingList;
+    default:
+      return unknownAdapter('MAILING_LIST', choice);
+  }
+}
+
+function resolveEmailSender(): EmailSender | undefined {
+  const choice = selectedAdapter('EMAIL_SENDER');
+  switch (choice) {
+    case 'resend':
+      // Confirmation emails are optional: skip them when Resend isn't set up
+      if (!readEnv('RESEND_API_KEY') || !readEnv('FROM_EMAIL')) return undefined;
+      return createResendSender();
+    case 'mailbox':
+      return createMailboxEmailSender(localDataDir());
+    case 'console':
+      return createConsoleEmailSender();
+    case 'memory':
+      return memoryAdapters.email;
+    default:
+      return unknownAdapter('EMAIL_SENDER', choice);
+  }
+}
+
+function resolveChatNotifier(): ChatNotifier {
+  const choice = selectedAdapter('CHAT_NOTIFIER');
+  switch (choice) {
+    case 'slack':
+      return createSlackNotifier();
+    case 'console':
+      return createConsoleChatNotifier();
+    case 'memory':
+      return memoryAdapters.chat;
+    default:
+      return unknownAdapter('CHAT_NOTIFIER', choice);
+  }
+}
+
+// Adapters are resolved on first access, so an endpoint that never touches
+// the mailing list doesn't need EmailOctopus credentials.
+export function getIntegrations(): Integrations {
+  let records: RecordStore | undefined;
+  let mailingList: MailingList | undefined;
+  let email: { sender: EmailSender | undefined } | undefined;
+  let chat: ChatNotifier | undefined;
+
+  return {
+    get records() {
+      return (records ??= resolveRecordStore());
+    },
+    get mailingList() {
+      return (mailingList ??= resolveMailingList());
+    },
+    get email() {
+      return (email ??= { sender: resolveEmailSender() }).sender;
+    },
+    get chat() {
+      return (chat ??= resolveChatNotifier());
+    },
+  };
+}
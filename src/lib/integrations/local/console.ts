@@ -0,0 +1,17 @@
+import type { ChatNotifier, EmailSender } from '../types';
+
+export function createConsoleEmailSender(): EmailSender {
+  return {
+    async send(message) {
+      console.log(`[email] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    },
+  };
+}
+
+export function createConsoleChatNotifier(): ChatNotifier {
+  return {
+    async notify(channel, text) {
+      console.log(`[chat:${channel}] ${text}`);
+    },
+  };
+}
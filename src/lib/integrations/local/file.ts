@@ -0,0 +1,129 @@
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { appendJsonLine, readJsonLines, writeJsonLines } from '../../json-files';
+import type { EmailSender, MailingList, MailingListEntry, RecordStore, RecordTable, StoredRecord } from '../types';
+
+// File-backed stand-ins for local development. Everything is written under
+// LOCAL_DATA_DIR (default .data/), which is git-ignored.
+
+// One JSONL file per table: records/<table>.jsonl, with attachments saved
+// under records/<table>/<record id>/
+export function createFileRecordStore(dataDir: string): RecordStore {
+  const dir = join(dataDir, 'records');
+  const tablePath = (table: string) => join(dir, `${table}.jsonl`);
+
+  async function findByField(table: RecordTable, field: string, value: string): Promise<StoredRecord[]> {
+    const key = value.toLowerCase();
+    const records = await readJsonLines<StoredRecord>(tablePath(table));
+    return records.filter((record) => String(record.fields[field] ?? '').toLowerCase() === key);
+  }
+
+  return {
+    async create(table, fields) {
+      const record: StoredRecord = {
+        id: `rec_local_${crypto.randomUUID()}`,
+        createdAt: new Date().toISOString(),
+        fields,
+      };
+      await appendJsonLine(tablePath(table), record);
+      return record;
+    },
+    async attach(table, recordId, attachment) {
+      const attachmentDir = join(dir, table, recordId);
+      await mkdir(attachmentDir, { recursive: true });
+      const filename = `${attachment.field}-${attachment.filename}`.replace(/[^a-z0-9.-]+/gi, '-');
+      await writeFile(join(attachmentDir, filename), Buffer.from(attachment.data, 'base64'));
+    },
+    async get(table, recordId) {
+      const records = await readJsonLines<StoredRecord>(tablePath(table));
+      return records.find((record) => record.id === recordId);
+    },
+    async list(table) {
+      return readJsonLines<StoredRecord>(tablePath(table));
+    },
+    findByEmail: (table, email) => findByField(table, 'Email', email),
+    findByField,
+    async update(table, recordId, fields) {
+      const records = await readJsonLines<StoredRecord>(tablePath(table));
+      const record = records.find((existing) => existing.id === recordId);
+      if (!record) {
+        throw new Error(`No ${table} record ${recordId}`);
+      }
+      record.fields = { ...record.fields, ...fields };
+      await writeJsonLines(tablePath(table), records);
+      return record;
+    },
+    async remove(table, recordId) {
+      const records = await readJsonLines<StoredRecord>(tablePath(table));
+      await writeJsonLines(tablePath(table), records.filter((record) => record.id !== recordId));
+      await rm(join(dir, table, recordId), { recursive: true, force: true });
+    },
+  };
+}
+
+// mailing-list.jsonl, one line per distinct email address with its status
+export function createFileMailingList(dataDir: string): MailingList {
+  const path = join(dataDir, 'mailing-list.jsonl');
+
+  async function update(email: string, change: (existing: MailingListEntry | undefined) => MailingListEntry | undefined) {
+    const contacts = await readJsonLines<MailingListEntry>(path);
+    const key = email.toLowerCase();
+    const index = contacts.findIndex((contact) => contact.email.toLowerCase() === key);
+    const next = change(index === -1 ? undefined : contacts[index]);
+    if (!next) return;
+    if (index === -1) {
+      contacts.push(next);
+    } else {
+      contacts[index] = next;
+    }
+    await writeJsonLines(path, contacts);
+  }
+
+  return {
+    async subscribe(contact, status = 'subscribed') {
+      await update(contact.email, (existing) =>
+        !existing || existing.status === 'unsubscribed'
+          ? { ...contact, status, createdAt: existing?.createdAt ?? new Date().toISOString() }
+          : undefined
+      );
+    },
+    async confirm(contact) {
+      await update(contact.email, (existing) => ({
+        ...contact,
+        status: 'subscribed',
+        createdAt: existing?.createdAt ?? new Date().toISOString(),
+      }));
+    },
+    async unsubscribe(email) {
+      await update(email, (existing) => (existing ? { ...existing, status: 'unsubscribed' } : undefined));
+    },
+    async remove(email) {
+      const key = email.toLowerCase();
+      const contacts = await readJsonLines<MailingListEntry>(path);
+      await writeJsonLines(path, contacts.filter((contact) => contact.email.toLowerCase() !== key));
+    },
+    async get(email) {
+      const key = email.toLowerCase();
+      const contacts = await readJsonLines<MailingListEntry>(path);
+      return contacts.find((contact) => contact.email.toLowerCase() === key);
+    },
+    async list() {
+      return readJsonLines<MailingListEntry>(path);
+    },
+  };
+}
+
+// Writes each message to mailbox/ as an .html file (open it in a browser) and a .txt file
+export function createMailboxEmailSender(dataDir: string): EmailSender {
+  const dir = join(dataDir, 'mailbox');
+  return {
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const slug = message.to.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+      const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}`;
+      const header = `To: ${message.to}\nSubject: ${message.subject}\n\n`;
+      await writeFile(join(dir, `${baseName}.html`), `<!-- ${header.trim()} -->\n${message.html}`, 'utf8');
+      await writeFile(join(dir, `${baseName}.txt`), header + message.text, 'utf8');
+    },
+  };
+}
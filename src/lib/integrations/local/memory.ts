@@ -0,0 +1,134 @@
+import type {
+  ChatChannel,
+  ChatNotifier,
+  EmailMessage,
+  EmailSender,
+  MailingList,
+  MailingListEntry,
+  RecordAttachment,
+  RecordStore,
+  RecordTable,
+  StoredRecord,
+} from '../types';
+
+// In-memory stand-ins. State lives as long as the instance, so tests can
+// create fresh ones and inspect what was written or sent.
+
+export interface MemoryRecordStore extends RecordStore {
+  records: Map<RecordTable, StoredRecord[]>;
+  attachments: { table: RecordTable; recordId: string; attachment: RecordAttachment }[];
+}
+
+export function createMemoryRecordStore(): MemoryRecordStore {
+  const records = new Map<RecordTable, StoredRecord[]>();
+  const attachments: MemoryRecordStore['attachments'] = [];
+
+  async function findByField(table: RecordTable, field: string, value: string): Promise<StoredRecord[]> {
+    const key = value.toLowerCase();
+    return (records.get(table) ?? []).filter((record) => String(record.fields[field] ?? '').toLowerCase() === key);
+  }
+
+  return {
+    records,
+    attachments,
+    async create(table, fields) {
+      const record: StoredRecord = {
+        id: `rec_mem_${crypto.randomUUID()}`,
+        createdAt: new Date().toISOString(),
+        fields,
+      };
+      records.set(table, [...(records.get(table) ?? []), record]);
+      return record;
+    },
+    async attach(table, recordId, attachment) {
+      attachments.push({ table, recordId, attachment });
+    },
+    async get(table, recordId) {
+      return records.get(table)?.find((record) => record.id === recordId);
+    },
+    async list(table) {
+      return [...(records.get(table) ?? [])];
+    },
+    findByEmail: (table, email) => findByField(table, 'Email', email),
+    findByField,
+    async update(table, recordId, fields) {
+      const record = records.get(table)?.find((existing) => existing.id === recordId);
+      if (!record) {
+        throw new Error(`No ${table} record ${recordId}`);
+      }
+      record.fields = { ...record.fields, ...fields };
+      return record;
+    },
+    async remove(table, recordId) {
+      records.set(table, (records.get(table) ?? []).filter((record) => record.id !== recordId));
+      const kept = attachments.filter((entry) => entry.table !== table || entry.recordId !== recordId);
+      attachments.splice(0, attachments.length, ...kept);
+    },
+  };
+}
+
+export interface MemoryMailingList extends MailingList {
+  contacts: Map<string, MailingListEntry>;
+}
+
+export function createMemoryMailingList(): MemoryMailingList {
+  const contacts = new Map<string, MailingListEntry>();
+  return {
+    contacts,
+    async subscribe(contact, status = 'subscribed') {
+      const key = contact.email.toLowerCase();
+      const existing = contacts.get(key);
+      if (!existing || existing.status === 'unsubscribed') {
+        contacts.set(key, { ...contact, status, createdAt: existing?.createdAt ?? new Date().toISOString() });
+      }
+    },
+    async confirm(contact) {
+      const key = contact.email.toLowerCase();
+      const createdAt = contacts.get(key)?.createdAt ?? new Date().toISOString();
+      contacts.set(key, { ...contact, status: 'subscribed', createdAt });
+    },
+    async unsubscribe(email) {
+      const existing = contacts.get(email.toLowerCase());
+      if (existing) {
+        existing.status = 'unsubscribed';
+      }
+    },
+    async remove(email) {
+      contacts.delete(email.toLowerCase());
+    },
+    async get(email) {
+      return contacts.get(email.toLowerCase());
+    },
+    async list() {
+      return [...contacts.values()];
+    },
+  };
+}
+
+export interface MemoryEmailSender extends EmailSender {
+  sent: EmailMessage[];
+}
+
+export function createMemoryEmailSender(): MemoryEmailSender {
+  const sent: EmailMessage[] = [];
+  return {
+    sent,
+    async send(message) {
+      sent.push(message);
+    },
+  };
+}
+
+export interface MemoryChatNotifier extends ChatNotifier {
+  messages: { channel: ChatChannel; text: string }[];
+}
+
+export function createMemoryChatNotifier(): MemoryChatNotifier {
+  const messages: { channel: ChatChannel; text: string }[] = [];
+  return {
+    messages,
+    async notify(channel, text) {
+      messages.push({ channel, text });
+    },
+  };
+}
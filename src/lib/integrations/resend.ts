@@ -0,0 +1,53 @@
+import { UpstreamError } from '../errors';
+import { readEnv, requireEnv } from '../env';
+import type { EmailSender } from './types';
+
+export function createResendSender(): EmailSender {
+  const env = requireEnv(['RESEND_API_KEY', 'FROM_EMAIL']);
+  const replyTo = readEnv('REPLY_TO_EMAIL');
+  const apiUrl = readEnv('RESEND_API_URL') ?? 'https://api.resend.com';
+
+  return {
+    async send(message) {
+      const payload: Record<string, unknown> = {
+        from: env.FROM_EMAIL,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      };
+
+      if (replyTo) {
+        payload.reply_to = replyTo;
+      }
+
+      if (message.headers) {
+        payload.headers = message.headers;
+      }
+
+      const response = await fetch(`${apiUrl}/emails`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${env.RESEND_API_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        throw new UpstreamError('Resend', response.status, await response.text());
+      }
+    },
+
+    async ping() {
+      const response = await fetch(`${apiUrl}/domains`, {
+        headers: { 'Authorization': `Bearer ${env.RESEND_API_KEY}` },
+      });
+      const body = await response.text();
+      // Sending-only keys can't list domains, but being told so means the key is valid
+      if (!response.ok && !body.includes('restricted_api_key')) {
+        throw new UpstreamError('Resend', response.status, body);
+      }
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { UpstreamError } from '../errors';
+import { readEnv } from '../env';
+import type { ChatChannel, ChatNotifier } from './types';
+
+// Incoming-webhook env vars for each channel, in order of preference
+export const WEBHOOK_ENV: Record<ChatChannel, string[]> = {
+  community: ['SLACK_WEBHOOK_URL'],
+  merch: ['SLACK_MERCH_WEBHOOK_URL'],
+  // Accelerator applications go to the community channel until they get their own
+  accelerator: ['SLACK_ACCELERATOR_WEBHOOK_URL', 'SLACK_WEBHOOK_URL'],
+  // Partner leads go to a channel per audience, then a shared partners channel
+  'partner-companies': ['SLACK_PARTNER_COMPANIES_WEBHOOK_URL', 'SLACK_PARTNERS_WEBHOOK_URL', 'SLACK_WEBHOOK_URL'],
+  'partner-investors': ['SLACK_PARTNER_INVESTORS_WEBHOOK_URL', 'SLACK_PARTNERS_WEBHOOK_URL', 'SLACK_WEBHOOK_URL'],
+  'partner-universities': ['SLACK_PARTNER_UNIVERSITIES_WEBHOOK_URL', 'SLACK_PARTNERS_WEBHOOK_URL', 'SLACK_WEBHOOK_URL'],
+  // Operational alerts (e.g. submissions that couldn't be saved)
+  alerts: ['SLACK_ALERTS_WEBHOOK_URL'],
+};
+
+export function createSlackNotifier(): ChatNotifier {
+  return {
+    async notify(channel, text) {
+      const webhookUrl = WEBHOOK_ENV[channel].map((name) => readEnv(name)).find(Boolean);
+      if (!webhookUrl) return;
+
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text }),
+      });
+
+      if (!response.ok) {
+        throw new UpstreamError('Slack', response.status, await response.text());
+      }
+    },
+  };
+}
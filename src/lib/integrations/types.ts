@@ -0,0 +1,101 @@
+// Adapter interfaces for everything the site talks to outside its own process.
+// Live implementations wrap Airtable, EmailOctopus, Resend and Slack; the
+// stand-ins in ./local keep `astro dev` and tests working without credentials.
+
+// Logical table names; each store maps them to its own identifiers
+export type RecordTable = 'community' | 'merch' | 'accelerator' | 'orders' | 'partners';
+
+export interface StoredRecord {
+  id: string;
+  createdAt: string;
+  fields: Record<string, unknown>;
+}
+
+// A file to attach to an existing record, with base64 data
+export interface RecordAttachment {
+  field: string;
+  filename: string;
+  contentType: string;
+  data: string;
+}
+
+export interface RecordStore {
+  create(table: RecordTable, fields: Record<string, unknown>): Promise<StoredRecord>;
+  // Uploads a file into one of the record's attachment fields
+  attach(table: RecordTable, recordId: string, attachment: RecordAttachment): Promise<void>;
+  // Undefined if there's no such record
+  get(table: RecordTable, recordId: string): Promise<StoredRecord | undefined>;
+  // Every record in the table, oldest first
+  list(table: RecordTable): Promise<StoredRecord[]>;
+  // Records whose Email field matches, ignoring case
+  findByEmail(table: RecordTable, email: string): Promise<StoredRecord[]>;
+  // Records whose text field matches, ignoring case
+  findByField(table: RecordTable, field: string, value: string): Promise<StoredRecord[]>;
+  // Changes only the given fields
+  update(table: RecordTable, recordId: string, fields: Record<string, unknown>): Promise<StoredRecord>;
+  // Deletes the record and its attachments; resolves if it's already gone
+  remove(table: RecordTable, recordId: string): Promise<void>;
+  // Live adapters only: resolves if the service answers and accepts the credentials
+  ping?(): Promise<void>;
+}
+
+export interface MailingListContact {
+  email: string;
+  fields: Record<string, string>;
+}
+
+// Pending contacts have signed up but not yet clicked the confirmation link
+export type SubscriptionStatus = 'pending' | 'subscribed';
+
+export interface MailingListEntry extends MailingListContact {
+  status: SubscriptionStatus | 'unsubscribed';
+  // When the contact was first added, if the list keeps track
+  createdAt?: string;
+}
+
+export interface MailingList {
+  // Resolves for new and already-listed contacts alike
+  subscribe(contact: MailingListContact, status?: SubscriptionStatus): Promise<void>;
+  // Marks a pending contact as subscribed, adding them if they aren't on the list yet
+  confirm(contact: MailingListContact): Promise<void>;
+  // Resolves even if the address isn't on the list
+  unsubscribe(email: string): Promise<void>;
+  // Deletes the contact outright, unlike unsubscribe; resolves if the address isn't on the list
+  remove(email: string): Promise<void>;
+  // The contact with this address, whatever its status; undefined if it isn't on the list
+  get(email: string): Promise<MailingListEntry | undefined>;
+  // Every contact, including unsubscribed ones, oldest first
+  list(): Promise<MailingListEntry[]>;
+  // Live adapters only: resolves if the service answers and accepts the credentials
+  ping?(): Promise<void>;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  // Extra headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>;
+}
+
+export interface EmailSender {
+  send(message: EmailMessage): Promise<void>;
+  // Live adapters only: resolves if the service answers and accepts the credentials
+  ping?(): Promise<void>;
+}
+
+// Logical notification channels; each notifier maps them to its own destinations
+export type ChatChannel =
+  | 'community'
+  | 'merch'
+  | 'accelerator'
+  | 'partner-companies'
+  | 'partner-investors'
+  | 'partner-universities'
+  | 'alerts';
+
+export interface ChatNotifier {
+  // Channels without a configured destination are skipped silently
+  notify(channel: ChatChannel, text: string): Promise<void>;
+}
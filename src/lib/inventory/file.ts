@@ -0,0 +1,34 @@
+import { join } from 'node:path';
+import { readJsonLines, writeJsonLines } from '../json-files';
+import type { InventoryStore } from './types';
+
+interface InventoryLine {
+  sku: string;
+  claimed: number;
+}
+
+// inventory.jsonl, one line per SKU that has ever been claimed
+export function createFileInventoryStore(dataDir: string): InventoryStore {
+  const path = join(dataDir, 'inventory.jsonl');
+
+  async function read(): Promise<Map<string, number>> {
+    return new Map((await readJsonLines<InventoryLine>(path)).map((line) => [line.sku, line.claimed]));
+  }
+
+  return {
+    async adjust(changes) {
+      const counts = await read();
+      const result: Record<string, number> = {};
+      for (const [sku, delta] of Object.entries(changes)) {
+        result[sku] = (counts.get(sku) ?? 0) + delta;
+        counts.set(sku, result[sku]);
+      }
+      await writeJsonLines(path, Array.from(counts, ([sku, claimed]) => ({ sku, claimed })));
+      return result;
+    },
+    async claimed(skus) {
+      const counts = await read();
+      return Object.fromEntries(skus.map((sku) => [sku, counts.get(sku) ?? 0]));
+    },
+  };
+}
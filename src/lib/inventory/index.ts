@@ -0,0 +1,44 @@
+import { selectStore } from '../stores';
+import { createFileInventoryStore } from './file';
+import { createMemoryInventoryStore } from './memory';
+import { createRedisInventoryStore } from './redis';
+import type { InventoryStore } from './types';
+
+export type * from './types';
+
+// Merch stock claimed by orders.
+//   INVENTORY_STORE   memory | file | redis (default: redis with KV_REST_API_URL,
+//                     file with INTEGRATIONS=local; see ../stores)
+
+const memoryStore = createMemoryInventoryStore();
+
+export function getInventoryStore(): InventoryStore {
+  return selectStore('INVENTORY_STORE', {
+    redis: createRedisInventoryStore,
+    file: createFileInventoryStore,
+    memory: memoryStore,
+  });
+}
+
+// Units of each SKU to take from stock
+export type StockClaim = Record<string, number>;
+
+// Claims every unit or none. Each SKU is incremented first and the whole claim
+// rolled back if any of them went past its stock, so concurrent checkouts
+// can't oversell. Returns the SKUs that didn't have enough left.
+export async function reserveStock(
+  store: InventoryStore,
+  claim: StockClaim,
+  stock: Record<string, number>
+): Promise<string[]> {
+  const counts = await store.adjust(claim);
+  const short = Object.keys(claim).filter((sku) => counts[sku] > (stock[sku] ?? 0));
+  if (short.length > 0) {
+    await releaseStock(store, claim);
+  }
+  return short;
+}
+
+export async function releaseStock(store: InventoryStore, claim: StockClaim): Promise<void> {
+  await store.adjust(Object.fromEntries(Object.entries(claim).map(([sku, quantity]) => [sku, -quantity])));
+}
@@ -0,0 +1,20 @@
+import type { InventoryStore } from './types';
+
+// Not durable: counts reset on restart. Only for tests and single-process dev.
+export function createMemoryInventoryStore(): InventoryStore {
+  const counts = new Map<string, number>();
+
+  return {
+    async adjust(changes) {
+      const result: Record<string, number> = {};
+      for (const [sku, delta] of Object.entries(changes)) {
+        result[sku] = (counts.get(sku) ?? 0) + delta;
+        counts.set(sku, result[sku]);
+      }
+      return result;
+    },
+    async claimed(skus) {
+      return Object.fromEntries(skus.map((sku) => [sku, counts.get(sku) ?? 0]));
+    },
+  };
+}
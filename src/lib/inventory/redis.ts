@@ -0,0 +1,23 @@
+import type { RedisClient } from '../redis';
+import type { InventoryStore } from './types';
+
+// One hash of SKU -> claimed units. HINCRBY is atomic, so two checkouts racing
+// for the last unit can't both see it as free.
+const KEY = 'inventory:claimed';
+
+export function createRedisInventoryStore(redis: RedisClient): InventoryStore {
+  return {
+    async adjust(changes) {
+      const entries = Object.entries(changes);
+      if (entries.length === 0) return {};
+      const results = await redis.pipeline(entries.map(([sku, delta]) => ['HINCRBY', KEY, sku, delta]));
+      return Object.fromEntries(entries.map(([sku], index) => [sku, Number(results[index])]));
+    },
+    async claimed(skus) {
+      if (skus.length === 0) return {};
+      const [values] = await redis.pipeline([['HMGET', KEY, ...skus]]);
+      const counts = Array.isArray(values) ? values : [];
+      return Object.fromEntries(skus.map((sku, index) => [sku, Number(counts[index] ?? 0)]));
+    },
+  };
+}
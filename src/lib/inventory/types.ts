@@ -0,0 +1,8 @@
+// Units claimed per SKU: sold, or held by a checkout that hasn't finished yet.
+// What's left to sell is the product's stock (src/content/products) minus this.
+export interface InventoryStore {
+  // Adds each delta (negative to give units back) and returns the new counts
+  adjust(changes: Record<string, number>): Promise<Record<string, number>>;
+  // Counts for the given SKUs; unknown SKUs have claimed nothing
+  claimed(skus: string[]): Promise<Record<string, number>>;
+}
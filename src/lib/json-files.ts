@@ -0,0 +1,35 @@
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { readEnv } from './env';
+
+// Helpers for the file-backed local stand-ins (records, mailing list, outbox)
+
+// Where the stand-ins write; git-ignored
+export function localDataDir(): string {
+  return readEnv('LOCAL_DATA_DIR') ?? '.data';
+}
+
+export async function readJsonLines<T>(path: string): Promise<T[]> {
+  try {
+    const contents = await readFile(path, 'utf8');
+    return contents
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as T);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+export async function appendJsonLine(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await appendFile(path, `${JSON.stringify(value)}\n`, 'utf8');
+}
+
+export async function writeJsonLines(path: string, values: unknown[]): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, values.map((value) => `${JSON.stringify(value)}\n`).join(''), 'utf8');
+}
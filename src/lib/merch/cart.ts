@@ -0,0 +1,64 @@
+// Browser-side merch cart, kept in localStorage so it survives reloads and the
+// round trip to the payment provider. Only SKUs and quantities are stored:
+// names and prices always come from the catalogue the page was rendered with.
+
+const STORAGE_KEY = 'ttb-merch-cart';
+const CHANGE_EVENT = 'merch-cart-change';
+
+export interface CartLine {
+  sku: string;
+  quantity: number;
+}
+
+export function readCart(): CartLine[] {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (line): line is CartLine =>
+        typeof line?.sku === 'string' && Number.isInteger(line.quantity) && line.quantity > 0
+    );
+  } catch {
+    // Storage disabled (e.g. some private browsing modes) or a corrupt value
+    return [];
+  }
+}
+
+function writeCart(lines: CartLine[]): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(lines.filter((line) => line.quantity > 0)));
+  } catch {
+    // The cart then only lasts as long as the page
+  }
+  window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+}
+
+// Sets a line's quantity (0 removes it), capped at `max`
+export function setQuantity(sku: string, quantity: number, max = Infinity): void {
+  const lines = readCart();
+  const capped = Math.min(Math.max(0, Math.floor(quantity)), max);
+  const line = lines.find((existing) => existing.sku === sku);
+  if (line) {
+    line.quantity = capped;
+  } else {
+    lines.push({ sku, quantity: capped });
+  }
+  writeCart(lines);
+}
+
+export function addToCart(sku: string, quantity = 1, max = Infinity): void {
+  const current = readCart().find((line) => line.sku === sku)?.quantity ?? 0;
+  setQuantity(sku, current + quantity, max);
+}
+
+export function clearCart(): void {
+  writeCart([]);
+}
+
+// Runs on every change, including ones made in other tabs
+export function onCartChange(listener: () => void): void {
+  window.addEventListener(CHANGE_EVENT, listener);
+  window.addEventListener('storage', (event) => {
+    if (event.key === STORAGE_KEY) listener();
+  });
+}
@@ -0,0 +1,72 @@
+import { getProducts, sizeMap, type MerchSize } from '../content';
+import type { InventoryStore } from '../inventory';
+
+// The merch catalogue as the store sells it: products from
+// src/content/products with what's left of each variant after orders.
+
+export interface StoreVariant {
+  sku: string;
+  size: MerchSize;
+  // 'M', 'XL', ...
+  label: string;
+  stock: number;
+  available: number;
+}
+
+export interface StoreProduct {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  currency: string;
+  image: string;
+  imageAlt: string;
+  releaseDate?: Date;
+  keywords: string[];
+  variants: StoreVariant[];
+}
+
+export async function getCatalog(inventory: InventoryStore): Promise<StoreProduct[]> {
+  const products = await getProducts();
+  const skus = products.flatMap((product) => product.data.variants.map((variant) => variant.sku));
+  const duplicate = skus.find((sku, index) => skus.indexOf(sku) !== index);
+  if (duplicate) {
+    throw new Error(`SKU ${duplicate} is used by more than one product variant`);
+  }
+
+  const claimed = await inventory.claimed(skus);
+  return products.map(({ id, data }) => ({
+    id,
+    name: data.name,
+    description: data.description,
+    price: data.price,
+    currency: data.currency,
+    image: data.image,
+    imageAlt: data.imageAlt,
+    releaseDate: data.releaseDate,
+    keywords: data.keywords,
+    variants: data.variants.map((variant) => ({
+      sku: variant.sku,
+      size: variant.size,
+      label: sizeMap[variant.size],
+      stock: variant.stock,
+      available: Math.max(0, variant.stock - (claimed[variant.sku] ?? 0)),
+    })),
+  }));
+}
+
+// Before its release date a product is only sold with an early-access code
+export function isPreRelease(product: StoreProduct, now = new Date()): boolean {
+  return product.releaseDate !== undefined && product.releaseDate > now;
+}
+
+export function findVariant(
+  catalog: StoreProduct[],
+  sku: string
+): { product: StoreProduct; variant: StoreVariant } | undefined {
+  for (const product of catalog) {
+    const variant = product.variants.find((candidate) => candidate.sku === sku);
+    if (variant) return { product, variant };
+  }
+  return undefined;
+}
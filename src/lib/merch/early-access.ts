@@ -0,0 +1,23 @@
+import { timingSafeEqual } from 'node:crypto';
+import { signValue } from '../signed-links';
+
+// Early-access codes for merch waitlist members, e.g. TTB-7KQ2-M9XD. A code is
+// derived from the member's email address, so nothing needs storing: checkout
+// recomputes it from the email given and compares.
+
+// No 0/O or 1/I, so codes survive being read aloud or retyped
+const ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export function earlyAccessCode(email: string): string {
+  const digest = signValue('merch-early-access', email.trim().toLowerCase());
+  const chars = Array.from(digest.subarray(0, 8), (byte) => ALPHABET[byte % ALPHABET.length]).join('');
+  return `TTB-${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+// Case, spaces and missing dashes are forgiven
+export function isEarlyAccessCode(email: string, code: string): boolean {
+  const normalize = (value: string) => value.toUpperCase().replace(/[^0-9A-Z]/g, '');
+  const expected = Buffer.from(normalize(earlyAccessCode(email)));
+  const provided = Buffer.from(normalize(code));
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
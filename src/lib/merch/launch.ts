@@ -0,0 +1,226 @@
+import { formatDate, MERCH_SIZES, type MerchSize } from '../content';
+import { merchLaunch, renderEmail } from '../emails';
+import { ConfigurationError, UpstreamError } from '../errors';
+import { readEnv } from '../env';
+import type { Integrations, RecordStore, StoredRecord } from '../integrations';
+import type { SentLog } from '../sent-log';
+import { createSignedToken, verifySignedToken } from '../signed-links';
+import { isPreRelease, type StoreProduct, type StoreVariant } from './catalog';
+import { earlyAccessCode } from './early-access';
+import { formatPrice } from './prices';
+
+// Launch and back-in-stock emails to the merch waitlist, triggered by the team
+// through /api/internal/merch-launch. Each waitlist member is matched on the
+// size they asked for and, if they said what they're interested in, on the
+// product's keywords. A per-recipient sent log means a run can stop part way
+// and be repeated without anyone getting the same email twice.
+
+export const LAUNCH_KINDS = ['launch', 'restock'] as const;
+export type LaunchKind = (typeof LAUNCH_KINDS)[number];
+
+const OPT_OUT_PURPOSE = 'merch-waitlist-opt-out';
+
+// Emails go out in small batches with a pause between them, to stay under the
+// email provider's rate limit (Resend allows 2 requests a second by default)
+const DEFAULT_BATCH_SIZE = 2;
+const DEFAULT_BATCH_PAUSE_MS = 1000;
+
+// No new batch is started after this long, so a run fits in a serverless
+// function's time limit. Whoever is left goes out on the next run.
+const RUN_BUDGET_MS = 45 * 1000;
+
+export interface LaunchOptions {
+  product: StoreProduct;
+  kind: LaunchKind;
+  // Only members who asked for one of these sizes, e.g. the ones just restocked.
+  // Sizes that are out of stock are always left out.
+  sizes?: MerchSize[];
+  // Sent-log key. Defaults to "<kind>:<product id>"; a later restock of the
+  // same product needs a new name or nobody will be emailed again.
+  campaign?: string;
+  // Counts who would be emailed without sending anything
+  dryRun?: boolean;
+}
+
+export interface LaunchSummary {
+  campaign: string;
+  // Waitlist members the product is relevant to
+  matched: number;
+  alreadySent: number;
+  sent: number;
+  failed: number;
+  // Matched members still to email; run again to reach them
+  remaining: number;
+}
+
+interface LaunchRecipient {
+  email: string;
+  name: string;
+  variant: StoreVariant;
+}
+
+function throttle(): { batchSize: number; pauseMs: number } {
+  const batchSize = Number(readEnv('MERCH_LAUNCH_BATCH_SIZE'));
+  const pauseMs = Number(readEnv('MERCH_LAUNCH_BATCH_PAUSE_MS'));
+  return {
+    batchSize: Number.isInteger(batchSize) && batchSize > 0 ? batchSize : DEFAULT_BATCH_SIZE,
+    pauseMs: Number.isInteger(pauseMs) && pauseMs >= 0 ? pauseMs : DEFAULT_BATCH_PAUSE_MS,
+  };
+}
+
+export function isMerchSize(value: unknown): value is MerchSize {
+  return typeof value === 'string' && (MERCH_SIZES as readonly string[]).includes(value);
+}
+
+// Opt-out links (/merch/opt-out) never expire
+export function optOutPageUrl(origin: string, email: string): string {
+  const token = createSignedToken(OPT_OUT_PURPOSE, { email });
+  return `${origin}/merch/opt-out?token=${encodeURIComponent(token)}`;
+}
+
+export function oneClickOptOutUrl(origin: string, email: string): string {
+  const token = createSignedToken(OPT_OUT_PURPOSE, { email });
+  return `${origin}/api/merch/opt-out?token=${encodeURIComponent(token)}`;
+}
+
+export function readOptOutToken(token: string | null): string | undefined {
+  return verifySignedToken<{ email: string }>(OPT_OUT_PURPOSE, token)?.email;
+}
+
+// Flags every waitlist record with this email as opted out. Joining the
+// waitlist again updates the same record and leaves the opt-out in place,
+// since the address isn't verified (see ../dedupe); the team can clear
+// `Opted Out` in Airtable for anyone who asks to be back on the list.
+export async function optOutOfWaitlist(records: RecordStore, email: string): Promise<void> {
+  for (const record of await records.findByEmail('merch', email)) {
+    if (!record.fields['Opted Out']) {
+      await records.update('merch', record.id, { 'Opted Out': true });
+    }
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A blank answer means "anything"; otherwise one of the keywords has to appear
+// as a word (plurals included), so "tee" doesn't match "between"
+export function matchesInterest(interest: string, keywords: string[]): boolean {
+  if (!interest.trim() || keywords.length === 0) return true;
+  return keywords.some((keyword) => new RegExp(`\\b${escapeRegExp(keyword)}s?\\b`, 'i').test(interest));
+}
+
+// One recipient per email address. Repeat signups update one record, but
+// addresses with several from before deduplication go by the most recent.
+export function findLaunchRecipients(
+  waitlist: StoredRecord[],
+  product: StoreProduct,
+  sizes?: MerchSize[]
+): LaunchRecipient[] {
+  const latest = new Map<string, StoredRecord>();
+  for (const record of waitlist) {
+    const email = String(record.fields['Email'] ?? '').trim().toLowerCase();
+    const previous = latest.get(email);
+    if (email && (!previous || record.createdAt >= previous.createdAt)) {
+      latest.set(email, record);
+    }
+  }
+
+  const recipients: LaunchRecipient[] = [];
+  for (const [email, record] of latest) {
+    if (record.fields['Opted Out']) continue;
+
+    const size = String(record.fields['Size Preference'] ?? '');
+    const variant = product.variants.find(
+      (candidate) => candidate.label === size && candidate.available > 0 && (!sizes || sizes.includes(candidate.size))
+    );
+    if (!variant) continue;
+    if (!matchesInterest(String(record.fields['Interested In'] ?? ''), product.keywords)) continue;
+
+    recipients.push({ email, name: String(record.fields['Name'] ?? ''), variant });
+  }
+  return recipients;
+}
+
+const pause = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function runLaunch(
+  integrations: Integrations,
+  sentLog: SentLog,
+  origin: string,
+  options: LaunchOptions
+): Promise<LaunchSummary> {
+  const { product, kind } = options;
+  const campaign = options.campaign ?? `${kind}:${product.id}`;
+
+  const recipients = findLaunchRecipients(await integrations.records.list('merch'), product, options.sizes);
+  const alreadySent = await sentLog.recipients(campaign);
+  const pending = recipients.filter((recipient) => !alreadySent.has(recipient.email));
+  const summary: LaunchSummary = {
+    campaign,
+    matched: recipients.length,
+    alreadySent: recipients.length - pending.length,
+    sent: 0,
+    failed: 0,
+    remaining: pending.length,
+  };
+  if (options.dryRun || pending.length === 0) {
+    return summary;
+  }
+
+  const sender = integrations.email;
+  if (!sender) {
+    throw new ConfigurationError(['RESEND_API_KEY', 'FROM_EMAIL']);
+  }
+
+  const { batchSize, pauseMs } = throttle();
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  const earlyAccess = isPreRelease(product) && product.releaseDate ? formatDate(product.releaseDate) : undefined;
+
+  for (let start = 0; start < pending.length; start += batchSize) {
+    if (start > 0) {
+      if (Date.now() + pauseMs > deadline) break;
+      await pause(pauseMs);
+    }
+
+    for (const recipient of pending.slice(start, start + batchSize)) {
+      try {
+        await sender.send({
+          to: recipient.email,
+          ...renderEmail(merchLaunch, {
+            name: recipient.name,
+            kind,
+            product: product.name,
+            price: formatPrice(product.price, product.currency),
+            size: recipient.variant.label,
+            shopUrl: `${origin}/merch#shop`,
+            earlyAccess: earlyAccess ? { code: earlyAccessCode(recipient.email), until: earlyAccess } : undefined,
+            optOutUrl: optOutPageUrl(origin, recipient.email),
+          }),
+          headers: {
+            'List-Unsubscribe': `<${oneClickOptOutUrl(origin, recipient.email)}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        });
+        // Logged after sending: if logging fails the person may get a second
+        // copy on the next run, but nobody is skipped without being emailed
+        await sentLog.add(campaign, recipient.email);
+        summary.sent++;
+      } catch (error) {
+        // Left out of the sent log, so the next run tries them again
+        summary.failed++;
+        if (error instanceof UpstreamError) {
+          console.error(`[merch-launch] ${error.service} API error for ${recipient.email}:`, {
+            status: error.status,
+            body: error.body,
+          });
+        } else {
+          console.error(`[merch-launch] Could not email ${recipient.email}:`, error);
+        }
+      }
+    }
+  }
+
+  summary.remaining = pending.length - summary.sent;
+  return summary;
+}
@@ -0,0 +1,253 @@
+import { formatDate } from '../content';
+import { merchOrderConfirmed, renderEmail } from '../emails';
+import { isValidEmail, type FieldError } from '../forms/schema';
+import { logError } from '../http';
+import type { Integrations } from '../integrations';
+import { releaseStock, reserveStock, type InventoryStore, type StockClaim } from '../inventory';
+import type { PaymentEvent, PaymentProvider } from '../payments';
+import { findVariant, getCatalog, isPreRelease } from './catalog';
+import { isEarlyAccessCode } from './early-access';
+import { formatPrice } from './prices';
+
+// Merch orders live in the record store's `orders` table. An order is created
+// as Pending with its stock reserved, then the payment provider's webhook
+// marks it Paid, or Expired (giving the stock back) if checkout is abandoned.
+
+export const MAX_QUANTITY = 10;
+const MAX_LINES = 20;
+
+// How long a customer has to pay before the reserved stock goes back on sale
+const CHECKOUT_TTL_MS = 60 * 60 * 1000;
+
+export type OrderStatus = 'Pending' | 'Paid' | 'Expired' | 'Failed';
+
+export interface OrderItem {
+  sku: string;
+  // "The Tech Bros Hoodie (M)"
+  name: string;
+  unitAmount: number;
+  quantity: number;
+}
+
+export interface CheckoutInput {
+  email: string;
+  items: { sku: string; quantity: number }[];
+  earlyAccessCode?: string;
+}
+
+export interface CheckoutRejection {
+  ok: false;
+  status: number;
+  error: string;
+  fieldErrors?: FieldError[];
+}
+
+export type CheckoutOutcome = { ok: true; url: string } | CheckoutRejection;
+
+const invalid = (status: number, error: string, field?: string): CheckoutRejection => ({
+  ok: false,
+  status,
+  error,
+  ...(field && { fieldErrors: [{ field, message: error }] }),
+});
+
+// Validates the JSON body sent by the cart: { email, items: [{ sku, quantity }], earlyAccessCode? }
+export function parseCheckoutInput(body: Record<string, unknown>): CheckoutInput | CheckoutRejection {
+  const email = typeof body.email === 'string' ? body.email.trim() : '';
+  if (!email) return invalid(400, 'Email is required', 'email');
+  if (!isValidEmail(email)) return invalid(400, 'Invalid email format', 'email');
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    return invalid(400, 'Your cart is empty');
+  }
+  if (body.items.length > MAX_LINES) {
+    return invalid(400, 'Too many items in your cart');
+  }
+
+  // The same SKU twice is merged into one line
+  const quantities = new Map<string, number>();
+  for (const item of body.items as unknown[]) {
+    const { sku, quantity } = (item ?? {}) as { sku?: unknown; quantity?: unknown };
+    if (typeof sku !== 'string' || !Number.isInteger(quantity) || (quantity as number) < 1) {
+      return invalid(400, 'Invalid cart item');
+    }
+    quantities.set(sku, (quantities.get(sku) ?? 0) + (quantity as number));
+  }
+  if ([...quantities.values()].some((quantity) => quantity > MAX_QUANTITY)) {
+    return invalid(400, `You can order up to ${MAX_QUANTITY} of each item`);
+  }
+
+  const code = typeof body.earlyAccessCode === 'string' ? body.earlyAccessCode.trim() : '';
+  return {
+    email,
+    items: Array.from(quantities, ([sku, quantity]) => ({ sku, quantity })),
+    ...(code && { earlyAccessCode: code }),
+  };
+}
+
+function claimOf(items: OrderItem[]): StockClaim {
+  return Object.fromEntries(items.map((item) => [item.sku, item.quantity]));
+}
+
+const describeItem = (item: OrderItem, currency: string) =>
+  `${item.quantity} × ${item.name} — ${formatPrice(item.unitAmount * item.quantity, currency)}`;
+
+// Prices everything from the catalogue (never from the browser), reserves the
+// stock, records a Pending order and opens a checkout session for it
+export async function startCheckout(
+  integrations: Integrations,
+  inventory: InventoryStore,
+  provider: PaymentProvider,
+  input: CheckoutInput,
+  origin: string
+): Promise<CheckoutOutcome> {
+  const catalog = await getCatalog(inventory);
+  const now = new Date();
+
+  const items: OrderItem[] = [];
+  const stock: Record<string, number> = {};
+  const currencies = new Set<string>();
+  let earlyAccessUntil: Date | undefined;
+  for (const { sku, quantity } of input.items) {
+    const match = findVariant(catalog, sku);
+    if (!match) {
+      return invalid(409, 'Something in your cart is no longer sold. Please remove it and try again.');
+    }
+    const { product, variant } = match;
+    items.push({ sku, name: `${product.name} (${variant.label})`, unitAmount: product.price, quantity });
+    stock[sku] = variant.stock;
+    currencies.add(product.currency);
+    const release = isPreRelease(product, now) ? product.releaseDate : undefined;
+    if (release && (!earlyAccessUntil || release > earlyAccessUntil)) {
+      earlyAccessUntil = release;
+    }
+  }
+
+  if (currencies.size > 1) {
+    return invalid(400, 'Items priced in different currencies need separate orders');
+  }
+  const [currency] = currencies;
+
+  if (earlyAccessUntil) {
+    if (!input.earlyAccessCode) {
+      return invalid(403, `Until ${formatDate(earlyAccessUntil)} you need an early-access code from the waitlist`, 'earlyAccessCode');
+    }
+    if (!isEarlyAccessCode(input.email, input.earlyAccessCode)) {
+      return invalid(403, "That early-access code doesn't match this email address", 'earlyAccessCode');
+    }
+  }
+
+  const claim = claimOf(items);
+  const short = await reserveStock(inventory, claim, stock);
+  if (short.length > 0) {
+    const names = items.filter((item) => short.includes(item.sku)).map((item) => item.name);
+    return invalid(409, `Not enough left in stock: ${names.join(', ')}. Please lower the quantity and try again.`);
+  }
+
+  const total = items.reduce((sum, item) => sum + item.unitAmount * item.quantity, 0);
+  let orderId: string | undefined;
+  try {
+    const order = await integrations.records.create('orders', {
+      'Email': input.email,
+      'Items': JSON.stringify(items),
+      'Summary': items.map((item) => describeItem(item, currency)).join('\n'),
+      'Total': total / 100,
+      'Currency': currency,
+      'Status': 'Pending' satisfies OrderStatus,
+      'Payment Provider': provider.name,
+      ...(input.earlyAccessCode && { 'Early Access Code': input.earlyAccessCode }),
+    });
+    orderId = order.id;
+
+    const session = await provider.createCheckoutSession({
+      orderId,
+      email: input.email,
+      currency,
+      lineItems: items,
+      successUrl: `${origin}/merch/order?status=paid`,
+      cancelUrl: `${origin}/merch?checkout=cancelled#cart`,
+      expiresAt: now.getTime() + CHECKOUT_TTL_MS,
+    });
+    await integrations.records.update('orders', orderId, { 'Checkout Session': session.id });
+    return { ok: true, url: session.url };
+  } catch (error) {
+    // Nothing will ever pay for this order, so its stock goes straight back
+    await releaseStock(inventory, claim);
+    if (orderId) {
+      await integrations.records
+        .update('orders', orderId, { 'Status': 'Failed' satisfies OrderStatus })
+        .catch((updateError) => console.error('[merch-checkout] Could not mark order as failed:', updateError));
+    }
+    throw error;
+  }
+}
+
+export type PaymentEventResult = 'paid' | 'expired' | 'ignored' | 'not-found';
+
+// Applies a webhook event to its order. Providers retry deliveries, so every
+// transition is idempotent: a repeat of an applied event is ignored.
+export async function handlePaymentEvent(
+  integrations: Integrations,
+  inventory: InventoryStore,
+  event: PaymentEvent
+): Promise<PaymentEventResult> {
+  const order = await integrations.records.get('orders', event.orderId);
+  if (!order) {
+    return 'not-found';
+  }
+
+  const session = order.fields['Checkout Session'];
+  if (session && session !== event.sessionId) {
+    return 'ignored';
+  }
+
+  const status = order.fields['Status'] as OrderStatus | undefined;
+  const items = JSON.parse(String(order.fields['Items'] ?? '[]')) as OrderItem[];
+  const currency = String(order.fields['Currency'] ?? 'GBP');
+
+  if (event.type === 'checkout.expired') {
+    if (status !== 'Pending') return 'ignored';
+    await releaseStock(inventory, claimOf(items));
+    await integrations.records.update('orders', order.id, { 'Status': 'Expired' satisfies OrderStatus });
+    return 'expired';
+  }
+
+  if (status === 'Paid') return 'ignored';
+  if (status === 'Expired' || status === 'Failed') {
+    // Paid after its stock was released (e.g. a slow bank payment): claim it
+    // again even if that oversells, and let the team sort out the shortfall
+    console.warn(`[merch-webhook] Order ${order.id} was paid after being marked ${status}`);
+    await inventory.adjust(claimOf(items));
+  }
+  await integrations.records.update('orders', order.id, {
+    'Status': 'Paid' satisfies OrderStatus,
+    'Paid At': new Date().toISOString(),
+  });
+
+  // Best-effort, like form notifications: the payment is already recorded
+  const email = String(order.fields['Email'] ?? '');
+  const total = formatPrice(items.reduce((sum, item) => sum + item.unitAmount * item.quantity, 0), currency);
+  const lines = items.map((item) => describeItem(item, currency));
+  const notifications: [string, () => Promise<void>][] = [
+    ['Slack', () => integrations.chat.notify('merch', `🛍️ New merch order\nEmail: ${email}\n${lines.join('\n')}\nTotal: ${total}`)],
+    [
+      'Email',
+      async () => {
+        if (!integrations.email || !email) return;
+        await integrations.email.send({
+          to: email,
+          ...renderEmail(merchOrderConfirmed, { orderId: order.id, items: lines, total }),
+        });
+      },
+    ],
+  ];
+  for (const [name, send] of notifications) {
+    try {
+      await send();
+    } catch (error) {
+      logError('merch-webhook', `${name} notification failed`, error);
+    }
+  }
+
+  return 'paid';
+}
@@ -0,0 +1,5 @@
+// Prices are kept in minor units (pence). Import-free so the browser cart can
+// format totals the same way the server does.
+export function formatPrice(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount / 100);
+}
@@ -0,0 +1,79 @@
+import { newsletterConfirm, renderEmail } from './emails';
+import { ConfigurationError } from './errors';
+import type { Locale } from './i18n';
+import type { EmailSender, Integrations, MailingListContact } from './integrations';
+import { executeOperation, type OutboxOperation } from './outbox';
+import { createSignedToken, verifySignedToken } from './signed-links';
+
+// Double opt-in: signups are added to the list as pending and only become
+// subscribed once the emailed confirmation link is clicked.
+
+const CONFIRM_PURPOSE = 'newsletter-confirm';
+const UNSUBSCRIBE_PURPOSE = 'newsletter-unsubscribe';
+const CONFIRM_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function confirmationUrl(origin: string, contact: MailingListContact): string {
+  const token = createSignedToken(CONFIRM_PURPOSE, contact, CONFIRM_TTL_MS);
+  return `${origin}/newsletter/confirm?token=${encodeURIComponent(token)}`;
+}
+
+export function readConfirmationToken(token: string | null): MailingListContact | undefined {
+  return verifySignedToken<MailingListContact>(CONFIRM_PURPOSE, token);
+}
+
+// Unsubscribe links never expire. The page asks for a click before removing
+// anyone, so link scanners that prefetch emails can't unsubscribe people.
+export function unsubscribePageUrl(origin: string, email: string): string {
+  const token = createSignedToken(UNSUBSCRIBE_PURPOSE, { email });
+  return `${origin}/newsletter/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+// Target of the List-Unsubscribe header (RFC 8058 one-click POST)
+export function oneClickUnsubscribeUrl(origin: string, email: string): string {
+  const token = createSignedToken(UNSUBSCRIBE_PURPOSE, { email });
+  return `${origin}/api/newsletter/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+export function readUnsubscribeToken(token: string | null): string | undefined {
+  return verifySignedToken<{ email: string }>(UNSUBSCRIBE_PURPOSE, token)?.email;
+}
+
+export async function sendConfirmationEmail(
+  sender: EmailSender,
+  origin: string,
+  contact: MailingListContact,
+  locale?: Locale
+): Promise<void> {
+  await sender.send({
+    to: contact.email,
+    ...renderEmail(newsletterConfirm, {
+      firstName: contact.fields.FirstName,
+      confirmUrl: confirmationUrl(origin, contact),
+      unsubscribeUrl: unsubscribePageUrl(origin, contact.email),
+      locale,
+    }),
+    headers: {
+      'List-Unsubscribe': `<${oneClickUnsubscribeUrl(origin, contact.email)}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  });
+}
+
+// The double opt-in for a new signup, whichever form it came from. `perform`
+// writes to the list; forms pass their own so a failed write is retried from
+// the outbox. The confirmation email is sent in `locale`, the language of the
+// page they signed up on.
+export async function requestSubscription(
+  integrations: Integrations,
+  origin: string,
+  contact: MailingListContact,
+  perform: (operation: OutboxOperation) => Promise<void> = (operation) => executeOperation(integrations, operation),
+  locale?: Locale
+): Promise<void> {
+  if (!integrations.email) {
+    throw new ConfigurationError(['RESEND_API_KEY', 'FROM_EMAIL']);
+  }
+
+  await perform({ type: 'subscribe', contact, status: 'pending' });
+  await sendConfirmationEmail(integrations.email, origin, contact, locale);
+}
@@ -0,0 +1,65 @@
+import sharp from 'sharp';
+import { escapeHtml } from './html';
+import type { ShareCard } from './seo';
+
+// Share images for social cards, drawn as SVG in the site's colours and
+// converted to PNG (the networks don't accept SVG). Only used at build time,
+// by the prerendered routes in src/pages/og.
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+// Same stacks as global.css
+const SANS = 'Helvetica Neue, Helvetica, Arial, sans-serif';
+const MONO = 'Courier New, Courier, monospace';
+
+const TITLE_SIZE = 68;
+const TITLE_LINE_CHARS = 28;
+const TITLE_MAX_LINES = 4;
+
+// Greedy wrap on word boundaries; the last line gets an ellipsis if it runs over
+function wrap(text: string, lineChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    if (line && line.length + word.length + 1 > lineChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].replace(/\s*\S+$/, '')}…`;
+  }
+  return lines;
+}
+
+function cardSvg({ title, subtitle }: ShareCard): string {
+  const lines = wrap(title, TITLE_LINE_CHARS, TITLE_MAX_LINES);
+  // Bottom-aligned above the subtitle
+  const firstLineY = 470 - (lines.length - 1) * TITLE_SIZE * 1.1;
+  const titleLines = lines
+    .map((line, index) => `<tspan x="80" y="${firstLineY + index * TITLE_SIZE * 1.1}">${escapeHtml(line)}</tspan>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="#420021"/>
+      <stop offset="1" stop-color="#000000"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#bg)"/>
+  <rect x="80" y="80" width="120" height="8" fill="#ef1f9f"/>
+  <text x="80" y="150" font-family="${MONO}" font-size="36" fill="#5ce1e6">the tech bros</text>
+  <text font-family="${SANS}" font-size="${TITLE_SIZE}" font-weight="bold" fill="#ffffff">${titleLines}</text>
+  <text x="80" y="550" font-family="${SANS}" font-size="32" fill="#ffffff" fill-opacity="0.7">${escapeHtml(subtitle)}</text>
+</svg>`;
+}
+
+export async function renderOgImage(card: ShareCard): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await sharp(Buffer.from(cardSvg(card))).png().toBuffer());
+}
@@ -0,0 +1,40 @@
+import { join } from 'node:path';
+import { appendJsonLine, readJsonLines, writeJsonLines } from '../json-files';
+import type { OutboxEntry, OutboxStore } from './types';
+
+// outbox.jsonl holds the retry queue, dead-letter.jsonl the entries that gave up
+export function createFileOutboxStore(dataDir: string): OutboxStore {
+  const queuePath = join(dataDir, 'outbox.jsonl');
+  const deadPath = join(dataDir, 'dead-letter.jsonl');
+
+  async function removeFromQueue(id: string): Promise<void> {
+    const entries = await readJsonLines<OutboxEntry>(queuePath);
+    await writeJsonLines(queuePath, entries.filter((entry) => entry.id !== id));
+  }
+
+  return {
+    async save(entry) {
+      const entries = await readJsonLines<OutboxEntry>(queuePath);
+      await writeJsonLines(queuePath, [...entries.filter((existing) => existing.id !== entry.id), entry]);
+    },
+    async due(now, limit) {
+      const entries = await readJsonLines<OutboxEntry>(queuePath);
+      return entries
+        .filter((entry) => entry.nextAttemptAt <= now)
+        .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt)
+        .slice(0, limit);
+    },
+    remove: removeFromQueue,
+    async deadLetter(entry) {
+      await removeFromQueue(entry.id);
+      await appendJsonLine(deadPath, entry);
+    },
+    async deadLetters() {
+      return readJsonLines<OutboxEntry>(deadPath);
+    },
+    async removeDeadLetter(id) {
+      const entries = await readJsonLines<OutboxEntry>(deadPath);
+      await writeJsonLines(deadPath, entries.filter((entry) => entry.id !== id));
+    },
+  };
+}
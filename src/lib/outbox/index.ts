@@ -0,0 +1,180 @@
+import { upsertRecord } from '../dedupe';
+import { ConfigurationError, UpstreamError } from '../errors';
+import { readEnv } from '../env';
+import type { Integrations } from '../integrations';
+import { selectStore } from '../stores';
+import { createFileOutboxStore } from './file';
+import { createMemoryOutboxStore } from './memory';
+import { createRedisOutboxStore } from './redis';
+import type { OutboxEntry, OutboxOperation, OutboxStore } from './types';
+
+export type * from './types';
+
+// Failed upstream writes are parked here and replayed by /api/internal/drain-outbox.
+//   OUTBOX_STORE          memory | file | redis (default: redis with KV_REST_API_URL,
+//                         file with INTEGRATIONS=local; see ../stores)
+//   OUTBOX_MAX_ATTEMPTS   attempts before an entry is dead-lettered (default 8)
+
+const BASE_DELAY_MS = 60 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const memoryStore = createMemoryOutboxStore();
+
+export function getOutboxStore(): OutboxStore {
+  return selectStore('OUTBOX_STORE', {
+    redis: createRedisOutboxStore,
+    file: createFileOutboxStore,
+    memory: memoryStore,
+  });
+}
+
+function maxAttempts(): number {
+  const value = Number(readEnv('OUTBOX_MAX_ATTEMPTS'));
+  return Number.isInteger(value) && value > 0 ? value : 8;
+}
+
+// Exponential backoff: 1 min, 2 min, 4 min, ... capped at 6 hours
+export function nextAttemptDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+}
+
+// Server errors, throttling and network failures are worth retrying; other
+// 4xx responses mean the payload itself was rejected and will never succeed.
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof UpstreamError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return !(error instanceof ConfigurationError);
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof UpstreamError) {
+    return `${error.service} ${error.status}: ${error.body.substring(0, 500)}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function executeOperation(integrations: Integrations, operation: OutboxOperation): Promise<void> {
+  switch (operation.type) {
+    case 'createRecord': {
+      // The operation is updated in place as it progresses; if a step fails,
+      // the outbox saves it as it stands and the retry resumes from there
+      operation.recordId ??= (await integrations.records.create(operation.table, operation.fields)).id;
+      while (operation.attachments?.length) {
+        await integrations.records.attach(operation.table, operation.recordId, operation.attachments[0]);
+        operation.attachments.shift();
+      }
+      return;
+    }
+    case 'upsertRecord':
+      await upsertRecord(integrations.records, operation);
+      return;
+    case 'subscribe':
+      await integrations.mailingList.subscribe(operation.contact, operation.status);
+      return;
+  }
+}
+
+async function alertDeadLetter(integrations: Integrations, entry: OutboxEntry): Promise<void> {
+  console.error(`[outbox] Dead-lettered ${entry.operation.type} from ${entry.source}:`, entry.lastError);
+  try {
+    await integrations.chat.notify(
+      'alerts',
+      `⚠️ A ${entry.source} submission could not be saved after ${entry.attempts} attempt(s) and needs manual follow-up.
+Entry: ${entry.id}
+Last error: ${entry.lastError}`
+    );
+  } catch (error) {
+    console.error('[outbox] Failed to send dead-letter alert:', error);
+  }
+}
+
+// Runs the operation now; if the upstream fails, parks it in the outbox instead
+// of losing it. Resolves to 'queued' when the write was deferred. Rethrows the
+// original error if the outbox itself is unavailable, including when there's
+// no durable store to park it in, so the user is told to try again rather
+// than that a write nobody will retry is on its way. A write that won't be
+// retried (a rejected payload) is dead-lettered for the team and also
+// rethrown: the user's submission failed, and saying it's processing would be
+// a promise nothing keeps.
+export async function performDurably(
+  integrations: Integrations,
+  source: string,
+  operation: OutboxOperation
+): Promise<'completed' | 'queued'> {
+  try {
+    await executeOperation(integrations, operation);
+    return 'completed';
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      throw error;
+    }
+
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      source,
+      operation,
+      attempts: 1,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: Date.now() + nextAttemptDelay(1),
+      lastError: describeError(error),
+    };
+
+    const retry = isRetryable(error) && maxAttempts() > 1;
+    try {
+      const store = getOutboxStore();
+      if (retry) {
+        await store.save(entry);
+        console.warn(`[outbox] Queued ${operation.type} from ${source} for retry:`, entry.lastError);
+      } else {
+        await store.deadLetter(entry);
+        await alertDeadLetter(integrations, entry);
+      }
+    } catch (outboxError) {
+      console.error('[outbox] Could not park failed write:', outboxError);
+      throw error;
+    }
+    if (!retry) throw error;
+    return 'queued';
+  }
+}
+
+export interface DrainSummary {
+  processed: number;
+  succeeded: number;
+  rescheduled: number;
+  deadLettered: number;
+}
+
+export async function drainOutbox(integrations: Integrations, limit = 25): Promise<DrainSummary> {
+  const store = getOutboxStore();
+  const summary: DrainSummary = { processed: 0, succeeded: 0, rescheduled: 0, deadLettered: 0 };
+
+  for (const entry of await store.due(Date.now(), limit)) {
+    summary.processed++;
+    try {
+      await executeOperation(integrations, entry.operation);
+      await store.remove(entry.id);
+      summary.succeeded++;
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const updated: OutboxEntry = {
+        ...entry,
+        attempts,
+        nextAttemptAt: Date.now() + nextAttemptDelay(attempts),
+        lastError: describeError(error),
+      };
+
+      if (isRetryable(error) && attempts < maxAttempts()) {
+        await store.save(updated);
+        summary.rescheduled++;
+      } else {
+        await store.deadLetter(updated);
+        await alertDeadLetter(integrations, updated);
+        summary.deadLettered++;
+      }
+    }
+  }
+
+  return summary;
+}
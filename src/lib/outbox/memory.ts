@@ -0,0 +1,32 @@
+import type { OutboxEntry, OutboxStore } from './types';
+
+// Not durable: entries are lost on restart. Only for tests and single-process dev.
+export function createMemoryOutboxStore(): OutboxStore {
+  const queue = new Map<string, OutboxEntry>();
+  const dead = new Map<string, OutboxEntry>();
+
+  return {
+    async save(entry) {
+      queue.set(entry.id, entry);
+    },
+    async due(now, limit) {
+      return Array.from(queue.values())
+        .filter((entry) => entry.nextAttemptAt <= now)
+        .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt)
+        .slice(0, limit);
+    },
+    async remove(id) {
+      queue.delete(id);
+    },
+    async deadLetter(entry) {
+      queue.delete(entry.id);
+      dead.set(entry.id, entry);
+    },
+    async deadLetters() {
+      return Array.from(dead.values());
+    },
+    async removeDeadLetter(id) {
+      dead.delete(id);
+    },
+  };
+}
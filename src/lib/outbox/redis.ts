@@ -0,0 +1,54 @@
+import type { RedisClient } from '../redis';
+import type { OutboxEntry, OutboxStore } from './types';
+
+// Entries live in a hash keyed by id; a sorted set scored by nextAttemptAt
+// indexes the retry queue. Dead letters get a hash of their own.
+const ENTRIES_KEY = 'outbox:entries';
+const DUE_KEY = 'outbox:due';
+const DEAD_KEY = 'outbox:dead';
+
+export function createRedisOutboxStore(redis: RedisClient): OutboxStore {
+  return {
+    async save(entry) {
+      await redis.pipeline([
+        ['HSET', ENTRIES_KEY, entry.id, JSON.stringify(entry)],
+        ['ZADD', DUE_KEY, entry.nextAttemptAt, entry.id],
+      ]);
+    },
+
+    async due(now, limit) {
+      const [ids] = await redis.pipeline([['ZRANGEBYSCORE', DUE_KEY, '-inf', now, 'LIMIT', 0, limit]]);
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return [];
+      }
+      const [values] = await redis.pipeline([['HMGET', ENTRIES_KEY, ...(ids as string[])]]);
+      return (values as (string | null)[])
+        .filter((value): value is string => typeof value === 'string')
+        .map((value) => JSON.parse(value) as OutboxEntry);
+    },
+
+    async remove(id) {
+      await redis.pipeline([
+        ['HDEL', ENTRIES_KEY, id],
+        ['ZREM', DUE_KEY, id],
+      ]);
+    },
+
+    async deadLetter(entry) {
+      await redis.pipeline([
+        ['HDEL', ENTRIES_KEY, entry.id],
+        ['ZREM', DUE_KEY, entry.id],
+        ['HSET', DEAD_KEY, entry.id, JSON.stringify(entry)],
+      ]);
+    },
+
+    async deadLetters() {
+      const [values] = await redis.pipeline([['HVALS', DEAD_KEY]]);
+      return (values as string[]).map((value) => JSON.parse(value) as OutboxEntry);
+    },
+
+    async removeDeadLetter(id) {
+      await redis.pipeline([['HDEL', DEAD_KEY, id]]);
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import type { UpsertRequest } from '../dedupe';
+import type { MailingListContact, RecordAttachment, RecordTable, SubscriptionStatus } from '../integrations';
+
+// A write to an upstream service, described as data so it can be replayed later
+export type OutboxOperation =
+  | {
+      type: 'createRecord';
+      table: RecordTable;
+      fields: Record<string, unknown>;
+      // Uploaded after the record is created
+      attachments?: RecordAttachment[];
+      // Set once the record exists, so a retry only re-uploads the remaining attachments
+      recordId?: string;
+    }
+  // Updates the person's existing record (matched on UpsertRequest.key) or creates one
+  | ({ type: 'upsertRecord' } & UpsertRequest)
+  | { type: 'subscribe'; contact: MailingListContact; status?: SubscriptionStatus };
+
+export interface OutboxEntry {
+  id: string;
+  // Form that produced the write, for logs and dead-letter alerts
+  source: string;
+  operation: OutboxOperation;
+  attempts: number;
+  createdAt: string;
+  // Epoch milliseconds of the next retry
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface OutboxStore {
+  // Adds or replaces an entry in the retry queue
+  save(entry: OutboxEntry): Promise<void>;
+  // Entries whose nextAttemptAt has passed, oldest first
+  due(now: number, limit: number): Promise<OutboxEntry[]>;
+  remove(id: string): Promise<void>;
+  // Moves an entry out of the retry queue for manual follow-up
+  deadLetter(entry: OutboxEntry): Promise<void>;
+  deadLetters(): Promise<OutboxEntry[]>;
+  // Deletes a dead-lettered entry, e.g. when its person asks for their data to be erased
+  removeDeadLetter(id: string): Promise<void>;
+}
@@ -0,0 +1,60 @@
+import type { ChatChannel } from './integrations';
+
+// Partner inquiries from /partner/companies, /partner/investors and
+// /partner/universities. Each audience answers its own questions; everything
+// lands in the record store's `partners` table with the audience in `Audience`.
+
+export const PARTNER_AUDIENCES = ['companies', 'investors', 'universities'] as const;
+export type PartnerAudience = (typeof PARTNER_AUDIENCES)[number];
+
+export function isPartnerAudience(value: unknown): value is PartnerAudience {
+  return typeof value === 'string' && (PARTNER_AUDIENCES as readonly string[]).includes(value);
+}
+
+// Stored in the record's Audience field
+export const AUDIENCE_LABELS: Record<PartnerAudience, string> = {
+  companies: 'Company',
+  investors: 'Investor',
+  universities: 'University',
+};
+
+export const PARTNER_CHANNELS: Record<PartnerAudience, ChatChannel> = {
+  companies: 'partner-companies',
+  investors: 'partner-investors',
+  universities: 'partner-universities',
+};
+
+// Answer keys map to the labels stored in Airtable, as with merch sizes
+export const SPONSORSHIP_TIERS: Record<string, string> = {
+  supporter: 'Supporter (up to £5k)',
+  partner: 'Partner (£5k–£15k)',
+  headline: 'Headline (£15k+)',
+  unsure: 'Not sure yet',
+};
+
+export const EVENT_FORMATS: Record<string, string> = {
+  hackathon: 'Hackathon',
+  conference: 'Technical conference or panel',
+  community_day: 'Co-working or community day',
+  other: 'Something else',
+};
+
+export const CHEQUE_SIZES: Record<string, string> = {
+  under_50k: 'Under £50k',
+  '50k_250k': '£50k–£250k',
+  '250k_1m': '£250k–£1m',
+  over_1m: '£1m+',
+};
+
+export const INVESTMENT_STAGES: Record<string, string> = {
+  pre_seed: 'Pre-seed',
+  seed: 'Seed',
+  series_a: 'Series A and later',
+};
+
+export const UNIVERSITY_PARTNERSHIPS: Record<string, string> = {
+  workshop: 'Workshops or talks',
+  hackathon: 'Hackathon',
+  founder_programme: 'Founder programme',
+  other: 'Something else',
+};
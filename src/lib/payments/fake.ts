@@ -0,0 +1,60 @@
+import { WebhookSignatureError } from '../errors';
+import { readJsonObject } from '../http';
+import { createSignedToken, verifySignedToken } from '../signed-links';
+import type { CheckoutSessionRequest, PaymentEvent, PaymentProvider } from './types';
+
+// Offline stand-in for a hosted checkout, so the whole purchase flow runs
+// under `astro dev` without a payment account. The session is a signed token
+// carried in the checkout URL; /merch/checkout/fake shows it with Pay and
+// Cancel buttons, which post to /api/merch/fake-checkout.
+//
+// Webhooks can be simulated too: POST { "type": "checkout.completed" |
+// "checkout.expired", "session": "<token>" } to /api/merch/webhook. The signed
+// token stands in for the provider's signature.
+
+const PURPOSE = 'fake-checkout';
+
+export interface FakeCheckoutSession extends CheckoutSessionRequest {
+  id: string;
+}
+
+// Undefined for a forged or malformed token. Expiry is left to the caller, so
+// an expired session can still be cancelled.
+export function readFakeCheckoutSession(token: string | null | undefined): FakeCheckoutSession | undefined {
+  return verifySignedToken<FakeCheckoutSession>(PURPOSE, token);
+}
+
+export function fakePaymentEvent(session: FakeCheckoutSession, type: PaymentEvent['type']): PaymentEvent {
+  return { type, sessionId: session.id, orderId: session.orderId };
+}
+
+export function createFakeProvider(): PaymentProvider {
+  return {
+    name: 'fake',
+
+    async createCheckoutSession(request) {
+      const session: FakeCheckoutSession = { ...request, id: `fake_cs_${crypto.randomUUID()}` };
+      const url = new URL('/merch/checkout/fake', request.successUrl);
+      url.searchParams.set('session', createSignedToken(PURPOSE, session));
+      return { id: session.id, url: url.toString() };
+    },
+
+    async parseWebhook(request) {
+      let body: Record<string, unknown>;
+      try {
+        body = await readJsonObject(request);
+      } catch {
+        throw new WebhookSignatureError('Fake webhooks are JSON');
+      }
+
+      const session = typeof body.session === 'string' ? readFakeCheckoutSession(body.session) : undefined;
+      if (!session) {
+        throw new WebhookSignatureError('Invalid fake checkout session');
+      }
+      if (body.type !== 'checkout.completed' && body.type !== 'checkout.expired') {
+        return undefined;
+      }
+      return fakePaymentEvent(session, body.type);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { ConfigurationError } from '../errors';
+import { readEnv } from '../env';
+import { createFakeProvider } from './fake';
+import { createStripeProvider } from './stripe';
+import type { PaymentProvider } from './types';
+
+export type * from './types';
+
+// Merch checkout.
+//   PAYMENT_PROVIDER   stripe | fake (default: fake with INTEGRATIONS=local, otherwise stripe)
+//   STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET, and STRIPE_API_URL to point at a fake upstream
+
+export function getPaymentProvider(): PaymentProvider {
+  const choice = readEnv('PAYMENT_PROVIDER') ?? (readEnv('INTEGRATIONS') === 'local' ? 'fake' : 'stripe');
+
+  switch (choice) {
+    case 'stripe':
+      return createStripeProvider();
+    case 'fake':
+      return createFakeProvider();
+    default:
+      throw new ConfigurationError([`PAYMENT_PROVIDER (unknown provider "${choice}")`]);
+  }
+}
@@ -0,0 +1,119 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { UpstreamError, WebhookSignatureError } from '../errors';
+import { readEnv, requireEnv } from '../env';
+import type { PaymentProvider } from './types';
+
+// Stripe Checkout: https://docs.stripe.com/api/checkout/sessions/create
+// Webhook endpoint events needed: checkout.session.completed,
+// checkout.session.async_payment_succeeded, checkout.session.async_payment_failed
+// and checkout.session.expired.
+
+// Deliveries signed longer ago than this are rejected as possible replays
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+interface StripeSession {
+  id: string;
+  url?: string;
+  client_reference_id?: string | null;
+  payment_status?: 'paid' | 'unpaid' | 'no_payment_required';
+}
+
+function verifySignature(payload: string, header: string | null, secret: string): void {
+  const parts = (header ?? '').split(',').map((part) => part.split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => Buffer.from(value ?? ''));
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new WebhookSignatureError('Missing Stripe-Signature header');
+  }
+  if (Math.abs(Date.now() - timestamp * 1000) > SIGNATURE_TOLERANCE_MS) {
+    throw new WebhookSignatureError('Stripe signature timestamp is outside the tolerance');
+  }
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex'));
+  if (!signatures.some((signature) => signature.length === expected.length && timingSafeEqual(signature, expected))) {
+    throw new WebhookSignatureError('Stripe signature does not match');
+  }
+}
+
+export function createStripeProvider(): PaymentProvider {
+  const env = requireEnv(['STRIPE_SECRET_KEY']);
+  const apiUrl = readEnv('STRIPE_API_URL') ?? 'https://api.stripe.com';
+
+  return {
+    name: 'stripe',
+
+    async createCheckoutSession(request) {
+      const form = new URLSearchParams({
+        'mode': 'payment',
+        'customer_email': request.email,
+        'client_reference_id': request.orderId,
+        'metadata[order_id]': request.orderId,
+        'success_url': request.successUrl,
+        'cancel_url': request.cancelUrl,
+        // Stripe accepts 30 minutes to 24 hours from now
+        'expires_at': String(Math.floor(request.expiresAt / 1000)),
+      });
+      request.lineItems.forEach((item, index) => {
+        form.set(`line_items[${index}][quantity]`, String(item.quantity));
+        form.set(`line_items[${index}][price_data][currency]`, request.currency.toLowerCase());
+        form.set(`line_items[${index}][price_data][unit_amount]`, String(item.unitAmount));
+        form.set(`line_items[${index}][price_data][product_data][name]`, item.name);
+        form.set(`line_items[${index}][price_data][product_data][metadata][sku]`, item.sku);
+      });
+
+      const response = await fetch(`${apiUrl}/v1/checkout/sessions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${env.STRIPE_SECRET_KEY}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          // Retrying the same order can't open a second session
+          'Idempotency-Key': `checkout-${request.orderId}`,
+        },
+        body: form,
+      });
+      if (!response.ok) {
+        throw new UpstreamError('Stripe', response.status, await response.text());
+      }
+
+      const session = (await response.json()) as StripeSession;
+      if (!session.url) {
+        throw new UpstreamError('Stripe', response.status, 'Checkout session has no url');
+      }
+      return { id: session.id, url: session.url };
+    },
+
+    async parseWebhook(request) {
+      const { STRIPE_WEBHOOK_SECRET } = requireEnv(['STRIPE_WEBHOOK_SECRET']);
+      const payload = await request.text();
+      verifySignature(payload, request.headers.get('Stripe-Signature'), STRIPE_WEBHOOK_SECRET);
+
+      const event = JSON.parse(payload) as { type?: string; data?: { object?: StripeSession } };
+      const session = event.data?.object;
+      if (!session?.client_reference_id) return undefined;
+      const ids = { sessionId: session.id, orderId: session.client_reference_id };
+
+      switch (event.type) {
+        case 'checkout.session.completed':
+          // Delayed payment methods (e.g. bank debits) complete unpaid and
+          // follow up with async_payment_succeeded or async_payment_failed
+          return session.payment_status === 'unpaid' ? undefined : { type: 'checkout.completed', ...ids };
+        case 'checkout.session.async_payment_succeeded':
+          return { type: 'checkout.completed', ...ids };
+        case 'checkout.session.async_payment_failed':
+        case 'checkout.session.expired':
+          return { type: 'checkout.expired', ...ids };
+        default:
+          return undefined;
+      }
+    },
+
+    async ping() {
+      const response = await fetch(`${apiUrl}/v1/balance`, {
+        headers: { 'Authorization': `Bearer ${env.STRIPE_SECRET_KEY}` },
+      });
+      if (!response.ok) {
+        throw new UpstreamError('Stripe', response.status, await response.text());
+      }
+    },
+  };
+}
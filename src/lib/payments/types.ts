@@ -0,0 +1,45 @@
+// Payment provider adapter. The store only ever hands a customer off to a
+// hosted checkout page and learns the outcome from a webhook, so no card
+// details pass through the site.
+
+export interface CheckoutLineItem {
+  sku: string;
+  // Shown on the checkout page, e.g. "The Tech Bros Hoodie (M)"
+  name: string;
+  // Minor units (pence)
+  unitAmount: number;
+  quantity: number;
+}
+
+export interface CheckoutSessionRequest {
+  // Our order record; echoed back in webhook events
+  orderId: string;
+  email: string;
+  currency: string;
+  lineItems: CheckoutLineItem[];
+  successUrl: string;
+  cancelUrl: string;
+  // Epoch milliseconds after which the session can no longer be paid
+  expiresAt: number;
+}
+
+export interface CheckoutSession {
+  id: string;
+  // Hosted checkout page to send the customer to
+  url: string;
+}
+
+export type PaymentEvent =
+  | { type: 'checkout.completed'; sessionId: string; orderId: string }
+  // Abandoned or cancelled: the order's stock can be released
+  | { type: 'checkout.expired'; sessionId: string; orderId: string };
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSession>;
+  // Verifies a webhook delivery and translates it. Throws WebhookSignatureError
+  // for unsigned or forged deliveries; undefined for event types we don't act on.
+  parseWebhook(request: Request): Promise<PaymentEvent | undefined>;
+  // Live providers only: resolves if the API answers and accepts the secret key
+  ping?(): Promise<void>;
+}
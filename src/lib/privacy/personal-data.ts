@@ -0,0 +1,126 @@
+import { ConfigurationError } from '../errors';
+import type { Integrations, MailingListEntry, RecordTable, StoredRecord } from '../integrations';
+import type { OutboxOperation, OutboxStore } from '../outbox';
+import type { SentLog, SentLogEntry } from '../sent-log';
+
+// Everything the site stores about one email address, for export and erasure.
+// Accelerator drafts aren't covered: they're keyed by a random id rather than
+// the address, and expire 30 days after they were last saved.
+
+export const PERSONAL_DATA_TABLES: RecordTable[] = ['community', 'accelerator', 'partners', 'merch', 'orders'];
+
+// Kept on erasure because they're needed for accounting
+const RETAINED_TABLES: RecordTable[] = ['orders'];
+
+export interface PersonalDataStores {
+  integrations: Integrations;
+  sentLog: SentLog;
+  outbox: OutboxStore;
+}
+
+export interface PersonalData {
+  email: string;
+  records: Partial<Record<RecordTable, StoredRecord[]>>;
+  mailingList: MailingListEntry | undefined;
+  // Bulk emails (e.g. merch launches) sent to the address
+  emailsSent: SentLogEntry[];
+}
+
+// Counts by store, e.g. { community: 1, mailingList: 1 }
+export type DataCounts = Record<string, number>;
+
+export interface ErasureSummary {
+  deleted: DataCounts;
+  retained: DataCounts;
+}
+
+// Shown in exports and on the confirmation page, for what the site can't reach
+export const PERSONAL_DATA_NOTES = [
+  'Emails we have sent you are also logged by our email provider, Resend, which deletes them on its own schedule.',
+  'Accelerator application drafts are deleted automatically 30 days after they were last saved.',
+  'Merch orders are kept for our accounts even if you ask us to delete your data.',
+];
+
+// Records in tables that aren't set up (e.g. no AIRTABLE_ORDERS_TABLE_ID) are skipped
+async function findRecords(integrations: Integrations, email: string): Promise<PersonalData['records']> {
+  const records: PersonalData['records'] = {};
+  for (const table of PERSONAL_DATA_TABLES) {
+    try {
+      const found = await integrations.records.findByEmail(table, email);
+      if (found.length > 0) records[table] = found;
+    } catch (error) {
+      if (!(error instanceof ConfigurationError)) throw error;
+    }
+  }
+  return records;
+}
+
+export async function findPersonalData(stores: PersonalDataStores, email: string): Promise<PersonalData> {
+  const address = email.trim().toLowerCase();
+  const [records, mailingList, emailsSent] = await Promise.all([
+    findRecords(stores.integrations, address),
+    stores.integrations.mailingList.get(address),
+    stores.sentLog.forEmail(address),
+  ]);
+
+  return {
+    email: address,
+    records,
+    mailingList,
+    emailsSent,
+  };
+}
+
+export function countPersonalData(data: PersonalData): DataCounts {
+  const counts: DataCounts = {};
+  for (const [table, records] of Object.entries(data.records)) {
+    counts[table] = records.length;
+  }
+  if (data.mailingList) counts.mailingList = 1;
+  if (data.emailsSent.length > 0) counts.emailsSent = data.emailsSent.length;
+  return counts;
+}
+
+function operationEmail(operation: OutboxOperation): string {
+  const email = operation.type === 'subscribe' ? operation.contact.email : operation.fields['Email'];
+  return String(email ?? '').trim().toLowerCase();
+}
+
+export async function erasePersonalData(stores: PersonalDataStores, data: PersonalData): Promise<ErasureSummary> {
+  const summary: ErasureSummary = { deleted: {}, retained: {} };
+
+  // Queued and dead-lettered writes go first, so a retry (or a manual replay)
+  // can't bring back a record deleted below
+  const queued = await stores.outbox.due(Number.MAX_SAFE_INTEGER, 1000);
+  for (const entry of queued.filter((candidate) => operationEmail(candidate.operation) === data.email)) {
+    await stores.outbox.remove(entry.id);
+    summary.deleted.pendingWrites = (summary.deleted.pendingWrites ?? 0) + 1;
+  }
+  const deadLetters = await stores.outbox.deadLetters();
+  for (const entry of deadLetters.filter((candidate) => operationEmail(candidate.operation) === data.email)) {
+    await stores.outbox.removeDeadLetter(entry.id);
+    summary.deleted.pendingWrites = (summary.deleted.pendingWrites ?? 0) + 1;
+  }
+
+  for (const [table, records] of Object.entries(data.records) as [RecordTable, StoredRecord[]][]) {
+    if (RETAINED_TABLES.includes(table)) {
+      summary.retained[table] = records.length;
+      continue;
+    }
+    for (const record of records) {
+      await stores.integrations.records.remove(table, record.id);
+    }
+    summary.deleted[table] = records.length;
+  }
+
+  if (data.mailingList) {
+    await stores.integrations.mailingList.remove(data.email);
+    summary.deleted.mailingList = 1;
+  }
+  if (data.emailsSent.length > 0) {
+    await stores.sentLog.forget(data.email);
+    summary.deleted.emailsSent = data.emailsSent.length;
+  }
+
+  return summary;
+}
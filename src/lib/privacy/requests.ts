@@ -0,0 +1,61 @@
+import { privacyRequest, renderEmail } from '../emails';
+import type { EmailSender } from '../integrations';
+import { getRateLimitStore } from '../rate-limit';
+import { createSignedToken, verifySignedToken } from '../signed-links';
+
+// Data-subject requests from /privacy/request. Anyone can ask, but nothing
+// happens until the emailed link is followed, which proves the address is theirs.
+
+export type PrivacyAction = 'export' | 'erase';
+
+export const PRIVACY_ACTION_LABELS: Record<PrivacyAction, string> = {
+  export: 'Download a copy of my data',
+  erase: 'Delete my data',
+};
+
+export interface PrivacyRequest {
+  email: string;
+  action: PrivacyAction;
+  nonce: string;
+}
+
+const PURPOSE = 'privacy-request';
+const TTL_MS = 60 * 60 * 1000;
+
+export function privacyRequestUrl(origin: string, email: string, action: PrivacyAction): string {
+  const token = createSignedToken<PrivacyRequest>(PURPOSE, { email, action, nonce: crypto.randomUUID() }, TTL_MS);
+  return `${origin}/privacy/request?token=${encodeURIComponent(token)}`;
+}
+
+// For the confirmation page, which asks for a click so link scanners can't act on it
+export function readPrivacyRequestToken(token: string | null | undefined): PrivacyRequest | undefined {
+  return verifySignedToken<PrivacyRequest>(PURPOSE, token);
+}
+
+// Each link works once
+export async function consumePrivacyRequestToken(token: string | null | undefined): Promise<PrivacyRequest | undefined> {
+  const request = readPrivacyRequestToken(token);
+  if (!request) return undefined;
+
+  const store = getRateLimitStore();
+  try {
+    const uses = await store.increment(`privacy-request:${request.nonce}`, TTL_MS);
+    return uses === 1 ? request : undefined;
+  } catch (error) {
+    // Fail open, like sign-in links: the link has already proved the address
+    console.error('Privacy request token store error:', error);
+    return request;
+  }
+}
+
+export async function sendPrivacyRequestLink(
+  sender: EmailSender,
+  origin: string,
+  email: string,
+  action: PrivacyAction
+): Promise<void> {
+  await sender.send({
+    to: email,
+    ...renderEmail(privacyRequest, { action, confirmUrl: privacyRequestUrl(origin, email, action) }),
+  });
+}
@@ -0,0 +1,63 @@
+import type { AuditLog } from '../audit-log';
+import { readEnv } from '../env';
+import type { Integrations, StoredRecord } from '../integrations';
+
+// Merch waitlist rows are deleted once the person hasn't signed up again for
+// WAITLIST_RETENTION_DAYS (default five years, as the privacy policy says).
+// Run daily by /api/internal/privacy-purge.
+
+const DEFAULT_RETENTION_DAYS = 5 * 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PurgeSummary {
+  retentionDays: number;
+  // Rows last submitted before this are stale
+  cutoff: string;
+  checked: number;
+  stale: number;
+  purged: number;
+}
+
+export function waitlistRetentionDays(): number {
+  const value = Number(readEnv('WAITLIST_RETENTION_DAYS'));
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_RETENTION_DAYS;
+}
+
+// Rows saved before repeat signups were merged have no Last Submitted At
+function lastSubmitted(record: StoredRecord): string {
+  return String(record.fields['Last Submitted At'] ?? record.createdAt);
+}
+
+export async function purgeStaleWaitlist(
+  integrations: Integrations,
+  auditLog: AuditLog,
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<PurgeSummary> {
+  const retentionDays = waitlistRetentionDays();
+  const cutoff = new Date((options.now ?? new Date()).getTime() - retentionDays * DAY_MS).toISOString();
+
+  const waitlist = await integrations.records.list('merch');
+  const stale = waitlist.filter((record) => lastSubmitted(record) < cutoff);
+  const summary: PurgeSummary = { retentionDays, cutoff, checked: waitlist.length, stale: stale.length, purged: 0 };
+  if (options.dryRun || stale.length === 0) {
+    return summary;
+  }
+
+  try {
+    for (const record of stale) {
+      await integrations.records.remove('merch', record.id);
+      summary.purged++;
+    }
+  } finally {
+    // Logged even if the run stops part way, so the log matches what was deleted
+    if (summary.purged > 0) {
+      await auditLog.append({
+        at: new Date().toISOString(),
+        action: 'purged',
+        subject: 'retention',
+        details: { merch: summary.purged, retentionDays },
+      });
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,66 @@
+import { selectStore } from '../stores';
+import { createMemoryRateLimitStore } from './memory';
+import { createRedisRateLimitStore } from './redis';
+import type { RateLimitPolicy, RateLimitResult, RateLimitStore } from './types';
+
+export type * from './types';
+
+// Backend selection:
+//   RATE_LIMIT_STORE   memory | redis (default: redis when KV_REST_API_URL is set,
+//                      memory with INTEGRATIONS=local; see ../stores)
+//   KV_REST_API_URL / KV_REST_API_TOKEN   Vercel KV or any Upstash-compatible Redis REST endpoint
+
+const memoryStore = createMemoryRateLimitStore();
+
+// Also used for other short-lived counters (e.g. form token and sign-in link
+// nonces). Those are only single-use if every instance shares the counters,
+// so a live deployment without KV gets a ConfigurationError, not memory.
+export function getRateLimitStore(): RateLimitStore {
+  return selectStore('RATE_LIMIT_STORE', {
+    redis: createRedisRateLimitStore,
+    // Local development runs one process, so memory is as good as a file
+    file: () => memoryStore,
+    memory: memoryStore,
+  });
+}
+
+// Sliding window counter: the previous fixed window's count is weighted by how
+// much of it still overlaps the sliding window, then added to the current one.
+export async function checkRateLimit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowStart = Math.floor(now / policy.windowMs) * policy.windowMs;
+  const resetAt = windowStart + policy.windowMs;
+
+  try {
+    const store = getRateLimitStore();
+    // Counters live for two windows: one as "current", one as "previous"
+    const current = await store.increment(`ratelimit:${key}:${windowStart}`, policy.windowMs * 2);
+    const previous = await store.get(`ratelimit:${key}:${windowStart - policy.windowMs}`);
+
+    const overlap = (resetAt - now) / policy.windowMs;
+    const estimated = previous * overlap + current;
+
+    return {
+      allowed: estimated <= policy.requests,
+      limit: policy.requests,
+      remaining: Math.max(0, Math.floor(policy.requests - estimated)),
+      resetAt,
+    };
+  } catch (error) {
+    // Fail open: a rate-limit outage shouldn't take the forms down with it
+    console.error('Rate limit store error:', error);
+    return { allowed: true, limit: policy.requests, remaining: policy.requests, resetAt };
+  }
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)),
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000)));
+  }
+  return headers;
+}
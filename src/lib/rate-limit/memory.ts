@@ -0,0 +1,41 @@
+import type { RateLimitStore } from './types';
+
+// Sweep expired counters at most this often so the map can't grow without bound
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Per-instance counters. Fine for `astro dev`; on serverless each cold start
+// gets a fresh map, so production should use the Redis store.
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+  let lastSweep = Date.now();
+
+  function sweep(now: number): void {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+    for (const [key, entry] of counters) {
+      if (entry.expiresAt <= now) {
+        counters.delete(key);
+      }
+    }
+  }
+
+  return {
+    async increment(key, ttlMs) {
+      const now = Date.now();
+      sweep(now);
+
+      const entry = counters.get(key);
+      if (!entry || entry.expiresAt <= now) {
+        counters.set(key, { count: 1, expiresAt: now + ttlMs });
+        return 1;
+      }
+      entry.count++;
+      return entry.count;
+    },
+
+    async get(key) {
+      const entry = counters.get(key);
+      return entry && entry.expiresAt > Date.now() ? entry.count : 0;
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import type { RedisClient } from '../redis';
+import type { RateLimitStore } from './types';
+
+// Counters are plain INCR keys with a PEXPIRE set on creation
+export function createRedisRateLimitStore(redis: RedisClient): RateLimitStore {
+  return {
+    async increment(key, ttlMs) {
+      // NX keeps the original expiry so the window doesn't slide forward on every hit
+      const [count] = await redis.pipeline([
+        ['INCR', key],
+        ['PEXPIRE', key, ttlMs, 'NX'],
+      ]);
+      return Number(count);
+    },
+
+    async get(key) {
+      const [value] = await redis.pipeline([['GET', key]]);
+      return value === null || value === undefined ? 0 : Number(value);
+    },
+  };
+}
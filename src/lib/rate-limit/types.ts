@@ -0,0 +1,20 @@
+export interface RateLimitPolicy {
+  requests: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds when the current window ends
+  resetAt: number;
+}
+
+// Counter storage shared by every limiter. Keys expire on their own, so a
+// backend never has to be pruned by the caller.
+export interface RateLimitStore {
+  // Increments the counter at `key` (creating it with the given TTL) and returns the new value
+  increment(key: string, ttlMs: number): Promise<number>;
+  get(key: string): Promise<number>;
+}
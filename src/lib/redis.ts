@@ -0,0 +1,44 @@
+import { UpstreamError } from './errors';
+import { readEnv } from './env';
+
+// Minimal client for Redis over the Upstash REST protocol, which Vercel KV
+// also speaks. Configured with KV_REST_API_URL and KV_REST_API_TOKEN.
+
+export type RedisCommand = (string | number)[];
+
+export interface RedisClient {
+  pipeline(commands: RedisCommand[]): Promise<unknown[]>;
+}
+
+export function getRedisConfig(): { url: string; token: string } | undefined {
+  const url = readEnv('KV_REST_API_URL');
+  const token = readEnv('KV_REST_API_TOKEN');
+  return url && token ? { url, token } : undefined;
+}
+
+export function createRedisClient(config: { url: string; token: string }): RedisClient {
+  return {
+    async pipeline(commands) {
+      const response = await fetch(`${config.url.replace(/\/$/, '')}/pipeline`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${config.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(commands),
+      });
+
+      if (!response.ok) {
+        throw new UpstreamError('Redis', response.status, await response.text());
+      }
+
+      const results = (await response.json()) as { result?: unknown; error?: string }[];
+      return results.map((entry) => {
+        if (entry.error) {
+          throw new UpstreamError('Redis', response.status, entry.error);
+        }
+        return entry.result;
+      });
+    },
+  };
+}
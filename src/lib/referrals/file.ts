@@ -0,0 +1,53 @@
+import { join } from 'node:path';
+import { readJsonLines, writeJsonLines } from '../json-files';
+import type { ReferralCode, ReferralStore } from './types';
+
+interface ReferralLine extends ReferralCode {
+  signups: Record<string, number>;
+}
+
+const referralOf = ({ code, ambassador, createdBy, createdAt }: ReferralLine): ReferralCode => ({
+  code,
+  ambassador,
+  createdBy,
+  createdAt,
+});
+
+// referrals.jsonl, one line per code with its counts
+export function createFileReferralStore(dataDir: string): ReferralStore {
+  const path = join(dataDir, 'referrals.jsonl');
+
+  return {
+    async create(referral) {
+      const lines = await readJsonLines<ReferralLine>(path);
+      if (lines.some((line) => line.code === referral.code)) return false;
+      lines.push({ ...referral, signups: {} });
+      await writeJsonLines(path, lines);
+      return true;
+    },
+    async get(code) {
+      const line = (await readJsonLines<ReferralLine>(path)).find((candidate) => candidate.code === code);
+      return line && referralOf(line);
+    },
+    async list() {
+      return (await readJsonLines<ReferralLine>(path)).map(referralOf);
+    },
+    async remove(code) {
+      const lines = await readJsonLines<ReferralLine>(path);
+      await writeJsonLines(path, lines.filter((line) => line.code !== code));
+    },
+    async countSignup(code, form) {
+      const lines = await readJsonLines<ReferralLine>(path);
+      const line = lines.find((candidate) => candidate.code === code);
+      if (!line) return;
+      line.signups[form] = (line.signups[form] ?? 0) + 1;
+      await writeJsonLines(path, lines);
+    },
+    async counts() {
+      const lines = await readJsonLines<ReferralLine>(path);
+      return Object.fromEntries(
+        lines.filter((line) => Object.keys(line.signups).length > 0).map((line) => [line.code, line.signups])
+      );
+    },
+  };
+}
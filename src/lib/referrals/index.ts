@@ -0,0 +1,46 @@
+import { parseAttribution, type Attribution } from '../attribution';
+import { selectStore } from '../stores';
+import { createFileReferralStore } from './file';
+import { createMemoryReferralStore } from './memory';
+import { createRedisReferralStore } from './redis';
+import type { ReferralStore } from './types';
+
+export type * from './types';
+
+// Ambassador referral codes, managed at /admin/referrals.
+//   REFERRAL_STORE   memory | file | redis (default: redis with KV_REST_API_URL,
+//                    file with INTEGRATIONS=local; see ../stores)
+
+const memoryStore = createMemoryReferralStore();
+
+export function getReferralStore(): ReferralStore {
+  return selectStore('REFERRAL_STORE', {
+    redis: createRedisReferralStore,
+    file: createFileReferralStore,
+    memory: memoryStore,
+  });
+}
+
+// The attribution a form sent, checked, with the referral code dropped unless
+// the team created it. A store problem drops the code too: it never holds up a signup.
+export async function resolveAttribution(form: string, value: unknown): Promise<Attribution> {
+  const attribution = parseAttribution(value);
+  if (!attribution.ref) return attribution;
+
+  try {
+    if (await getReferralStore().get(attribution.ref)) return attribution;
+  } catch (error) {
+    console.error(`[${form}] Could not look up referral code:`, error);
+  }
+  delete attribution.ref;
+  return attribution;
+}
+
+// Best-effort: a failed count is logged, never surfaced
+export async function countReferral(form: string, code: string): Promise<void> {
+  try {
+    await getReferralStore().countSignup(code, form);
+  } catch (error) {
+    console.error(`[${form}] Could not count referral signup:`, error);
+  }
+}
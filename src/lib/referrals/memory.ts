@@ -0,0 +1,33 @@
+import type { ReferralCode, ReferralStore } from './types';
+
+// Not durable: codes are lost on restart. Only for tests and single-process dev.
+export function createMemoryReferralStore(): ReferralStore {
+  const referrals = new Map<string, ReferralCode>();
+  const signups = new Map<string, Map<string, number>>();
+
+  return {
+    async create(referral) {
+      if (referrals.has(referral.code)) return false;
+      referrals.set(referral.code, referral);
+      return true;
+    },
+    async get(code) {
+      return referrals.get(code);
+    },
+    async list() {
+      return Array.from(referrals.values());
+    },
+    async remove(code) {
+      referrals.delete(code);
+      signups.delete(code);
+    },
+    async countSignup(code, form) {
+      const forms = signups.get(code) ?? new Map<string, number>();
+      forms.set(form, (forms.get(form) ?? 0) + 1);
+      signups.set(code, forms);
+    },
+    async counts() {
+      return Object.fromEntries(Array.from(signups, ([code, forms]) => [code, Object.fromEntries(forms)]));
+    },
+  };
+}
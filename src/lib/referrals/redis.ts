@@ -0,0 +1,52 @@
+import type { RedisClient } from '../redis';
+import type { ReferralCode, ReferralStore } from './types';
+
+// One hash of code -> JSON, and per code a hash of form -> signups
+const CODES_KEY = 'referral-codes';
+const signupsKey = (code: string) => `referral-signups:${code}`;
+
+export function createRedisReferralStore(redis: RedisClient): ReferralStore {
+  const list = async (): Promise<ReferralCode[]> => {
+    const [values] = await redis.pipeline([['HVALS', CODES_KEY]]);
+    return ((values as string[] | null) ?? [])
+      .map((value) => JSON.parse(value) as ReferralCode)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  };
+
+  return {
+    async create(referral) {
+      const [created] = await redis.pipeline([['HSETNX', CODES_KEY, referral.code, JSON.stringify(referral)]]);
+      return created === 1;
+    },
+    async get(code) {
+      const [value] = await redis.pipeline([['HGET', CODES_KEY, code]]);
+      return typeof value === 'string' ? (JSON.parse(value) as ReferralCode) : undefined;
+    },
+    list,
+    async remove(code) {
+      await redis.pipeline([
+        ['HDEL', CODES_KEY, code],
+        ['DEL', signupsKey(code)],
+      ]);
+    },
+    async countSignup(code, form) {
+      await redis.pipeline([['HINCRBY', signupsKey(code), form, 1]]);
+    },
+    async counts() {
+      const codes = (await list()).map((referral) => referral.code);
+      if (codes.length === 0) return {};
+      const results = await redis.pipeline(codes.map((code) => ['HGETALL', signupsKey(code)]));
+      const result: Record<string, Record<string, number>> = {};
+      codes.forEach((code, index) => {
+        // Upstash returns a hash as a flat [field, value, field, value, ...] list
+        const values = Array.isArray(results[index]) ? (results[index] as string[]) : [];
+        if (values.length === 0) return;
+        result[code] = {};
+        for (let i = 0; i < values.length; i += 2) {
+          result[code][values[i]] = Number(values[i + 1]);
+        }
+      });
+      return result;
+    },
+  };
+}
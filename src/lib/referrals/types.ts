@@ -0,0 +1,25 @@
+// Ambassador referral codes, shared as links like https://thetechbros.io/?ref=SAM.
+// Signups that arrive with a known code are counted per form.
+export interface ReferralCode {
+  // Upper-cased (see normaliseReferralCode in ../attribution)
+  code: string;
+  // Who shares the link, e.g. "Sam Patel, Imperial"
+  ambassador: string;
+  // Team member's email address
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface ReferralStore {
+  // False if the code is already taken
+  create(referral: ReferralCode): Promise<boolean>;
+  get(code: string): Promise<ReferralCode | undefined>;
+  // Oldest first
+  list(): Promise<ReferralCode[]>;
+  // Deletes the code and its counts
+  remove(code: string): Promise<void>;
+  // Adds one to the code's signups for the form
+  countSignup(code: string, form: string): Promise<void>;
+  // Signups by code then form; codes without any are left out
+  counts(): Promise<Record<string, Record<string, number>>>;
+}
@@ -0,0 +1,27 @@
+import { join } from 'node:path';
+import { appendJsonLine, readJsonLines, writeJsonLines } from '../json-files';
+import type { SentLog, SentLogEntry } from './types';
+
+// sent-log.jsonl, one line per email sent
+export function createFileSentLog(dataDir: string): SentLog {
+  const path = join(dataDir, 'sent-log.jsonl');
+
+  return {
+    async recipients(campaign) {
+      const entries = await readJsonLines<SentLogEntry>(path);
+      return new Set(entries.filter((entry) => entry.campaign === campaign).map((entry) => entry.email));
+    },
+    async add(campaign, email) {
+      const entry: SentLogEntry = { campaign, email: email.toLowerCase(), sentAt: new Date().toISOString() };
+      await appendJsonLine(path, entry);
+    },
+    async forEmail(email) {
+      const entries = await readJsonLines<SentLogEntry>(path);
+      return entries.filter((entry) => entry.email === email.toLowerCase());
+    },
+    async forget(email) {
+      const entries = await readJsonLines<SentLogEntry>(path);
+      await writeJsonLines(path, entries.filter((entry) => entry.email !== email.toLowerCase()));
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { selectStore } from '../stores';
+import { createFileSentLog } from './file';
+import { createMemorySentLog } from './memory';
+import { createRedisSentLog } from './redis';
+import type { SentLog } from './types';
+
+export type * from './types';
+
+// Per-recipient log of bulk emails.
+//   SENT_LOG_STORE   memory | file | redis (default: redis with KV_REST_API_URL,
+//                    file with INTEGRATIONS=local; see ../stores)
+
+const memoryLog = createMemorySentLog();
+
+export function getSentLog(): SentLog {
+  return selectStore('SENT_LOG_STORE', {
+    redis: createRedisSentLog,
+    file: createFileSentLog,
+    memory: memoryLog,
+  });
+}
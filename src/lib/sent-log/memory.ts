@@ -0,0 +1,27 @@
+import type { SentLog } from './types';
+
+// Not durable: the log is lost on restart. Only for tests and single-process dev.
+export function createMemorySentLog(): SentLog {
+  const sent = new Map<string, Map<string, string>>();
+
+  return {
+    async recipients(campaign) {
+      return new Set(sent.get(campaign)?.keys());
+    },
+    async add(campaign, email) {
+      sent.set(campaign, (sent.get(campaign) ?? new Map()).set(email.toLowerCase(), new Date().toISOString()));
+    },
+    async forEmail(email) {
+      const address = email.toLowerCase();
+      return [...sent].flatMap(([campaign, recipients]) => {
+        const sentAt = recipients.get(address);
+        return sentAt ? [{ campaign, email: address, sentAt }] : [];
+      });
+    },
+    async forget(email) {
+      for (const recipients of sent.values()) {
+        recipients.delete(email.toLowerCase());
+      }
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import type { RedisClient } from '../redis';
+import type { SentLog } from './types';
+
+// One hash per campaign: email -> when it was sent
+const key = (campaign: string) => `sent:${campaign}`;
+
+export function createRedisSentLog(redis: RedisClient): SentLog {
+  // Data-subject requests are rare, so looking an address up walks every campaign
+  async function campaignKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [result] = await redis.pipeline([['SCAN', cursor, 'MATCH', key('*'), 'COUNT', 1000]]);
+      const [next, batch] = result as [string, string[]];
+      cursor = String(next);
+      keys.push(...batch);
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  return {
+    async recipients(campaign) {
+      const [emails] = await redis.pipeline([['HKEYS', key(campaign)]]);
+      return new Set(Array.isArray(emails) ? emails.map(String) : []);
+    },
+    async add(campaign, email) {
+      await redis.pipeline([['HSET', key(campaign), email.toLowerCase(), new Date().toISOString()]]);
+    },
+    async forEmail(email) {
+      const address = email.toLowerCase();
+      const keys = await campaignKeys();
+      if (keys.length === 0) return [];
+      const sentAt = await redis.pipeline(keys.map((campaignKey) => ['HGET', campaignKey, address]));
+      return keys.flatMap((campaignKey, index) =>
+        typeof sentAt[index] === 'string'
+          ? [{ campaign: campaignKey.slice(key('').length), email: address, sentAt: sentAt[index] as string }]
+          : []
+      );
+    },
+    async forget(email) {
+      const keys = await campaignKeys();
+      if (keys.length === 0) return;
+      await redis.pipeline(keys.map((campaignKey) => ['HDEL', campaignKey, email.toLowerCase()]));
+    },
+  };
+}
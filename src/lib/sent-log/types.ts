@@ -0,0 +1,17 @@
+// Who has already been sent a one-off bulk email (a "campaign", e.g. the launch
+// of one product), so a re-run of the same send skips them
+export interface SentLogEntry {
+  campaign: string;
+  // Lower-cased
+  email: string;
+  sentAt: string;
+}
+
+export interface SentLog {
+  // Lower-cased addresses already sent the campaign
+  recipients(campaign: string): Promise<Set<string>>;
+  add(campaign: string, email: string): Promise<void>;
+  // Every campaign sent to the address, for data-subject requests
+  forEmail(email: string): Promise<SentLogEntry[]>;
+  forget(email: string): Promise<void>;
+}
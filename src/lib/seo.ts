@@ -0,0 +1,108 @@
+import type { PressEntry, TeamEntry } from './content';
+
+// Metadata shared by BaseLayout, the sitemap, robots.txt and the generated
+// share images (src/pages/og). Absolute URLs are built from `site` in
+// astro.config.mjs, so previews still point search engines at the live site.
+
+export const SITE_NAME = 'The Tech Bros';
+export const DEFAULT_DESCRIPTION = "The world's first all-female, all-technical accelerator";
+export const TWITTER_HANDLE = '@thetechbros_io';
+
+// Same profiles as the footer
+const SOCIAL_PROFILES = [
+  'https://www.linkedin.com/company/thetechbros/',
+  'https://www.instagram.com/thetech.bros/',
+  'https://x.com/thetechbros_io',
+];
+
+export type JsonLd = Record<string, unknown>;
+
+// What the share image for a page says
+export interface ShareCard {
+  title: string;
+  subtitle: string;
+}
+
+// Pages listed in the sitemap, each with a share image. Event pages are added
+// from the collection; sign-in, status, checkout and admin pages are left out.
+export const PUBLIC_PAGES: Record<string, ShareCard> = {
+  '/': {
+    title: "The world's first all-female, all-technical accelerator",
+    subtitle: 'If you can build it, you should own it.',
+  },
+  '/about': { title: 'About', subtitle: 'Our mission and the events that got us here' },
+  '/team': { title: 'Team', subtitle: 'The founders and advisors behind The Tech Bros' },
+  '/press': { title: 'Press', subtitle: 'Coverage of The Tech Bros and the companies we back' },
+  '/events': { title: 'Upcoming Events', subtitle: 'Hackathons, workshops and co-working days' },
+  '/partner': { title: 'Partner With Us', subtitle: "Access the world's best technical founders" },
+  '/partner/companies': { title: 'Partner - Companies', subtitle: 'Sponsor a hackathon, workshop or conference' },
+  '/partner/investors': { title: 'Partner - Investors', subtitle: 'Meet technical founders before anyone else' },
+  '/partner/universities': { title: 'Partner - Universities', subtitle: 'Help your researchers become founders' },
+  '/apply': { title: 'Apply', subtitle: "The world's first all-female, all-technical accelerator" },
+  '/apply/accelerator': {
+    title: 'Apply for the Accelerator',
+    subtitle: 'Funding, mentoring and a community of builders',
+  },
+  '/apply/join-community': {
+    title: 'Join the Community',
+    subtitle: 'Events, intros and people building what you are',
+  },
+  '/apply/faq': { title: 'FAQ', subtitle: 'Everything you need to know before you apply' },
+  '/merch': { title: 'Merch', subtitle: 'Wear the mission. Build the movement.' },
+  '/privacy-policy': { title: 'Privacy Policy', subtitle: 'How we collect and use your data' },
+};
+
+// "/" is index.png; "/events/launch" is events/launch.png
+export function ogImageKey(path: string): string {
+  return path === '/' ? 'index' : path.replace(/^\/|\/$/g, '');
+}
+
+export function ogImagePath(path: string): string {
+  return `/og/${ogImageKey(path)}.png`;
+}
+
+// Pages without a card of their own share the home page's
+export function defaultOgImage(path: string): string {
+  const page = path.length > 1 ? path.replace(/\/$/, '') : path;
+  return ogImagePath(page in PUBLIC_PAGES ? page : '/');
+}
+
+export function organizationJsonLd(site: URL): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Organization',
+    name: SITE_NAME,
+    url: site.origin,
+    description: DEFAULT_DESCRIPTION,
+    sameAs: SOCIAL_PROFILES,
+  };
+}
+
+// Articles only; podcasts aren't news articles
+export function newsArticleJsonLd(entry: PressEntry, site: URL): JsonLd {
+  const article = entry.data;
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'NewsArticle',
+    headline: article.title,
+    url: article.url,
+    datePublished: article.date.toISOString().slice(0, 10),
+    image: [new URL(article.image, site).href],
+    description: article.excerpt,
+    publisher: { '@type': 'Organization', name: article.outlet },
+    about: { '@type': 'Organization', name: SITE_NAME, url: site.origin },
+  };
+}
+
+export function personJsonLd(entry: TeamEntry, site: URL): JsonLd {
+  const member = entry.data;
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    name: member.name,
+    jobTitle: member.role,
+    image: new URL(member.photo, site).href,
+    sameAs: [member.linkedin],
+    worksFor: { '@type': 'Organization', name: SITE_NAME, url: site.origin },
+  };
+}
@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { ConfigurationError } from './errors';
+import { readEnv } from './env';
+
+// Signed tokens for links we email out (newsletter confirmation, unsubscribe).
+// Format: base64url(JSON payload).hmac, signed with SIGNED_LINK_SECRET. Each
+// token names its purpose so one kind of link can't be replayed as another.
+
+interface SignedPayload<T> {
+  purpose: string;
+  data: T;
+  // Epoch milliseconds; absent for links that never expire (e.g. unsubscribe)
+  exp?: number;
+}
+
+function getSecret(): string {
+  const secret = readEnv('SIGNED_LINK_SECRET');
+  if (!secret) {
+    throw new ConfigurationError(['SIGNED_LINK_SECRET']);
+  }
+  return secret;
+}
+
+function sign(secret: string, encoded: string): string {
+  return createHmac('sha256', secret).update(encoded).digest('base64url');
+}
+
+export function createSignedToken<T>(purpose: string, data: T, ttlMs?: number): string {
+  const payload: SignedPayload<T> = { purpose, data };
+  if (ttlMs !== undefined) {
+    payload.exp = Date.now() + ttlMs;
+  }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(getSecret(), encoded)}`;
+}
+
+// Returns the token's data, or undefined if it is malformed, tampered with,
+// issued for another purpose or expired
+export function verifySignedToken<T>(purpose: string, token: string | null | undefined): T | undefined {
+  if (!token) return undefined;
+
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) return undefined;
+
+  const expected = Buffer.from(sign(getSecret(), encoded));
+  const provided = Buffer.from(signature);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return undefined;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as SignedPayload<T>;
+    if (payload.purpose !== purpose) return undefined;
+    if (payload.exp !== undefined && payload.exp < Date.now()) return undefined;
+    return payload.data;
+  } catch {
+    return undefined;
+  }
+}
+
+// Raw HMAC of a value, for short codes derived from something we already know
+// about the holder (e.g. merch early-access codes from an email address)
+export function signValue(purpose: string, value: string): Buffer {
+  return createHmac('sha256', getSecret()).update(`${purpose}:${value}`).digest();
+}
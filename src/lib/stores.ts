@@ -0,0 +1,49 @@
+import { ConfigurationError } from './errors';
+import { readEnv } from './env';
+import { localDataDir } from './json-files';
+import { createRedisClient, getRedisConfig, type RedisClient } from './redis';
+
+// The site's own state (the outbox, drafts, stock counts, logs) lives in one
+// of three backends, chosen per store by its own setting (e.g. OUTBOX_STORE):
+//   redis    KV_REST_API_URL / KV_REST_API_TOKEN; the default when they're set
+//   file     under LOCAL_DATA_DIR; the default with INTEGRATIONS=local
+//   memory   this process only, so lost on the next cold start
+// A live deployment without KV has no default: the store throws a
+// ConfigurationError instead of quietly keeping its data in memory. Setting
+// the store's variable to "memory" accepts the loss.
+
+export interface StoreFactories<T> {
+  redis: (client: RedisClient) => T;
+  file: (dir: string) => T;
+  // Shared for the life of the process
+  memory: T;
+}
+
+// The backend a store's setting selects, or undefined when it has none. May
+// return an unknown name (see loadConfig, which reports those).
+export function storeBackend(setting: string): string | undefined {
+  const choice = readEnv(setting);
+  if (choice !== undefined) return choice;
+  if (getRedisConfig()) return 'redis';
+  if (readEnv('INTEGRATIONS') === 'local') return 'file';
+  return undefined;
+}
+
+export function selectStore<T>(setting: string, factories: StoreFactories<T>): T {
+  const choice = storeBackend(setting);
+  switch (choice) {
+    case 'redis': {
+      const redis = getRedisConfig();
+      if (!redis) throw new ConfigurationError(['KV_REST_API_URL', 'KV_REST_API_TOKEN']);
+      return factories.redis(createRedisClient(redis));
+    }
+    case 'file':
+      return factories.file(localDataDir());
+    case 'memory':
+      return factories.memory;
+    case undefined:
+      throw new ConfigurationError(['KV_REST_API_URL', 'KV_REST_API_TOKEN', `or ${setting}=memory`]);
+    default:
+      throw new ConfigurationError([`${setting} (unknown store "${choice}")`]);
+  }
+}
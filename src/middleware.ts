@@ -0,0 +1,18 @@
+import { defineMiddleware } from 'astro:middleware';
+import { reportConfig } from './lib/config';
+import { DEFAULT_LOCALE, isTranslatedPage, pathLocale } from './lib/i18n';
+
+// Runs once when the server (or serverless function) loads, so configuration
+// problems are logged at startup rather than by the first request they break
+reportConfig();
+
+// Astro's i18n fallback would serve every page under /nb, in English. Only
+// translated pages stay there; the rest redirect to the English page.
+export const onRequest = defineMiddleware((context, next) => {
+  const { pathname, search } = context.url;
+  const locale = pathLocale(pathname);
+  if (locale === DEFAULT_LOCALE) return next();
+  const page = pathname.slice(locale.length + 1) || '/';
+  if (isTranslatedPage(page)) return next();
+  return context.redirect(`${page}${search}`, 301);
+});
@@ -0,0 +1,13 @@
+import { methodNotAllowed } from '../../lib/http';
+import { acceleratorApplication } from '../../lib/forms/definitions/accelerator-application';
+import { createSubmissionHandler } from '../../lib/forms/pipeline';
+
+export const prerender = false;
+
+export const POST = createSubmissionHandler(acceleratorApplication);
+
+// Handle non-POST methods
+export const GET = methodNotAllowed;
+export const PUT = methodNotAllowed;
+export const DELETE = methodNotAllowed;
+export const PATCH = methodNotAllowed;
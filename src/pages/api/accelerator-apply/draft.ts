@@ -0,0 +1,11 @@
+import { methodNotAllowed } from '../../../lib/http';
+import { acceleratorDraft } from '../../../lib/forms/definitions/accelerator-draft';
+import { createSubmissionHandler } from '../../../lib/forms/pipeline';
+
+export const prerender = false;
+
+// Saves a partially completed accelerator application and emails a magic link to resume it
+export const POST = createSubmissionHandler(acceleratorDraft);
+
+// Handle non-POST methods
+export const GET = methodNotAllowed;
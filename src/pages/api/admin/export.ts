@@ -0,0 +1,37 @@
+import type { APIRoute } from 'astro';
+import { readAdminSession } from '../../../lib/admin/session';
+import {
+  filterSubmissions,
+  loadSubmissions,
+  parseSubmissionQuery,
+  submissionsCsv,
+} from '../../../lib/admin/submissions';
+import { errorResponse, methodNotAllowed } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+
+export const prerender = false;
+
+// CSV of everything the dashboard is showing, across all pages. Takes the
+// dashboard's query parameters: ?view=community&degree=PhD&q=london
+export const GET: APIRoute = async ({ url, cookies }) => {
+  try {
+    if (!readAdminSession(cookies)) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const query = parseSubmissionQuery(url.searchParams);
+    const submissions = filterSubmissions(await loadSubmissions(getIntegrations(), query.view), query);
+    const day = new Date().toISOString().slice(0, 10);
+    return new Response(submissionsCsv(query.view, submissions), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${query.view}-${day}.csv"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return errorResponse('admin', 'Error exporting submissions', error, { text: true });
+  }
+};
+
+export const POST = methodNotAllowed;
@@ -0,0 +1,11 @@
+import { methodNotAllowed } from '../../../lib/http';
+import { adminLogin } from '../../../lib/forms/definitions/admin-login';
+import { createSubmissionHandler } from '../../../lib/forms/pipeline';
+
+export const prerender = false;
+
+// Emails a team member a magic link to /admin
+export const POST = createSubmissionHandler(adminLogin);
+
+// Handle non-POST methods
+export const GET = methodNotAllowed;
@@ -0,0 +1,37 @@
+import type { APIRoute } from 'astro';
+import { consumeAdminLoginToken, startAdminSession } from '../../../lib/admin/session';
+import { isSameOrigin, logError, methodNotAllowed } from '../../../lib/http';
+
+export const prerender = false;
+
+// Submitted from /admin/login, so a link scanner fetching the emailed URL
+// doesn't use up the single-use token
+export const POST: APIRoute = async ({ request, url, cookies, redirect }) => {
+  if (!isSameOrigin(request, url)) {
+    return redirect('/admin?error=login', 303);
+  }
+
+  try {
+    const form = await request.formData();
+    const token = form.get('token');
+    const email = await consumeAdminLoginToken(typeof token === 'string' ? token : undefined);
+    if (!email) {
+      return redirect('/admin?error=login', 303);
+    }
+
+    startAdminSession(cookies, url, email);
+    return redirect('/admin', 303);
+  } catch (error) {
+    logError('admin-login', 'Error signing in', error);
+    return redirect('/admin?error=login', 303);
+  }
+};
+
+// Links land on the page, which asks for a click before signing in
+export const GET: APIRoute = ({ url, redirect }) => {
+  const token = url.searchParams.get('token');
+  return redirect(token ? `/admin/login?token=${encodeURIComponent(token)}` : '/admin', 303);
+};
+
+export const PUT = methodNotAllowed;
+export const DELETE = methodNotAllowed;
@@ -0,0 +1,13 @@
+import type { APIRoute } from 'astro';
+import { endAdminSession } from '../../../lib/admin/session';
+import { methodNotAllowed } from '../../../lib/http';
+
+export const prerender = false;
+
+export const POST: APIRoute = ({ cookies, redirect }) => {
+  endAdminSession(cookies);
+  return redirect('/admin', 303);
+};
+
+// Handle non-POST methods
+export const GET = methodNotAllowed;
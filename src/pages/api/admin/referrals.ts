@@ -0,0 +1,48 @@
+import type { APIRoute } from 'astro';
+import { readAdminSession } from '../../../lib/admin/session';
+import { normaliseReferralCode } from '../../../lib/attribution';
+import { errorResponse, isSameOrigin, methodNotAllowed } from '../../../lib/http';
+import { getReferralStore } from '../../../lib/referrals';
+
+export const prerender = false;
+
+const MAX_AMBASSADOR_LENGTH = 100;
+
+// Creating and deleting referral codes from /admin/referrals. A plain form
+// post, answered with a redirect back to the page with the outcome.
+export const POST: APIRoute = async ({ request, url, cookies, redirect }) => {
+  if (!isSameOrigin(request, url)) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  try {
+    const reviewer = readAdminSession(cookies);
+    if (!reviewer) {
+      return redirect('/admin', 303);
+    }
+
+    const form = await request.formData();
+    const action = form.get('action');
+    const code = normaliseReferralCode(form.get('code'));
+    const store = getReferralStore();
+
+    if (action === 'delete') {
+      if (code) await store.remove(code);
+      return redirect('/admin/referrals?result=deleted', 303);
+    }
+    if (action !== 'create') {
+      return new Response('Invalid action', { status: 400 });
+    }
+
+    const ambassador = form.get('ambassador')?.toString().trim().slice(0, MAX_AMBASSADOR_LENGTH);
+    if (!code || !ambassador) {
+      return redirect('/admin/referrals?result=invalid', 303);
+    }
+    const created = await store.create({ code, ambassador, createdBy: reviewer, createdAt: new Date().toISOString() });
+    return redirect(`/admin/referrals?result=${created ? 'created' : 'taken'}#${code}`, 303);
+  } catch (error) {
+    return errorResponse('admin', 'Error updating referral codes', error, { text: true });
+  }
+};
+
+export const GET = methodNotAllowed;
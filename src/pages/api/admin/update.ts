@@ -0,0 +1,54 @@
+import type { APIRoute } from 'astro';
+import { readAdminSession } from '../../../lib/admin/session';
+import { isSubmissionView, updateSubmission, type SubmissionUpdate } from '../../../lib/admin/submissions';
+import { APPLICATION_STATUSES, type ApplicationStatus } from '../../../lib/applications';
+import { errorResponse, isSameOrigin, methodNotAllowed } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+
+export const prerender = false;
+
+// Status and notes changes from the dashboard. A plain form post, answered
+// with a redirect back to the list it came from (`return`, a dashboard URL).
+export const POST: APIRoute = async ({ request, url, cookies, redirect }) => {
+  if (!isSameOrigin(request, url)) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  try {
+    const reviewer = readAdminSession(cookies);
+    if (!reviewer) {
+      return redirect('/admin', 303);
+    }
+
+    const form = await request.formData();
+    const view = form.get('view');
+    const recordId = form.get('recordId');
+    const status = form.get('status');
+    const notes = form.get('notes');
+    const returnTo = form.get('return');
+    // Only ever back to the dashboard, never to another site
+    const back = typeof returnTo === 'string' && returnTo.startsWith('/admin?') ? returnTo : '/admin';
+
+    if (!isSubmissionView(view) || typeof recordId !== 'string' || !recordId) {
+      return new Response('Invalid update', { status: 400 });
+    }
+    if (status !== null && !(APPLICATION_STATUSES as readonly unknown[]).includes(status)) {
+      return new Response('Invalid status', { status: 400 });
+    }
+
+    const update: SubmissionUpdate = {
+      ...(status !== null && { status: status as ApplicationStatus }),
+      ...(typeof notes === 'string' && { notes }),
+    };
+
+    const result = await updateSubmission(getIntegrations(), url.origin, view, recordId, update, reviewer);
+    if (result === 'not-found') {
+      return new Response('Record not found', { status: 404 });
+    }
+    return redirect(`${back}#${encodeURIComponent(recordId)}`, 303);
+  } catch (error) {
+    return errorResponse('admin', 'Error updating submission', error, { text: true });
+  }
+};
+
+export const GET = methodNotAllowed;
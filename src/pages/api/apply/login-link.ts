@@ -0,0 +1,11 @@
+import { methodNotAllowed } from '../../../lib/http';
+import { applicantLogin } from '../../../lib/forms/definitions/applicant-login';
+import { createSubmissionHandler } from '../../../lib/forms/pipeline';
+
+export const prerender = false;
+
+// Emails an applicant a magic link to /apply/status
+export const POST = createSubmissionHandler(applicantLogin);
+
+// Handle non-POST methods
+export const GET = methodNotAllowed;
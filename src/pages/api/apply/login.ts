@@ -0,0 +1,37 @@
+import type { APIRoute } from 'astro';
+import { consumeLoginToken, startSession } from '../../../lib/applicant-session';
+import { isSameOrigin, logError, methodNotAllowed } from '../../../lib/http';
+
+export const prerender = false;
+
+// Submitted from /apply/login, so a link scanner fetching the emailed URL
+// doesn't use up the single-use token
+export const POST: APIRoute = async ({ request, url, cookies, redirect }) => {
+  if (!isSameOrigin(request, url)) {
+    return redirect('/apply/status?error=login', 303);
+  }
+
+  try {
+    const form = await request.formData();
+    const token = form.get('token');
+    const email = await consumeLoginToken(typeof token === 'string' ? token : undefined);
+    if (!email) {
+      return redirect('/apply/status?error=login', 303);
+    }
+
+    startSession(cookies, url, email);
+    return redirect('/apply/status', 303);
+  } catch (error) {
+    logError('applicant-login', 'Error signing in', error);
+    return redirect('/apply/status?error=login', 303);
+  }
+};
+
+// Links land on the page, which asks for a click before signing in
+export const GET: APIRoute = ({ url, redirect }) => {
+  const token = url.searchParams.get('token');
+  return redirect(token ? `/apply/login?token=${encodeURIComponent(token)}` : '/apply/status', 303);
+};
+
+export const PUT = methodNotAllowed;
+export const DELETE = methodNotAllowed;
@@ -0,0 +1,13 @@
+import type { APIRoute } from 'astro';
+import { endSession } from '../../../lib/applicant-session';
+import { methodNotAllowed } from '../../../lib/http';
+
+export const prerender = false;
+
+export const POST: APIRoute = ({ cookies, redirect }) => {
+  endSession(cookies);
+  return redirect('/apply/status', 303);
+};
+
+// Handle non-POST methods
+export const GET = methodNotAllowed;
@@ -0,0 +1,50 @@
+import type { APIRoute } from 'astro';
+import { counterName, getAnalyticsStore, isBotRequest, knownPagePath, parseAnalyticsEvent } from '../../lib/analytics';
+import { getClientIp, isSameOrigin, methodNotAllowed } from '../../lib/http';
+import { checkRateLimit } from '../../lib/rate-limit';
+
+export const prerender = false;
+
+// More than any visitor clicking through the site would send
+const RATE_LIMIT = { requests: 120, windowMs: 10 * 60 * 1000 };
+
+// Counts one event from the beacon (src/lib/analytics/beacon.ts). The answer is
+// always 204, counted or not, so there's nothing to learn by probing it.
+export const POST: APIRoute = async ({ request, url }) => {
+  const accepted = new Response(null, { status: 204 });
+
+  if (!isSameOrigin(request, url) || isBotRequest(request)) {
+    return accepted;
+  }
+
+  let event;
+  try {
+    // sendBeacon posts text/plain, so the body is parsed whatever its type
+    event = parseAnalyticsEvent(JSON.parse(await request.text()));
+  } catch {
+    return accepted;
+  }
+  if (!event) {
+    return accepted;
+  }
+
+  // The IP only keys the limiter; it isn't stored with the event
+  const limit = await checkRateLimit(`collect:${getClientIp(request)}`, RATE_LIMIT);
+  if (!limit.allowed) {
+    return accepted;
+  }
+
+  try {
+    const path = await knownPagePath(event.path);
+    if (!path) {
+      return accepted;
+    }
+    event.path = path;
+    await getAnalyticsStore().increment(new Date().toISOString().slice(0, 10), counterName(event));
+  } catch (error) {
+    console.error('[analytics] Could not record event:', error);
+  }
+  return accepted;
+};
+
+export const GET = methodNotAllowed;
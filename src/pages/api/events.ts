@@ -0,0 +1,56 @@
+import type { APIRoute } from 'astro';
+import { eventUrl } from '../../lib/calendar';
+import { filterEvents, getPastEvents, isoDay, paginateEvents, parseEventQuery, type EventEntry } from '../../lib/content';
+import { jsonResponse, methodNotAllowed } from '../../lib/http';
+
+export const prerender = false;
+
+// Public, read-only: partners embed our past events on their own sites
+const HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'public, max-age=300',
+};
+
+function toJson(entry: EventEntry, origin: string) {
+  const event = entry.data;
+  return {
+    slug: entry.id,
+    title: event.title,
+    type: event.type,
+    date: isoDay(event.date),
+    endDate: event.endDate ? isoDay(event.endDate) : null,
+    city: event.city,
+    country: event.country,
+    region: event.region,
+    venue: event.venue ?? null,
+    url: eventUrl(origin, entry.id),
+    image: event.image ? `${origin}${event.image}` : null,
+    content: event.content,
+    rating: event.rating ?? null,
+    linkedin: event.linkedin ?? null,
+  };
+}
+
+// Same filters and pages as the past events list on /about:
+// ?type=hackathon&city=London&year=2025&q=robotics&page=2
+export const GET: APIRoute = async ({ url }) => {
+  const { query, errors } = parseEventQuery(url.searchParams);
+  if (errors.length > 0) {
+    return jsonResponse({ success: false, error: errors.join('; ') }, 400, HEADERS);
+  }
+
+  const results = paginateEvents(filterEvents(await getPastEvents(), query), query.page);
+  return jsonResponse(
+    {
+      events: results.events.map((entry) => toJson(entry, url.origin)),
+      page: results.page,
+      pageSize: results.pageSize,
+      total: results.total,
+      totalPages: results.totalPages,
+    },
+    200,
+    HEADERS,
+  );
+};
+
+export const POST = methodNotAllowed;
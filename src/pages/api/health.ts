@@ -0,0 +1,26 @@
+import type { APIRoute } from 'astro';
+import { readEnv } from '../../lib/env';
+import { checkHealth } from '../../lib/health';
+import { hasBearerToken, jsonResponse, methodNotAllowed } from '../../lib/http';
+
+export const prerender = false;
+
+// Which integrations are configured and reachable, for uptime monitors and
+// the team. Needs `Authorization: Bearer $HEALTH_CHECK_TOKEN` (or
+// $CRON_SECRET), so a monitor doesn't have to be given the cron secret.
+// Answers 503 when degraded.
+export const GET: APIRoute = async ({ request }) => {
+  if (!hasBearerToken(request, readEnv('HEALTH_CHECK_TOKEN')) && !hasBearerToken(request, readEnv('CRON_SECRET'))) {
+    return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const report = await checkHealth();
+    return jsonResponse({ success: true, ...report }, report.status === 'ok' ? 200 : 503, { 'Cache-Control': 'no-store' });
+  } catch (error) {
+    console.error('[health] Health check failed:', error);
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+};
+
+export const POST = methodNotAllowed;
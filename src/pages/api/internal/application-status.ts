@@ -0,0 +1,39 @@
+import type { APIRoute } from 'astro';
+import { isApplicationTable, notifyStatusChange } from '../../../lib/applications';
+import { readEnv } from '../../../lib/env';
+import { errorResponse, hasBearerToken, jsonResponse, methodNotAllowed, readJsonObject } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+
+export const prerender = false;
+
+// Emails an applicant when their application's Status changes. Called by an
+// Airtable automation ("when Status is updated" -> run script) with
+// `Authorization: Bearer $CRON_SECRET` and a JSON body of { table, recordId }.
+export const POST: APIRoute = async ({ request, url }) => {
+  if (!hasBearerToken(request, readEnv('CRON_SECRET'))) {
+    return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await readJsonObject(request);
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+  }
+
+  if (!isApplicationTable(body.table) || typeof body.recordId !== 'string' || !body.recordId) {
+    return jsonResponse({ success: false, error: 'Expected { table: "community" | "accelerator", recordId }' }, 400);
+  }
+
+  try {
+    const result = await notifyStatusChange(getIntegrations(), url.origin, body.table, body.recordId);
+    if (result === 'not-found') {
+      return jsonResponse({ success: false, error: 'Record not found' }, 404);
+    }
+    return jsonResponse({ success: true, result });
+  } catch (error) {
+    return errorResponse('application-status', 'Error notifying applicant', error);
+  }
+};
+
+export const GET = methodNotAllowed;
@@ -0,0 +1,30 @@
+import type { APIRoute } from 'astro';
+import { readEnv } from '../../../lib/env';
+import { errorResponse, hasBearerToken, jsonResponse, methodNotAllowed } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+import { drainOutbox } from '../../../lib/outbox';
+
+export const prerender = false;
+
+// Retries failed upstream writes. Invoked by Vercel Cron (see vercel.json),
+// which sends `Authorization: Bearer $CRON_SECRET`.
+const drain: APIRoute = async ({ request }) => {
+  if (!hasBearerToken(request, readEnv('CRON_SECRET'))) {
+    return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const summary = await drainOutbox(getIntegrations());
+    if (summary.processed > 0) {
+      console.log('[outbox] Drain complete:', summary);
+    }
+    return jsonResponse({ success: true, ...summary });
+  } catch (error) {
+    return errorResponse('outbox', 'Drain failed', error);
+  }
+};
+
+export const GET = drain;
+export const POST = drain;
+export const PUT = methodNotAllowed;
+export const DELETE = methodNotAllowed;
@@ -0,0 +1,61 @@
+import type { APIRoute } from 'astro';
+import type { MerchSize } from '../../../lib/content';
+import { readEnv } from '../../../lib/env';
+import { errorResponse, hasBearerToken, jsonResponse, methodNotAllowed, readJsonObject } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+import { getInventoryStore } from '../../../lib/inventory';
+import { getCatalog } from '../../../lib/merch/catalog';
+import { isMerchSize, LAUNCH_KINDS, runLaunch, type LaunchKind } from '../../../lib/merch/launch';
+import { getSentLog } from '../../../lib/sent-log';
+
+export const prerender = false;
+
+// Emails waitlist members about a product launch or restock. Run by the team
+// with `Authorization: Bearer $CRON_SECRET` and a JSON body of
+//   { product: "hoodie", kind?: "launch" | "restock", sizes?: ["m"], campaign?: "...", dryRun?: true }
+// A run stops after about 45 seconds; repeat it until `remaining` is 0.
+export const POST: APIRoute = async ({ request, url }) => {
+  if (!hasBearerToken(request, readEnv('CRON_SECRET'))) {
+    return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  let body: { product?: unknown; kind?: unknown; sizes?: unknown; campaign?: unknown; dryRun?: unknown };
+  try {
+    body = await readJsonObject(request);
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+  }
+
+  const kind = body.kind ?? 'launch';
+  if (!LAUNCH_KINDS.includes(kind as LaunchKind)) {
+    return jsonResponse({ success: false, error: `kind must be one of: ${LAUNCH_KINDS.join(', ')}` }, 400);
+  }
+  if (body.sizes !== undefined && !(Array.isArray(body.sizes) && body.sizes.length > 0 && body.sizes.every(isMerchSize))) {
+    return jsonResponse({ success: false, error: 'sizes must be a non-empty list of sizes, e.g. ["m", "l"]' }, 400);
+  }
+  if (body.campaign !== undefined && (typeof body.campaign !== 'string' || !/^[\w:-]{1,100}$/.test(body.campaign))) {
+    return jsonResponse({ success: false, error: 'campaign must be letters, digits, "-", "_" or ":"' }, 400);
+  }
+
+  try {
+    const catalog = await getCatalog(getInventoryStore());
+    const product = catalog.find((candidate) => candidate.id === body.product);
+    if (!product) {
+      return jsonResponse({ success: false, error: `product must be one of: ${catalog.map((entry) => entry.id).join(', ')}` }, 400);
+    }
+
+    const summary = await runLaunch(getIntegrations(), getSentLog(), url.origin, {
+      product,
+      kind: kind as LaunchKind,
+      sizes: body.sizes as MerchSize[] | undefined,
+      campaign: body.campaign,
+      dryRun: body.dryRun === true,
+    });
+    console.log('[merch-launch] Run complete:', summary);
+    return jsonResponse({ success: true, dryRun: body.dryRun === true, ...summary });
+  } catch (error) {
+    return errorResponse('merch-launch', 'Launch failed', error);
+  }
+};
+
+export const GET = methodNotAllowed;
@@ -0,0 +1,40 @@
+import type { APIRoute } from 'astro';
+import { reconcileCommunitySubscriptions } from '../../../lib/community-newsletter';
+import { readEnv } from '../../../lib/env';
+import { errorResponse, hasBearerToken, jsonResponse, methodNotAllowed, readJsonObject } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+
+export const prerender = false;
+
+// Makes sure community applicants who ticked "Add to Mailing List" are on the
+// newsletter list. Invoked daily by Vercel Cron (see vercel.json) and by the
+// team with a JSON body of { dryRun?: true }; both send
+// `Authorization: Bearer $CRON_SECRET`. Repeat it until `remaining` is 0.
+const reconcile: APIRoute = async ({ request, url }) => {
+  if (!hasBearerToken(request, readEnv('CRON_SECRET'))) {
+    return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  let body: { dryRun?: unknown } = {};
+  if (request.method === 'POST') {
+    try {
+      body = await readJsonObject(request);
+    } catch {
+      return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+  }
+  const dryRun = body.dryRun === true;
+
+  try {
+    const summary = await reconcileCommunitySubscriptions(getIntegrations(), url.origin, { dryRun });
+    console.log('[newsletter-reconcile] Run complete:', { ...summary, mismatches: summary.mismatches.length });
+    return jsonResponse({ success: true, dryRun, ...summary });
+  } catch (error) {
+    return errorResponse('newsletter-reconcile', 'Reconciliation failed', error);
+  }
+};
+
+export const GET = reconcile;
+export const POST = reconcile;
+export const PUT = methodNotAllowed;
+export const DELETE = methodNotAllowed;
@@ -0,0 +1,42 @@
+import type { APIRoute } from 'astro';
+import { getAuditLog } from '../../../lib/audit-log';
+import { readEnv } from '../../../lib/env';
+import { errorResponse, hasBearerToken, jsonResponse, methodNotAllowed, readJsonObject } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+import { purgeStaleWaitlist } from '../../../lib/privacy/retention';
+
+export const prerender = false;
+
+// Deletes merch waitlist rows older than the retention period. Invoked daily
+// by Vercel Cron (see vercel.json) and by the team with a JSON body of
+// { dryRun?: true }; both send `Authorization: Bearer $CRON_SECRET`.
+const purge: APIRoute = async ({ request }) => {
+  if (!hasBearerToken(request, readEnv('CRON_SECRET'))) {
+    return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  let body: { dryRun?: unknown } = {};
+  if (request.method === 'POST') {
+    try {
+      body = await readJsonObject(request);
+    } catch {
+      return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+  }
+  const dryRun = body.dryRun === true;
+
+  try {
+    const summary = await purgeStaleWaitlist(getIntegrations(), getAuditLog(), { dryRun });
+    if (summary.purged > 0) {
+      console.log('[privacy-purge] Purge complete:', summary);
+    }
+    return jsonResponse({ success: true, dryRun, ...summary });
+  } catch (error) {
+    return errorResponse('privacy-purge', 'Purge failed', error);
+  }
+};
+
+export const GET = purge;
+export const POST = purge;
+export const PUT = methodNotAllowed;
+export const DELETE = methodNotAllowed;
@@ -0,0 +1,69 @@
+import type { APIRoute } from 'astro';
+import {
+  errorResponse,
+  getClientIp,
+  isSameOrigin,
+  jsonResponse,
+  methodNotAllowed,
+  readJsonObject,
+} from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+import { getInventoryStore } from '../../../lib/inventory';
+import { parseCheckoutInput, startCheckout, type CheckoutRejection } from '../../../lib/merch/orders';
+import { getPaymentProvider } from '../../../lib/payments';
+import { checkRateLimit, rateLimitHeaders } from '../../../lib/rate-limit';
+
+export const prerender = false;
+
+// 10 checkout attempts per IP per minute
+const RATE_LIMIT = { requests: 10, windowMs: 60 * 1000 };
+
+// Turns the browser cart into an order and a hosted checkout session.
+// Answers { success: true, url } to redirect to, or { success: false, error, fieldErrors? }.
+export const POST: APIRoute = async ({ request, url }) => {
+  if (!isSameOrigin(request, url)) {
+    return jsonResponse({ success: false, error: 'Forbidden' }, 403);
+  }
+
+  const limit = await checkRateLimit(`merch-checkout:${getClientIp(request)}`, RATE_LIMIT);
+  const headers = rateLimitHeaders(limit);
+  if (!limit.allowed) {
+    return jsonResponse({ success: false, error: 'Too many requests. Please try again later.' }, 429, headers);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await readJsonObject(request);
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON' }, 400, headers);
+  }
+
+  const reject = (rejection: CheckoutRejection) =>
+    jsonResponse(
+      rejection.fieldErrors
+        ? { success: false, error: rejection.error, fieldErrors: rejection.fieldErrors }
+        : { success: false, error: rejection.error },
+      rejection.status,
+      headers
+    );
+
+  const input = parseCheckoutInput(body);
+  if ('ok' in input) {
+    return reject(input);
+  }
+
+  try {
+    const outcome = await startCheckout(getIntegrations(), getInventoryStore(), getPaymentProvider(), input, url.origin);
+    if (!outcome.ok) {
+      return reject(outcome);
+    }
+    return jsonResponse({ success: true, url: outcome.url }, 200, headers);
+  } catch (error) {
+    return errorResponse('merch-checkout', 'Error starting checkout', error, {
+      headers,
+      upstreamMessage: 'Checkout is unavailable right now. Please try again later.',
+    });
+  }
+};
+
+export const GET = methodNotAllowed;
@@ -0,0 +1,42 @@
+import type { APIRoute } from 'astro';
+import { errorResponse, methodNotAllowed } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+import { getInventoryStore } from '../../../lib/inventory';
+import { handlePaymentEvent } from '../../../lib/merch/orders';
+import { getPaymentProvider } from '../../../lib/payments';
+import { fakePaymentEvent, readFakeCheckoutSession } from '../../../lib/payments/fake';
+
+export const prerender = false;
+
+// The Pay and Cancel buttons on /merch/checkout/fake. Applies the outcome the
+// way the provider's webhook would, then sends the customer back to the store.
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    if (getPaymentProvider().name !== 'fake') {
+      return new Response(null, { status: 404 });
+    }
+
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return new Response('Invalid checkout session', { status: 400 });
+    }
+    const session = readFakeCheckoutSession(form.get('session')?.toString());
+    if (!session) {
+      return new Response('Invalid checkout session', { status: 400 });
+    }
+
+    const pay = form.get('action') === 'pay' && session.expiresAt > Date.now();
+    await handlePaymentEvent(
+      getIntegrations(),
+      getInventoryStore(),
+      fakePaymentEvent(session, pay ? 'checkout.completed' : 'checkout.expired')
+    );
+    return Response.redirect(pay ? session.successUrl : session.cancelUrl, 303);
+  } catch (error) {
+    return errorResponse('fake-checkout', 'Error handling checkout', error, { text: true });
+  }
+};
+
+export const GET = methodNotAllowed;
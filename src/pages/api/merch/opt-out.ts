@@ -0,0 +1,51 @@
+import type { APIRoute } from 'astro';
+import { jsonResponse, logError, methodNotAllowed } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+import { optOutOfWaitlist, readOptOutToken } from '../../../lib/merch/launch';
+
+export const prerender = false;
+
+// Takes someone off the merch waitlist's launch emails. Like the newsletter
+// unsubscribe endpoint, it serves both one-click List-Unsubscribe requests
+// (JSON response) and the form on /merch/opt-out (redirected back to it).
+export const POST: APIRoute = async ({ request, url, redirect }) => {
+  let form: FormData | undefined;
+  try {
+    form = await request.formData();
+  } catch {
+    form = undefined;
+  }
+
+  const oneClick = form?.get('List-Unsubscribe') === 'One-Click';
+  const rawToken = url.searchParams.get('token') ?? form?.get('token');
+  const token = typeof rawToken === 'string' ? rawToken : null;
+
+  const respond = (status: 'done' | 'invalid' | 'error', code: number) => {
+    if (oneClick) {
+      return jsonResponse(status === 'done' ? { success: true } : { success: false, error: 'Unable to opt out' }, code);
+    }
+    return redirect(`/merch/opt-out?status=${status}`, 303);
+  };
+
+  try {
+    const email = readOptOutToken(token);
+    if (!email) {
+      return respond('invalid', 400);
+    }
+
+    await optOutOfWaitlist(getIntegrations().records, email);
+    return respond('done', 200);
+  } catch (error) {
+    logError('merch-opt-out', 'Error opting out', error);
+    return respond('error', 502);
+  }
+};
+
+// Links land on the page, which asks for a click before opting out
+export const GET: APIRoute = ({ url, redirect }) => {
+  const token = url.searchParams.get('token');
+  return redirect(token ? `/merch/opt-out?token=${encodeURIComponent(token)}` : '/merch/opt-out', 303);
+};
+
+export const PUT = methodNotAllowed;
+export const DELETE = methodNotAllowed;
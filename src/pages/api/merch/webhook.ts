@@ -0,0 +1,35 @@
+import type { APIRoute } from 'astro';
+import { WebhookSignatureError } from '../../../lib/errors';
+import { errorResponse, jsonResponse, methodNotAllowed } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+import { getInventoryStore } from '../../../lib/inventory';
+import { handlePaymentEvent } from '../../../lib/merch/orders';
+import { getPaymentProvider } from '../../../lib/payments';
+
+export const prerender = false;
+
+// Payment provider webhook (register https://<site>/api/merch/webhook with the
+// provider). Anything but a 2xx makes the provider retry, so only a bad
+// signature or our own failure answers with an error.
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const event = await getPaymentProvider().parseWebhook(request);
+    if (!event) {
+      return jsonResponse({ received: true });
+    }
+
+    const result = await handlePaymentEvent(getIntegrations(), getInventoryStore(), event);
+    if (result === 'not-found') {
+      console.warn(`[merch-webhook] No order ${event.orderId} for ${event.type}`);
+    }
+    return jsonResponse({ received: true, result });
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      console.warn(`[merch-webhook] ${error.message}`);
+      return jsonResponse({ success: false, error: 'Invalid signature' }, 400);
+    }
+    return errorResponse('merch-webhook', 'Error handling event', error);
+  }
+};
+
+export const GET = methodNotAllowed;
@@ -0,0 +1,42 @@
+import type { APIRoute } from 'astro';
+import { logError, methodNotAllowed } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+import { readConfirmationToken } from '../../../lib/newsletter';
+
+export const prerender = false;
+
+// Target of the button on /newsletter/confirm: moves the pending contact to
+// subscribed. The signed token is the only credential, as with unsubscribe links.
+export const POST: APIRoute = async ({ request, redirect }) => {
+  const page = (status: 'confirmed' | 'invalid' | 'error') => redirect(`/newsletter/confirm?status=${status}`, 303);
+
+  let token: FormDataEntryValue | null = null;
+  try {
+    token = (await request.formData()).get('token');
+  } catch {
+    return page('invalid');
+  }
+
+  try {
+    const contact = readConfirmationToken(typeof token === 'string' ? token : null);
+    if (!contact) {
+      return page('invalid');
+    }
+
+    await getIntegrations().mailingList.confirm(contact);
+    return page('confirmed');
+  } catch (error) {
+    logError('newsletter-confirm', 'Error confirming subscription', error);
+    return page('error');
+  }
+};
+
+// Links sent before confirmation needed a click point here; send them to the
+// page, which asks for one
+export const GET: APIRoute = ({ url, redirect }) => {
+  const token = url.searchParams.get('token');
+  return redirect(token ? `/newsletter/confirm?token=${encodeURIComponent(token)}` : '/newsletter/confirm', 303);
+};
+
+export const PUT = methodNotAllowed;
+export const DELETE = methodNotAllowed;
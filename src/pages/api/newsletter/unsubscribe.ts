@@ -0,0 +1,53 @@
+import type { APIRoute } from 'astro';
+import { jsonResponse, logError, methodNotAllowed } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+import { readUnsubscribeToken } from '../../../lib/newsletter';
+
+export const prerender = false;
+
+// Two callers:
+//   - mail clients honouring List-Unsubscribe-Post send `List-Unsubscribe=One-Click`
+//     and get a JSON response
+//   - the form on /newsletter/unsubscribe, which is redirected back to the page
+// The signed token is the only credential, so there's no same-origin check.
+export const POST: APIRoute = async ({ request, url, redirect }) => {
+  let form: FormData | undefined;
+  try {
+    form = await request.formData();
+  } catch {
+    form = undefined;
+  }
+
+  const oneClick = form?.get('List-Unsubscribe') === 'One-Click';
+  const rawToken = url.searchParams.get('token') ?? form?.get('token');
+  const token = typeof rawToken === 'string' ? rawToken : null;
+
+  const respond = (status: 'done' | 'invalid' | 'error', code: number) => {
+    if (oneClick) {
+      return jsonResponse(status === 'done' ? { success: true } : { success: false, error: 'Unable to unsubscribe' }, code);
+    }
+    return redirect(`/newsletter/unsubscribe?status=${status}`, 303);
+  };
+
+  try {
+    const email = readUnsubscribeToken(token);
+    if (!email) {
+      return respond('invalid', 400);
+    }
+
+    await getIntegrations().mailingList.unsubscribe(email);
+    return respond('done', 200);
+  } catch (error) {
+    logError('newsletter-unsubscribe', 'Error unsubscribing', error);
+    return respond('error', 502);
+  }
+};
+
+// Links land on the page, which asks for a click before unsubscribing
+export const GET: APIRoute = ({ url, redirect }) => {
+  const token = url.searchParams.get('token');
+  return redirect(token ? `/newsletter/unsubscribe?token=${encodeURIComponent(token)}` : '/newsletter/unsubscribe', 303);
+};
+
+export const PUT = methodNotAllowed;
+export const DELETE = methodNotAllowed;
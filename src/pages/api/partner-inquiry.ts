@@ -0,0 +1,32 @@
+import type { APIRoute } from 'astro';
+import { companyInquiry, investorInquiry, universityInquiry } from '../../lib/forms/definitions/partner-inquiry';
+import { createSubmissionHandler } from '../../lib/forms/pipeline';
+import { jsonResponse, methodNotAllowed } from '../../lib/http';
+import { PARTNER_AUDIENCES, isPartnerAudience, type PartnerAudience } from '../../lib/partners';
+
+export const prerender = false;
+
+// Each audience is its own form (own questions, form token and rate limit);
+// the `audience` field in the JSON body picks which one handles the request
+const handlers: Record<PartnerAudience, APIRoute> = {
+  companies: createSubmissionHandler(companyInquiry),
+  investors: createSubmissionHandler(investorInquiry),
+  universities: createSubmissionHandler(universityInquiry),
+};
+
+export const POST: APIRoute = async (context) => {
+  let audience: unknown;
+  try {
+    audience = (await context.request.clone().json())?.audience;
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+  }
+
+  if (!isPartnerAudience(audience)) {
+    return jsonResponse({ success: false, error: `audience must be one of: ${PARTNER_AUDIENCES.join(', ')}` }, 400);
+  }
+  return handlers[audience](context);
+};
+
+// Handle non-POST methods
+export const GET = methodNotAllowed;
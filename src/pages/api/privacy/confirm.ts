@@ -0,0 +1,74 @@
+import type { APIRoute } from 'astro';
+import { auditSubject, getAuditLog } from '../../../lib/audit-log';
+import { logError, methodNotAllowed } from '../../../lib/http';
+import { getIntegrations } from '../../../lib/integrations';
+import { getOutboxStore } from '../../../lib/outbox';
+import {
+  countPersonalData,
+  erasePersonalData,
+  findPersonalData,
+  PERSONAL_DATA_NOTES,
+} from '../../../lib/privacy/personal-data';
+import { consumePrivacyRequestToken } from '../../../lib/privacy/requests';
+import { getSentLog } from '../../../lib/sent-log';
+
+export const prerender = false;
+
+// Target of the button on /privacy/request once the emailed link has been
+// followed. Exports come back as a JSON download; erasures redirect back to
+// the page. The signed token is the only credential, as with unsubscribe links.
+export const POST: APIRoute = async ({ request, redirect }) => {
+  const page = (status: 'erased' | 'invalid' | 'error') => redirect(`/privacy/request?status=${status}`, 303);
+
+  let token: FormDataEntryValue | null = null;
+  try {
+    token = (await request.formData()).get('token');
+  } catch {
+    return page('invalid');
+  }
+
+  try {
+    const privacyRequest = await consumePrivacyRequestToken(typeof token === 'string' ? token : null);
+    if (!privacyRequest) {
+      return page('invalid');
+    }
+
+    const stores = { integrations: getIntegrations(), sentLog: getSentLog(), outbox: getOutboxStore() };
+    const data = await findPersonalData(stores, privacyRequest.email);
+    const subject = auditSubject(data.email);
+
+    if (privacyRequest.action === 'export') {
+      await getAuditLog().append({
+        at: new Date().toISOString(),
+        action: 'exported',
+        subject,
+        details: countPersonalData(data),
+      });
+      const body = { exportedAt: new Date().toISOString(), ...data, notes: PERSONAL_DATA_NOTES };
+      return new Response(JSON.stringify(body, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': 'attachment; filename="the-tech-bros-data.json"',
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const summary = await erasePersonalData(stores, data);
+    const retained = Object.fromEntries(
+      Object.entries(summary.retained).map(([store, count]) => [`${store} (retained)`, count])
+    );
+    await getAuditLog().append({
+      at: new Date().toISOString(),
+      action: 'erased',
+      subject,
+      details: { ...summary.deleted, ...retained },
+    });
+    return page('erased');
+  } catch (error) {
+    logError('privacy-request', 'Error handling request', error);
+    return page('error');
+  }
+};
+
+export const GET = methodNotAllowed;
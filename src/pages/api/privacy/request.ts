@@ -0,0 +1,9 @@
+import { methodNotAllowed } from '../../../lib/http';
+import { privacyRequestForm } from '../../../lib/forms/definitions/privacy-request';
+import { createSubmissionHandler } from '../../../lib/forms/pipeline';
+
+export const prerender = false;
+
+export const POST = createSubmissionHandler(privacyRequestForm);
+
+export const GET = methodNotAllowed;
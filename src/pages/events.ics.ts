@@ -0,0 +1,12 @@
+import type { APIRoute } from 'astro';
+import { buildCalendar, calendarResponse } from '../lib/calendar';
+import { getEvents } from '../lib/content';
+
+export const prerender = false;
+
+// Subscribable feed of every event. Past events stay in it so subscribers keep
+// their history; upcoming ones appear as soon as they're added to src/content/events/.
+export const GET: APIRoute = async ({ url }) => {
+  const events = await getEvents();
+  return calendarResponse(buildCalendar(events, { origin: url.origin }));
+};
@@ -0,0 +1,15 @@
+import type { APIRoute } from 'astro';
+import { buildCalendar, calendarResponse } from '../../lib/calendar';
+import { getEvent } from '../../lib/content';
+
+export const prerender = false;
+
+// "Add to calendar" download for a single event
+export const GET: APIRoute = async ({ params, url }) => {
+  const event = params.slug ? await getEvent(params.slug) : undefined;
+  if (!event) {
+    return new Response('Event not found', { status: 404 });
+  }
+  const body = buildCalendar([event], { origin: url.origin, name: event.data.title });
+  return calendarResponse(body, `${event.id}.ics`);
+};
@@ -0,0 +1,27 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { formatDateRange, formatLocation, getEvents } from '../../lib/content';
+import { renderOgImage } from '../../lib/og-image';
+import { ogImageKey, PUBLIC_PAGES, type ShareCard } from '../../lib/seo';
+
+// One share image per public page and event, drawn at build time. BaseLayout
+// points og:image and twitter:image here (see ogImagePath in src/lib/seo.ts).
+export const prerender = true;
+
+export const getStaticPaths = (async () => {
+  const pages = Object.entries(PUBLIC_PAGES).map(([path, card]) => ({
+    params: { page: ogImageKey(path) },
+    props: { ...card },
+  }));
+  const events = (await getEvents()).map((entry) => ({
+    params: { page: ogImageKey(`/events/${entry.id}`) },
+    props: {
+      title: entry.data.title,
+      subtitle: `${formatDateRange(entry.data.date, entry.data.endDate)} · ${formatLocation(entry.data)}`,
+    },
+  }));
+  return [...pages, ...events];
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props }) => {
+  return new Response(await renderOgImage(props as ShareCard), { headers: { 'Content-Type': 'image/png' } });
+};
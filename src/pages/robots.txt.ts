@@ -0,0 +1,28 @@
+import type { APIRoute } from 'astro';
+
+export const prerender = true;
+
+// Pages behind a sign-in or a link from an email; they also set noindex
+const DISALLOWED = [
+  '/admin',
+  '/api/',
+  '/apply/login',
+  '/apply/status',
+  '/apply/accelerator/application',
+  '/merch/checkout',
+  '/merch/order',
+  '/merch/opt-out',
+  '/newsletter/',
+  '/privacy/request',
+];
+
+export const GET: APIRoute = ({ site }) => {
+  const body = [
+    'User-agent: *',
+    ...DISALLOWED.map((path) => `Disallow: ${path}`),
+    '',
+    `Sitemap: ${new URL('/sitemap.xml', site).href}`,
+    '',
+  ].join('\n');
+  return new Response(body, { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+};
@@ -0,0 +1,27 @@
+import type { APIRoute } from 'astro';
+import { getEvents } from '../lib/content';
+import { escapeHtml } from '../lib/html';
+import { DEFAULT_LOCALE, LOCALES, localePath, TRANSLATED_PAGES } from '../lib/i18n';
+import { PUBLIC_PAGES } from '../lib/seo';
+
+export const prerender = true;
+
+// Public pages, their translations and every event. Rebuilt with the site, so new events appear on the next deploy.
+export const GET: APIRoute = async ({ site }) => {
+  const translations = TRANSLATED_PAGES.filter((path) => path in PUBLIC_PAGES).flatMap((path) =>
+    LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).map((locale) => localePath(path, locale))
+  );
+  const paths = [
+    ...Object.keys(PUBLIC_PAGES),
+    ...translations,
+    ...(await getEvents()).map((entry) => `/events/${entry.id}`),
+  ];
+  const urls = paths.map((path) => `  <url><loc>${escapeHtml(new URL(path, site).href)}</loc></url>`);
+
+  const body = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`;
+  return new Response(body, { headers: { 'Content-Type': 'application/xml; charset=utf-8' } });
+};
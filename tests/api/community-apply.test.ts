@@ -0,0 +1,239 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { issueFormToken } from '../../src/lib/bot-protection/form-token';
+import { POST } from '../../src/pages/api/community-apply';
+import { jsonBody, startFakeUpstream, type FakeUpstream } from '../fake-upstream';
+import { post, QUEUED, TABLES, upstreamEnv } from '../helpers';
+
+const PATH = '/api/community-apply';
+
+let upstream: FakeUpstream;
+beforeAll(async () => {
+  upstream = await startFakeUpstream();
+});
+afterAll(() => upstream.close());
+beforeEach(() => {
+  upstreamEnv(upstream);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+afterEach(() => {
+  upstream.reset();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+let nextApplicant = 1;
+function application(overrides: Record<string, unknown> = {}) {
+  const n = nextApplicant++;
+  return { fullName: `Ada Lovelace ${n}`, email: `ada${n}@example.com`, location: 'London, UK', ...overrides };
+}
+
+describe('POST /api/community-apply', () => {
+  it('saves the application, tells Slack and emails the applicant', async () => {
+    const body = application({ fields: ['AI / ML', 'Mathematics'], addToMailingList: false });
+    const response = await post(POST, PATH, body);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    const [row] = upstream.tables.get(TABLES.community)!;
+    expect(row.fields).toMatchObject({
+      'Full Name': body.fullName,
+      'Email': body.email,
+      'Location': 'London, UK',
+      'Field(s)': ['AI / ML', 'Mathematics'],
+      'Email Key': body.email,
+      'Submission Count': 1,
+    });
+    expect(jsonBody<{ text: string }>(upstream.to('/slack/community')[0]).text).toContain(body.email);
+    expect(jsonBody<{ to: string }>(upstream.to('/resend/emails')[0]).to).toBe(body.email);
+    expect(upstream.to('/emailoctopus')).toHaveLength(0);
+  });
+
+  it('starts the newsletter opt-in when asked to join the mailing list', async () => {
+    const body = application({ addToMailingList: true });
+    const response = await post(POST, PATH, body);
+
+    expect(response.status).toBe(200);
+    const [contact] = upstream.to('/emailoctopus', 'POST');
+    expect(jsonBody(contact)).toMatchObject({ email_address: body.email, status: 'PENDING' });
+    const subjects = upstream.to('/resend/emails').map((request) => jsonBody<{ subject: string }>(request).subject);
+    expect(subjects).toHaveLength(2);
+    expect(subjects.some((subject) => subject.includes('Confirm'))).toBe(true);
+  });
+
+  it('pretends to accept a submission that fills in the honeypot', async () => {
+    const response = await post(POST, PATH, application({ company: 'Spam Inc' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('saves a submission once per form token', async () => {
+    vi.stubEnv('FORM_TOKEN_SECRET', 'form-token-test-secret');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const body = application({ formToken: issueFormToken('community-apply') });
+    // Past the minimum time a person takes to fill in the form
+    vi.setSystemTime(Date.now() + 5000);
+
+    expect((await post(POST, PATH, body)).status).toBe(200);
+    expect((await post(POST, PATH, body)).status).toBe(200);
+    expect(upstream.tables.get(TABLES.community)).toHaveLength(1);
+  });
+
+  it('refuses form tokens when there is no shared store to record them in', async () => {
+    vi.stubEnv('FORM_TOKEN_SECRET', 'form-token-test-secret');
+    vi.stubEnv('RATE_LIMIT_STORE', undefined);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const body = application({ formToken: issueFormToken('community-apply') });
+    vi.setSystemTime(Date.now() + 5000);
+    const response = await post(POST, PATH, body);
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe('Server configuration error');
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('rejects missing and malformed fields without calling any service', async () => {
+    const response = await post(POST, PATH, { fullName: ' ', email: 'not-an-email' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Full name is required',
+      fieldErrors: [
+        { field: 'fullName', message: 'Full name is required' },
+        { field: 'email', message: 'Invalid email format' },
+      ],
+    });
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('answers validation errors in the language the form was sent in', async () => {
+    const response = await post(POST, PATH, { locale: 'nb', email: 'ada@example.com' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Fullt navn må fylles ut');
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const response = await post(POST, PATH, '{"fullName":');
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Invalid JSON');
+  });
+
+  it('fails with a configuration error when Airtable is not set up', async () => {
+    vi.stubEnv('AIRTABLE_PAT', undefined);
+    const response = await post(POST, PATH, application());
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe('Server configuration error');
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it.each([
+    ['rejects the write', 403],
+    ['is down', 503],
+  ])('asks the applicant to try again when Airtable %s and there is no outbox', async (_, status) => {
+    upstream.fail('POST', '/airtable', status);
+    const response = await post(POST, PATH, application());
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ success: false, error: 'Failed to submit application' });
+    expect(upstream.to('/slack')).toHaveLength(0);
+  });
+
+  it('parks the write for retry when Airtable is down and an outbox is configured', async () => {
+    vi.stubEnv('OUTBOX_STORE', 'memory');
+    upstream.fail('POST', '/airtable', 503);
+    const response = await post(POST, PATH, application());
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual(QUEUED);
+  });
+
+  it('asks the applicant to try again and alerts the team when Airtable rejects the write outright', async () => {
+    vi.stubEnv('OUTBOX_STORE', 'memory');
+    vi.stubEnv('SLACK_ALERTS_WEBHOOK_URL', `${upstream.url}/slack/alerts`);
+    upstream.fail('POST', '/airtable', 403);
+    const response = await post(POST, PATH, application());
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ success: false, error: 'Failed to submit application' });
+    expect(jsonBody<{ text: string }>(upstream.to('/slack/alerts')[0]).text).toContain('needs manual follow-up');
+    expect(upstream.to('/slack/community')).toHaveLength(0);
+  });
+
+  it('saves the application without fields the Airtable table does not have', async () => {
+    upstream.restrictFields(TABLES.community, ['Full Name', 'Email', 'Location', 'Add to Mailing List']);
+    const body = application();
+    const response = await post(POST, PATH, body);
+
+    expect(response.status).toBe(200);
+    const [row] = upstream.tables.get(TABLES.community)!;
+    expect(row.fields).toEqual({
+      'Full Name': body.fullName,
+      'Email': body.email,
+      'Location': 'London, UK',
+      'Add to Mailing List': false,
+    });
+  });
+
+  it('still succeeds when Slack and Resend fail', async () => {
+    upstream.fail('POST', '/slack', 500, 'internal_error');
+    upstream.fail('POST', '/resend', 422, { name: 'validation_error', message: 'Invalid `to` field' });
+    const response = await post(POST, PATH, application());
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(upstream.tables.get(TABLES.community)).toHaveLength(1);
+  });
+
+  it('skips the confirmation email when Resend is not set up', async () => {
+    vi.stubEnv('RESEND_API_KEY', undefined);
+    const response = await post(POST, PATH, application());
+
+    expect(response.status).toBe(200);
+    expect(upstream.to('/resend')).toHaveLength(0);
+  });
+
+  it('adds a repeat application to the first one without overwriting its answers', async () => {
+    const first = application({ location: 'London, UK' });
+    await post(POST, PATH, first);
+    upstream.requests.length = 0;
+
+    const response = await post(POST, PATH, {
+      ...first,
+      email: first.email.toUpperCase(),
+      location: 'Oslo, Norway',
+      phoneNumber: '+47 123 45 678',
+    });
+
+    expect(response.status).toBe(200);
+    const rows = upstream.tables.get(TABLES.community)!;
+    expect(rows).toHaveLength(1);
+    expect(rows[0].fields).toMatchObject({
+      'Location': 'London, UK',
+      'Phone Number': '+47 123 45 678',
+      'Submission Count': 2,
+    });
+    expect(JSON.parse(String(rows[0].fields['Submission History']))).toHaveLength(2);
+    // The team already heard about this applicant today
+    expect(upstream.to('/slack')).toHaveLength(0);
+  });
+
+  it('limits each client to three applications in ten minutes', async () => {
+    const ip = '198.51.100.7';
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect((await post(POST, PATH, {}, ip)).status).toBe(400);
+    }
+
+    const response = await post(POST, PATH, application(), ip);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(response.headers.get('Retry-After')).toBeTruthy();
+    expect(upstream.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,143 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '../../../src/pages/api/merch/waitlist';
+import { jsonBody, startFakeUpstream, type FakeUpstream } from '../../fake-upstream';
+import { post, QUEUED, TABLES, upstreamEnv } from '../../helpers';
+
+const PATH = '/api/merch/waitlist';
+
+let upstream: FakeUpstream;
+beforeAll(async () => {
+  upstream = await startFakeUpstream();
+});
+afterAll(() => upstream.close());
+beforeEach(() => {
+  upstreamEnv(upstream);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+afterEach(() => {
+  upstream.reset();
+  vi.restoreAllMocks();
+});
+
+let nextSignup = 1;
+function signup(overrides: Record<string, unknown> = {}) {
+  const n = nextSignup++;
+  return { name: `Grace Hopper ${n}`, email: `grace${n}@example.com`, sizePreference: 'xl', ...overrides };
+}
+
+describe('POST /api/merch/waitlist', () => {
+  it('saves the signup, tells the merch channel and emails an early access code', async () => {
+    const body = signup({ interestedIn: 'Hoodies' });
+    const response = await post(POST, PATH, body);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    const [row] = upstream.tables.get(TABLES.merch)!;
+    expect(row.fields).toMatchObject({
+      'Name': body.name,
+      'Email': body.email,
+      'Size Preference': 'XL',
+      'Interested In': 'Hoodies',
+      'Source': 'merch_page',
+      'Opted Out': false,
+    });
+    expect(row.fields['Early Access Code']).toMatch(/^TTB-\w{4}-\w{4}$/);
+    expect(jsonBody<{ text: string }>(upstream.to('/slack/merch')[0]).text).toContain('Size: XL');
+    const email = jsonBody<{ to: string; text: string }>(upstream.to('/resend/emails')[0]);
+    expect(email.to).toBe(body.email);
+    expect(email.text).toContain(row.fields['Early Access Code']);
+  });
+
+  it('pretends to accept a submission that fills in the honeypot', async () => {
+    const response = await post(POST, PATH, signup({ company: 'Spam Inc' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('rejects a size that is not on offer', async () => {
+    const response = await post(POST, PATH, signup({ sizePreference: 'xxxl' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      success: false,
+      fieldErrors: [{ field: 'sizePreference', message: 'Invalid size preference. Valid options: XS, S, M, L, XL, XXL' }],
+    });
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('rejects missing fields', async () => {
+    const response = await post(POST, PATH, {});
+
+    expect(response.status).toBe(400);
+    const { fieldErrors } = await response.json();
+    expect(fieldErrors.map((error: { field: string }) => error.field)).toEqual(['name', 'email', 'sizePreference']);
+  });
+
+  it('fails with a configuration error when the merch table is not set up', async () => {
+    vi.stubEnv('AIRTABLE_MERCH_TABLE_ID', undefined);
+    const response = await post(POST, PATH, signup());
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe('Server configuration error');
+  });
+
+  it.each([
+    ['rejects the write', 422],
+    ['is down', 500],
+  ])('asks the visitor to try again when Airtable %s and there is no outbox', async (_, status) => {
+    upstream.fail('POST', '/airtable', status);
+    const response = await post(POST, PATH, signup());
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ success: false, error: 'Failed to submit. Please try again later.' });
+    expect(upstream.to('/slack')).toHaveLength(0);
+    expect(upstream.to('/resend')).toHaveLength(0);
+  });
+
+  it('parks the write for retry when Airtable is down and an outbox is configured', async () => {
+    vi.stubEnv('OUTBOX_STORE', 'memory');
+    upstream.fail('POST', '/airtable', 500);
+    const response = await post(POST, PATH, signup());
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual(QUEUED);
+  });
+
+  it('still succeeds when Slack and Resend fail', async () => {
+    upstream.fail('POST', '/slack', 404, 'no_service');
+    upstream.fail('POST', '/resend', 500, { name: 'internal_server_error' });
+    const response = await post(POST, PATH, signup());
+
+    expect(response.status).toBe(200);
+    expect(upstream.tables.get(TABLES.merch)).toHaveLength(1);
+  });
+
+  it('keeps an opt-out when someone joins the waitlist again', async () => {
+    const body = signup();
+    await post(POST, PATH, body);
+    upstream.tables.get(TABLES.merch)![0].fields['Opted Out'] = true;
+
+    const response = await post(POST, PATH, { ...body, sizePreference: 's' });
+
+    expect(response.status).toBe(200);
+    const rows = upstream.tables.get(TABLES.merch)!;
+    expect(rows).toHaveLength(1);
+    expect(rows[0].fields).toMatchObject({ 'Opted Out': true, 'Size Preference': 'XL', 'Submission Count': 2 });
+  });
+
+  it('limits each client to five signups a minute', async () => {
+    const ip = '198.51.100.8';
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await post(POST, PATH, {}, ip)).status).toBe(400);
+    }
+
+    const response = await post(POST, PATH, signup(), ip);
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({ success: false, error: 'Too many requests. Please try again later.' });
+    expect(upstream.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,169 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '../../../src/pages/api/newsletter/subscribe';
+import { jsonBody, startFakeUpstream, type FakeUpstream } from '../../fake-upstream';
+import { post, QUEUED, upstreamEnv } from '../../helpers';
+
+const PATH = '/api/newsletter/subscribe';
+const CONTACTS = '/emailoctopus/api/1.6/lists/list-test/contacts';
+
+let upstream: FakeUpstream;
+beforeAll(async () => {
+  upstream = await startFakeUpstream();
+});
+afterAll(() => upstream.close());
+beforeEach(() => {
+  upstreamEnv(upstream);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+afterEach(() => {
+  upstream.reset();
+  vi.restoreAllMocks();
+});
+
+interface ConfirmationEmail {
+  to: string;
+  subject: string;
+  text: string;
+  headers: Record<string, string>;
+}
+
+let nextSubscriber = 1;
+function subscriber(overrides: Record<string, unknown> = {}) {
+  const n = nextSubscriber++;
+  return { firstName: 'Katherine', lastName: `Johnson ${n}`, email: `katherine${n}@example.com`, ...overrides };
+}
+
+describe('POST /api/newsletter/subscribe', () => {
+  it('adds the contact as pending and emails a confirmation link', async () => {
+    const body = subscriber();
+    const response = await post(POST, PATH, body);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      message: 'Almost there! Check your inbox to confirm your subscription.',
+    });
+    expect(jsonBody(upstream.to(CONTACTS, 'POST')[0])).toMatchObject({
+      api_key: 'eo-test',
+      email_address: body.email,
+      status: 'PENDING',
+      fields: { FirstName: 'Katherine', LastName: body.lastName, SignupSource: 'website_newsletter' },
+    });
+    const email = jsonBody<ConfirmationEmail>(upstream.to('/resend/emails')[0]);
+    expect(email.to).toBe(body.email);
+    expect(email.text).toContain('http://localhost/newsletter/confirm?token=');
+    expect(email.headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+  });
+
+  it('sends the confirmation in the language of the page', async () => {
+    const response = await post(POST, PATH, subscriber({ locale: 'nb' }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).message).toBe('Nesten ferdig! Sjekk innboksen din for å bekrefte abonnementet.');
+    expect(jsonBody<ConfirmationEmail>(upstream.to('/resend/emails')[0]).subject).toBe(
+      'Bekreft abonnementet ditt — The Tech Bros'
+    );
+  });
+
+  it('pretends to accept a submission that fills in the honeypot', async () => {
+    const response = await post(POST, PATH, subscriber({ company: 'Spam Inc' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('rejects an invalid address', async () => {
+    const response = await post(POST, PATH, subscriber({ email: 'katherine@' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Invalid email format',
+      fieldErrors: [{ field: 'email', message: 'Invalid email format' }],
+    });
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('fails with a configuration error when EmailOctopus is not set up', async () => {
+    vi.stubEnv('EMAILOCTOPUS_API_KEY', undefined);
+    const response = await post(POST, PATH, subscriber());
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe('Server configuration error');
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('fails with a configuration error when there is no way to send the confirmation', async () => {
+    vi.stubEnv('RESEND_API_KEY', undefined);
+    const response = await post(POST, PATH, subscriber());
+
+    expect(response.status).toBe(500);
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it('treats an address that is already on the list as a new signup', async () => {
+    upstream.fail('POST', CONTACTS, 409, {
+      error: { code: 'MEMBER_EXISTS_WITH_EMAIL_ADDRESS', message: 'The contact is already subscribed to the list.' },
+    });
+    const response = await post(POST, PATH, subscriber());
+
+    expect(response.status).toBe(200);
+    expect(upstream.to('/resend/emails')).toHaveLength(1);
+  });
+
+  it.each([
+    ['rejects the contact', 400, { error: { code: 'INVALID_PARAMETERS', message: 'Invalid email address.' } }],
+    ['is down', 503, 'Service Unavailable'],
+  ])('asks the visitor to try again when EmailOctopus %s and there is no outbox', async (_, status, body) => {
+    upstream.fail('POST', CONTACTS, status, body);
+    const response = await post(POST, PATH, subscriber());
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ success: false, error: 'Failed to submit. Please try again later.' });
+    expect(upstream.to('/resend')).toHaveLength(0);
+  });
+
+  it('parks the contact for retry and still sends the confirmation when an outbox is configured', async () => {
+    vi.stubEnv('OUTBOX_STORE', 'memory');
+    upstream.fail('POST', CONTACTS, 503, 'Service Unavailable');
+    const response = await post(POST, PATH, subscriber());
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual(QUEUED);
+    expect(upstream.to('/resend/emails')).toHaveLength(1);
+  });
+
+  it('asks the visitor to try again when EmailOctopus rejects the contact even with an outbox', async () => {
+    vi.stubEnv('OUTBOX_STORE', 'memory');
+    upstream.fail('POST', CONTACTS, 400, { error: { code: 'INVALID_PARAMETERS', message: 'Invalid email address.' } });
+    const response = await post(POST, PATH, subscriber());
+
+    expect(response.status).toBe(502);
+    expect(upstream.to('/resend')).toHaveLength(0);
+  });
+
+  // The confirmation email is the point of signing up, so unlike the other
+  // forms' emails its failure is the visitor's to hear about
+  it('fails when the confirmation email cannot be sent', async () => {
+    upstream.fail('POST', '/resend', 500, { name: 'internal_server_error' });
+    const response = await post(POST, PATH, subscriber());
+
+    expect(response.status).toBe(502);
+  });
+
+  it('limits each client to five signups a minute', async () => {
+    const ip = '198.51.100.9';
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await post(POST, PATH, {}, ip)).status).toBe(400);
+    }
+
+    const response = await post(POST, PATH, subscriber(), ip);
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({ success: false, error: 'Too many requests. Please try again later.' });
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('5');
+    expect(upstream.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,197 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// One local HTTP server standing in for Airtable, EmailOctopus, Resend and
+// Slack, each under its own path prefix (see upstreamEnv in ./helpers). It
+// records every request and answers like the real service: Airtable keeps
+// rows per table and understands the LOWER({Field}) = '...' formulas the
+// record store searches with; the others accept whatever they're sent.
+
+export interface UpstreamRequest {
+  method: string;
+  // Without the query string, e.g. /airtable/v0/appTest/tblCommunity
+  path: string;
+  query: URLSearchParams;
+  // Parsed JSON, the raw text if it isn't JSON, or undefined if there was none
+  body: unknown;
+}
+
+export interface AirtableRow {
+  id: string;
+  createdTime: string;
+  fields: Record<string, unknown>;
+}
+
+interface AirtableWrite {
+  records: { id?: string; fields: Record<string, unknown> }[];
+}
+
+interface Failure {
+  method: string;
+  prefix: string;
+  status: number;
+  body: unknown;
+}
+
+export interface FakeUpstream {
+  url: string;
+  requests: UpstreamRequest[];
+  // Airtable rows by table id
+  tables: Map<string, AirtableRow[]>;
+  // Requests to the service under `prefix`, e.g. '/slack'
+  to(prefix: string, method?: string): UpstreamRequest[];
+  // Answers matching requests with this status and body until reset()
+  fail(method: string, prefix: string, status: number, body?: unknown): void;
+  // Makes an Airtable table reject writes that name any other field, as Airtable does
+  restrictFields(table: string, fields: string[]): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+// A request's JSON body as the shape the caller expects of that service
+export function jsonBody<T>(request: UpstreamRequest): T {
+  if (!request.body || typeof request.body !== 'object') {
+    throw new Error(`${request.method} ${request.path} had no JSON body`);
+  }
+  return request.body as T;
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function send(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(typeof body === 'string' ? body : JSON.stringify(body ?? {}));
+}
+
+// LOWER({Email Key}) = 'ada@example.com'
+function matchesFormula(row: AirtableRow, formula: string): boolean {
+  const match = /^LOWER\(\{(.+)\}\) = '(.*)'$/.exec(formula);
+  if (!match) throw new Error(`Fake Airtable can't evaluate ${formula}`);
+  const value = match[2].replace(/\\(.)/g, '$1');
+  return String(row.fields[match[1]] ?? '').toLowerCase() === value;
+}
+
+export async function startFakeUpstream(): Promise<FakeUpstream> {
+  const requests: UpstreamRequest[] = [];
+  const tables = new Map<string, AirtableRow[]>();
+  const knownFields = new Map<string, string[]>();
+  let failures: Failure[] = [];
+  let nextId = 1;
+
+  const rows = (table: string) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+
+  function unknownField(table: string, fields: Record<string, unknown>): string | undefined {
+    const known = knownFields.get(table);
+    return known && Object.keys(fields).find((field) => !known.includes(field));
+  }
+
+  function airtable(request: UpstreamRequest, response: ServerResponse): void {
+    // /airtable/v0/<base>/<table>
+    const table = request.path.split('/')[4];
+    const write = request.method === 'POST' || request.method === 'PATCH';
+    const records = write ? jsonBody<AirtableWrite>(request).records : [];
+
+    for (const record of records) {
+      const field = unknownField(table, record.fields);
+      if (field) {
+        send(response, 422, { error: { type: 'UNKNOWN_FIELD_NAME', message: `Unknown field name: "${field}"` } });
+        return;
+      }
+    }
+
+    switch (request.method) {
+      case 'GET': {
+        const formula = request.query.get('filterByFormula');
+        const found = formula ? rows(table).filter((row) => matchesFormula(row, formula)) : rows(table);
+        send(response, 200, { records: found });
+        return;
+      }
+      case 'POST': {
+        const created = records.map((record) => ({
+          id: `rec${nextId++}`,
+          createdTime: new Date().toISOString(),
+          fields: record.fields,
+        }));
+        rows(table).push(...created);
+        send(response, 200, { records: created });
+        return;
+      }
+      case 'PATCH': {
+        const updated = records.map((record) => {
+          const row = rows(table).find((candidate) => candidate.id === record.id);
+          if (!row) throw new Error(`Fake Airtable has no record ${record.id}`);
+          Object.assign(row.fields, record.fields);
+          return row;
+        });
+        send(response, 200, { records: updated });
+        return;
+      }
+    }
+    send(response, 405, { error: { type: 'METHOD_NOT_ALLOWED' } });
+  }
+
+  const server = createServer(async (incoming, response) => {
+    const url = new URL(incoming.url ?? '/', 'http://localhost');
+    const request: UpstreamRequest = {
+      method: incoming.method ?? 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      body: await readBody(incoming),
+    };
+    requests.push(request);
+
+    const failure = failures.find(
+      (candidate) => candidate.method === request.method && request.path.startsWith(candidate.prefix)
+    );
+    if (failure) {
+      send(response, failure.status, failure.body);
+    } else if (request.path.startsWith('/airtable/')) {
+      airtable(request, response);
+    } else if (request.path.startsWith('/slack/')) {
+      response.writeHead(200, { 'Content-Type': 'text/plain' });
+      response.end('ok');
+    } else {
+      send(response, 200, { id: `id${nextId++}` });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    tables,
+    to(prefix, method) {
+      return requests.filter((request) => request.path.startsWith(prefix) && (!method || request.method === method));
+    },
+    fail(method, prefix, status, body = { error: { message: 'Fake upstream failure' } }) {
+      failures.push({ method, prefix, status, body });
+    },
+    restrictFields(table, fields) {
+      knownFields.set(table, fields);
+    },
+    reset() {
+      requests.length = 0;
+      tables.clear();
+      knownFields.clear();
+      failures = [];
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import type { APIContext, APIRoute } from 'astro';
+import { vi } from 'vitest';
+import type { FakeUpstream } from './fake-upstream';
+
+// Settings a developer's shell could have that would take the handlers off
+// the live adapters or add steps the tests don't expect
+const CLEARED_ENV = [
+  'INTEGRATIONS',
+  'RECORD_STORE',
+  'MAILING_LIST',
+  'EMAIL_SENDER',
+  'CHAT_NOTIFIER',
+  'REPLY_TO_EMAIL',
+  'KV_REST_API_URL',
+  'KV_REST_API_TOKEN',
+  'OUTBOX_STORE',
+  'OUTBOX_MAX_ATTEMPTS',
+  'SLACK_ALERTS_WEBHOOK_URL',
+  'FORM_TOKEN_SECRET',
+  'CAPTCHA_PROVIDER',
+  'DEDUPE_IGNORE_PLUS_ADDRESSING',
+];
+
+export const TABLES = { community: 'tblCommunity', merch: 'tblMerch' };
+
+// A live configuration with every service pointed at the fake upstream.
+// Stubs are undone after each test (unstubEnvs in vitest.config.ts).
+export function upstreamEnv(upstream: FakeUpstream): void {
+  for (const name of CLEARED_ENV) vi.stubEnv(name, undefined);
+  const env: Record<string, string> = {
+    AIRTABLE_API_URL: `${upstream.url}/airtable`,
+    AIRTABLE_PAT: 'patTest',
+    AIRTABLE_BASE_ID: 'appTest',
+    AIRTABLE_TABLE_ID: TABLES.community,
+    AIRTABLE_MERCH_TABLE_ID: TABLES.merch,
+    EMAILOCTOPUS_API_URL: `${upstream.url}/emailoctopus`,
+    EMAILOCTOPUS_API_KEY: 'eo-test',
+    EMAILOCTOPUS_LIST_ID: 'list-test',
+    RESEND_API_URL: `${upstream.url}/resend`,
+    RESEND_API_KEY: 're_test',
+    FROM_EMAIL: 'The Tech Bros <hello@example.com>',
+    SLACK_WEBHOOK_URL: `${upstream.url}/slack/community`,
+    SLACK_MERCH_WEBHOOK_URL: `${upstream.url}/slack/merch`,
+    SIGNED_LINK_SECRET: '0123456789abcdef0123456789abcdef',
+    // Live deployments share counters through KV; one test process can keep them in memory
+    RATE_LIMIT_STORE: 'memory',
+  };
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+}
+
+// What a form answers when its write was parked in the outbox
+export const QUEUED = {
+  success: true,
+  queued: true,
+  message: "We've received your submission and are processing it.",
+};
+
+let nextIp = 1;
+
+// Each call comes from a new client IP unless one is given, so the forms'
+// rate limits only come into play in the tests about them
+export function post(handler: APIRoute, path: string, body: unknown, ip = `192.0.2.${nextIp++}`) {
+  const request = new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': ip },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  return handler({ request, url: new URL(request.url) } as APIContext) as Promise<Response>;
+}
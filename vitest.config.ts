@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// The API endpoints are tested by calling their handlers against a fake
+// upstream server (tests/fake-upstream.ts), not through Astro
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    unstubEnvs: true,
+  },
+});